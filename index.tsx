@@ -1,52 +1,73 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
+import type {
+    Measurements, MeasurementKey, RawMeasurements, RoofFacet, EdgeKind, RoofTracing, TracePoint, CustomSection,
+    SectionKind, SectionValue, ReportPhoto, ReportVariantId, PhotoCategory, JobStatus, ReportRevision, RevisionSnapshot,
+    Template, Report, ReportSource, RoofType, RoofViewAngle, ShingleType, Profile, Customer, MaterialSettings, PriceBook, Quote, QuoteOptions, SurchargeTier, MeasurementProvider,
+    ClaimCode, ClaimCodeBook, ClaimQuantityBasis, EstimateLine, InsuranceEstimate,
+} from "./types";
+import { calculateMaterialTakeoff, resolveMaterialSettings, MATERIAL_KEYS, MATERIAL_COVERAGE_UNITS } from "./lib/materials";
+import {
+    parseMeasurementValue, formatMeasurement, migrateMeasurements, isLegacyMeasurements,
+    MeasurementParseError, MEASUREMENT_KEYS, MEASUREMENT_LABELS, MAX_WASTE_PERCENT,
+} from "./lib/measurements";
+import {
+    createFacet, createFacetFromMeasurements, deriveMeasurementsFromFacets, slopedArea,
+    EDGE_KINDS, EDGE_LABELS, EDGE_COLORS,
+} from "./lib/facets";
+import { calculateQuote, resolvePriceBook, sellPriceLines, formatCurrency, DEFAULT_QUOTE_OPTIONS } from "./lib/pricing";
+import { encodeSharedReport, decodeSharedReport, ShareLinkError, SHARE_VERSION } from "./lib/share";
+import type { SharedReport } from "./lib/share";
+import { parseRoute, routeToHash } from "./lib/router";
+import * as storage from "./lib/storage";
+import { MEASUREMENT_PROVIDERS, resolveProvider } from "./lib/providers";
+import {
+    sectionKind, emptySectionValue, normalizeSectionValue, formatSectionValue, isSectionValueEmpty,
+    SECTION_KINDS, SECTION_KIND_LABELS, OPTION_SECTION_KINDS, QUICK_ADD_SECTIONS,
+} from "./lib/sections";
+import { createPhoto, movePhoto, describePhoto, PHOTO_CATEGORIES, PHOTO_CATEGORY_LABELS } from "./lib/photos";
+import { createRevision, describeField } from "./lib/revisions";
+import {
+    templateVersion, reviseTemplate, templateForReport, duplicateTemplate, countTemplateUsage,
+    createTemplateFile, parseTemplateFile, planTemplateImport, templateFileName, TemplateFileError,
+} from "./lib/templates";
+import { STARTER_TEMPLATES, cloneStarterTemplate } from "./lib/starterTemplates";
+import type { StarterTemplate } from "./lib/starterTemplates";
+import { reportStatus, statusSince, withStatus, JOB_STATUSES, JOB_STATUS_LABELS } from "./lib/pipeline";
+import {
+    buildCustomer, customerContactLines, customerSearchText, describeInsurance, CustomerValidationError, CUSTOMER_FIELDS,
+} from "./lib/customers";
+import {
+    reportSource, isSyntheticImage, describeMeasurementSource, describeImageSource, SYNTHETIC_IMAGE_NOTICE,
+} from "./lib/provenance";
+import { createBackup, parseBackup, planRestore, backupFileName, BackupError } from "./lib/backup";
+import type { ExistingWorkspace, RestoreMode, WorkspaceBackup } from "./lib/backup";
+import { StorageError, StorageQuotaError } from "./lib/storage";
+import { buildRoofDiagram } from "./lib/diagram";
+import { ROOF_TYPES, inferRoofType, buildRoofModel } from "./lib/roofModel";
+import { SHINGLE_TYPES, DEFAULT_SHINGLE_TYPE, reportWaste, withWasteFactor } from "./lib/waste";
+import { checkMeasurements, unresolvedWarnings } from "./lib/checks";
+import type { MeasurementWarning } from "./lib/checks";
+import { DEFAULT_VIEW_ANGLE, clampViewAngle, drawRoofPreview, modelPitches, pitchColor, renderRoofPreviewImage } from "./lib/roofPreview";
+import { createPdfLayout, drawDiagramOnPdf, PDF_MARGIN, PDF_ACCENT } from "./lib/pdfLayout";
+import type { PdfDocument, PdfLayout } from "./lib/pdfLayout";
+import {
+    generateEstimate, refreshEstimateQuantities, resolveClaimCodeBook, claimQuantity, manualLine, lineTotal, isOverridden, estimateSummaryRows, estimateToCsv,
+    CLAIM_BASIS_LABELS, CLAIM_UNITS,
+} from "./lib/estimate";
+import { REPORT_VARIANTS, getReportVariant, variantSections, isReportVariantId } from "./lib/variants";
+import type { ReportVariant, ReportPdfSection } from "./lib/variants";
+import type { Route } from "./lib/router";
+import {
+    createTracing, distance, feetPerPixel, polygonCentroid, polygonPlanArea, summarizeTracing, tracedLineLength, tracingToFacets,
+} from "./lib/tracing";
 
 // --- TYPE DECLARATIONS FOR CDN LIBRARIES ---
-declare const html2canvas: any;
 declare global {
     interface Window {
         jspdf: any;
     }
 }
 
-// --- TYPE DEFINITIONS ---
-type Measurements = {
-    totalArea: string;
-    pitch: string;
-    ridges: string;
-    valleys: string;
-    eaves: string;
-    rakes: string;
-    wasteFactor: string;
-};
-
-type CustomSection = {
-    id: string;
-    title: string;
-};
-
-type Template = {
-    id: number;
-    name: string;
-    customSections: CustomSection[];
-};
-
-type Report = {
-    id: number;
-    address: string;
-    imageUrl: string;
-    measurements: Measurements;
-    timestamp: string;
-    templateId?: number;
-    customData?: Record<string, string>; // Maps CustomSection.id to its content
-};
-
-type Profile = {
-    companyName: string;
-    companyAddress: string;
-    logoDataUrl: string;
-};
-
 
 // --- DOM ELEMENT REFERENCES ---
 const mainContent = document.getElementById('main-content') as HTMLElement;
@@ -54,197 +75,258 @@ const navLinks = document.querySelector('.nav-links') as HTMLElement;
 const signUpNavBtn = document.getElementById('signup-nav-btn') as HTMLButtonElement;
 const historyNavLink = document.getElementById('history-nav-link') as HTMLButtonElement;
 const templatesNavLink = document.getElementById('templates-nav-link') as HTMLButtonElement;
+const customersNavLink = document.getElementById('customers-nav-link') as HTMLButtonElement;
+const pipelineNavLink = document.getElementById('pipeline-nav-link') as HTMLButtonElement;
 const profileNavLink = document.getElementById('profile-nav-link') as HTMLButtonElement;
+const settingsNavLink = document.getElementById('settings-nav-link') as HTMLButtonElement;
 const logoLink = document.getElementById('logo-link') as HTMLAnchorElement;
 const modalOverlay = document.getElementById('signup-modal-overlay') as HTMLDivElement;
 const closeModalBtn = document.querySelector('.modal-close-btn') as HTMLButtonElement;
 const signUpForm = document.getElementById('signup-form') as HTMLFormElement;
+const shareModalOverlay = document.getElementById('share-modal-overlay') as HTMLDivElement;
+const shareLinkInput = document.getElementById('share-link-input') as HTMLInputElement;
+const copyLinkBtn = document.getElementById('copy-link-btn') as HTMLButtonElement;
 
 
 // --- STATE ---
-let ai: GoogleGenAI | null = null;
-const REPORT_HISTORY_KEY = 'roofReportHistory';
-const PROFILE_DATA_KEY = 'contractorProfile';
-const TEMPLATE_DATA_KEY = 'reportTemplates';
+const MATERIAL_SETTINGS_KEY = 'materialSettings';
+const PRICE_BOOK_KEY = 'priceBook';
+const CLAIM_CODE_BOOK_KEY = 'claimCodeBook';
+const MEASUREMENT_PROVIDER_KEY = 'measurementProvider';
+let isAppMode = false;
 
 // --- API & BUSINESS LOGIC ---
 
 /**
- * Simulates fetching a roof report by calling the Gemini API.
- * @param address The property address.
- * @returns An object containing the image URL and measurement data.
- */
-async function getRoofReport(address: string) {
-  if (!ai) {
-    ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
-  }
-
-  // Define the schema for the measurement data
-  const measurementSchema = {
-    type: Type.OBJECT,
-    properties: {
-      totalArea: { type: Type.STRING, description: 'Total roof area in square feet (e.g., "2,450 sq ft")' },
-      pitch: { type: Type.STRING, description: 'The primary pitch of the roof (e.g., "6/12")' },
-      ridges: { type: Type.STRING, description: 'Total length of all ridges in linear feet (e.g., "120 ft")' },
-      valleys: { type: Type.STRING, description: 'Total length of all valleys in linear feet (e.g., "65 ft")' },
-      eaves: { type: Type.STRING, description: 'Total length of all eaves in linear feet (e.g., "180 ft")' },
-      rakes: { type: Type.STRING, description: 'Total length of all rakes in linear feet (e.g., "90 ft")' },
-      wasteFactor: { type: Type.STRING, description: 'Suggested waste factor percentage (e.g., "15%")' },
-    },
-    required: ['totalArea', 'pitch', 'ridges', 'valleys', 'eaves', 'rakes', 'wasteFactor']
-  };
-
-  // --- API Call for Measurements ---
-  const measurementsPromise = ai.models.generateContent({
-    model: 'gemini-2.5-flash',
-    contents: `Generate a realistic set of roof measurements for a typical single-family home at the address: ${address}.`,
-    config: {
-      responseMimeType: 'application/json',
-      responseSchema: measurementSchema,
-    },
-  });
-
-  // --- API Call for Satellite Image ---
-  const imagePromise = ai.models.generateImages({
-    model: 'imagen-4.0-generate-001',
-    prompt: `A high-resolution, top-down satellite image of a suburban house at ${address}. The roof should be clearly visible. Sunny day, no clouds or shadows obscuring the roof.`,
-    config: {
-      numberOfImages: 1,
-      outputMimeType: 'image/jpeg',
-      aspectRatio: '1:1',
-    },
-  });
-
-  // Await both promises
-  const [measurementResponse, imageResponse] = await Promise.all([measurementsPromise, imagePromise]);
-
-  // Process measurement response
-  const measurements = JSON.parse(measurementResponse.text);
-
-  // Process image response
-  const base64ImageBytes = imageResponse.generatedImages[0].image.imageBytes;
-  const imageUrl = `data:image/jpeg;base64,${base64ImageBytes}`;
-
-  return { imageUrl, measurements };
-}
-
-/**
- * Retrieves the report history from localStorage.
+ * Retrieves the report history, newest first.
  * @returns An array of Report objects.
  */
-function getReportHistory(): Report[] {
-    const historyJson = localStorage.getItem(REPORT_HISTORY_KEY);
-    return historyJson ? JSON.parse(historyJson) : [];
+async function getReportHistory(): Promise<Report[]> {
+    const history = await storage.getReports();
+    return Promise.all(history.map(upgradeStoredReport));
+}
+
+/**
+ * Retrieves a single report by ID.
+ * @returns The report, or null if there is none with that ID.
+ */
+async function getReportById(reportId: number): Promise<Report | null> {
+    const report = await storage.getReport(reportId);
+    return report && upgradeStoredReport(report);
+}
+
+/**
+ * Migrates a report saved by an older version and stores the result, so it's only done once.
+ */
+async function upgradeStoredReport(report: Report): Promise<Report> {
+    if (!isLegacyMeasurements(report.measurements) && report.facets) return report;
+    const migrated = migrateReport(report);
+    await storage.putReport(migrated);
+    return migrated;
+}
+
+/**
+ * Brings a report saved by an older version up to the current model: string measurements
+ * become typed values and a report without facets gets one facet holding its totals.
+ * @param report The report as stored.
+ * @returns The migrated report, keeping the text of any unreadable values.
+ */
+function migrateReport(report: Report): Report {
+    let migrated = report;
+    if (isLegacyMeasurements(report.measurements)) {
+        const { measurements, unparsed } = migrateMeasurements(report.measurements as unknown as RawMeasurements);
+        migrated = { ...migrated, measurements };
+        if (Object.keys(unparsed).length > 0) {
+            migrated.unparsedMeasurements = { ...report.unparsedMeasurements, ...unparsed };
+        }
+    }
+    if (!migrated.facets) {
+        migrated = { ...migrated, facets: [createFacetFromMeasurements(migrated.measurements)] };
+    }
+    return migrated;
 }
 
 /**
- * Saves a new report to the localStorage history.
+ * Saves a new report to the history.
  * @param report The new report object to save.
  * @returns The newly created report object with ID and timestamp.
  */
-function saveReportToHistory(report: Omit<Report, 'id' | 'timestamp' | 'customData'>): Report {
-    const history = getReportHistory();
-    const newReport: Report = {
+async function saveReportToHistory(report: Omit<Report, 'id' | 'timestamp' | 'customData' | 'facets'> & { facets?: RoofFacet[] }): Promise<Report> {
+    const facets = report.facets || [createFacetFromMeasurements(report.measurements)];
+    const timestamp = new Date().toISOString();
+    const newReport: Report = withWasteFactor({
         ...report,
+        facets,
+        measurements: deriveMeasurementsFromFacets(facets, report.measurements),
         id: Date.now(),
-        timestamp: new Date().toISOString(),
-        customData: {}
-    };
+        timestamp,
+        customData: {},
+        status: 'lead', // Every job enters the pipeline as a lead
+        statusHistory: [{ status: 'lead', changedAt: timestamp }],
+    });
 
     if (report.templateId) {
-        const template = getTemplates().find(t => t.id === report.templateId);
+        const template = await storage.getTemplate(report.templateId);
         if (template) {
+            newReport.templateVersion = templateVersion(template);
             template.customSections.forEach(section => {
-                newReport.customData![section.id] = ''; // Initialize custom data fields
+                newReport.customData![section.id] = emptySectionValue(section); // Initialize custom data fields
             });
         }
     }
 
-    history.unshift(newReport); // Add to the beginning
-    localStorage.setItem(REPORT_HISTORY_KEY, JSON.stringify(history));
+    await storage.putReport(newReport);
     
     historyNavLink.classList.remove('hidden');
     
     return newReport;
 }
 
-
 /**
- * Updates an existing report in the localStorage history.
- * @param updatedReport The report object with updated details.
+ * Saves an edited report and records the save as a revision. The first time a report is
+ * edited its original values are recorded as well, so they can always be compared and restored.
+ * Saves that change none of the tracked fields add no revision.
+ * @param previous The report as it was before the edit.
+ * @param updated The edited report.
+ * @param label What the save was, shown in the revision list.
  */
-function updateReportInHistory(updatedReport: Report) {
-    const history = getReportHistory();
-    const reportIndex = history.findIndex(r => r.id === updatedReport.id);
-    if (reportIndex !== -1) {
-        history[reportIndex] = updatedReport;
-        localStorage.setItem(REPORT_HISTORY_KEY, JSON.stringify(history));
+async function saveReportWithRevision(previous: Report, updated: Report, label: string) {
+    const revision = createRevision(updated, previous, label, new Date());
+    if (revision.changedFields.length === 0) {
+        await storage.putReport(updated);
+        return;
     }
+    const isFirstEdit = (await storage.getRevisions(previous.id)).length === 0;
+    const original = createRevision(previous, null, 'Original version', new Date(previous.timestamp), revision.id - 1);
+    await storage.putReport(updated, isFirstEdit ? [original, revision] : [revision]);
 }
 
 /**
- * Retrieves templates from localStorage.
- * @returns An array of Template objects.
+ * The edited report with its waste factor applied and, if its measurements or facets changed,
+ * its saved quote and insurance estimate brought up to date with them, so an edit reaches
+ * every figure in the PDF. The quote is recalculated with its own options and the current
+ * price book; the estimate keeps the estimator's overrides and added lines.
+ * @param previous The report as it was before the edit.
+ * @param edited The edited report.
  */
-function getTemplates(): Template[] {
-    const templatesJson = localStorage.getItem(TEMPLATE_DATA_KEY);
-    return templatesJson ? JSON.parse(templatesJson) : [];
+function withCurrentMeasurements(previous: Report, edited: Report): Report {
+    const updated = withWasteFactor(edited);
+    const { measurements, facets, quote, estimate } = updated;
+    if (JSON.stringify([measurements, facets]) === JSON.stringify([previous.measurements, previous.facets])) return updated;
+    return {
+        ...updated,
+        quote: quote && calculateQuote(measurements, facets, calculateMaterialTakeoff(measurements, getMaterialSettings()), getPriceBook(), quote.options),
+        estimate: estimate && refreshEstimateQuantities(estimate, measurements, facets, getClaimCodeBook()),
+    };
 }
 
 /**
- * Saves a template to localStorage. Handles both create and update.
+ * Saves a template. Handles both create and update.
  * @param template The template to save.
  */
-function saveTemplate(template: Omit<Template, 'id'> | Template): Template {
-    const templates = getTemplates();
-    if ('id' in template && template.id) {
-        // Update
-        const index = templates.findIndex(t => t.id === template.id);
-        if (index > -1) {
-            templates[index] = template;
-        } else {
-            templates.unshift(template); // Should not happen but good fallback
-        }
-        localStorage.setItem(TEMPLATE_DATA_KEY, JSON.stringify(templates));
-        return template;
-    } else {
-        // Create
-        const newTemplate: Template = {
-            ...(template as Omit<Template, 'id'>),
-            id: Date.now(),
-        };
-        templates.unshift(newTemplate);
-        localStorage.setItem(TEMPLATE_DATA_KEY, JSON.stringify(templates));
-        return newTemplate;
-    }
+async function saveTemplate(template: Omit<Template, 'id'> | Template): Promise<Template> {
+    const saved: Template = 'id' in template && template.id
+        ? template
+        : { ...(template as Omit<Template, 'id'>), id: Date.now() };
+    await storage.putTemplate(saved);
+    return saved;
+}
+
+/**
+ * The template a report was made with, at the version it was made with.
+ * @param report The report.
+ * @returns The template, or null if the report has none or it was deleted.
+ */
+async function getReportTemplate(report: Pick<Report, 'templateId' | 'templateVersion'>): Promise<Template | null> {
+    if (!report.templateId) return null;
+    const template = await storage.getTemplate(report.templateId);
+    return template ? templateForReport(template, report) : null;
+}
+
+/**
+ * Saves text to the user's downloads.
+ * @param contents The file contents.
+ * @param fileName The suggested file name.
+ * @param type The file's MIME type.
+ */
+function downloadFile(contents: string, fileName: string, type: string) {
+    const url = URL.createObjectURL(new Blob([contents], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Tells the user a save failed. A full disk gets its own message, since retrying won't help.
+ * @param error The error thrown by the storage layer.
+ * @param action What was being done, e.g. "save the report".
+ */
+function alertStorageError(error: unknown, action: string) {
+    console.error(`Failed to ${action}:`, error);
+    alert(error instanceof StorageQuotaError ? error.message : `Sorry, we could not ${action}. Please try again.`);
+}
+
+/**
+ * Retrieves the material coverage settings from localStorage, filled in with defaults.
+ * @returns A complete MaterialSettings object.
+ */
+function getMaterialSettings(): MaterialSettings {
+    const settingsJson = localStorage.getItem(MATERIAL_SETTINGS_KEY);
+    return resolveMaterialSettings(settingsJson ? JSON.parse(settingsJson) : null);
+}
+
+/**
+ * Saves material coverage settings to localStorage.
+ * @param settings The settings object to save.
+ */
+function saveMaterialSettings(settings: MaterialSettings) {
+    localStorage.setItem(MATERIAL_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+/**
+ * The measurement provider chosen in settings, or the first usable one.
+ */
+function getMeasurementProvider(): MeasurementProvider {
+    return resolveProvider(localStorage.getItem(MEASUREMENT_PROVIDER_KEY));
 }
 
 /**
- * Deletes a template from localStorage.
- * @param templateId The ID of the template to delete.
+ * Saves the chosen measurement provider to localStorage.
+ * @param providerId The provider's ID.
  */
-function deleteTemplate(templateId: number) {
-    let templates = getTemplates();
-    templates = templates.filter(t => t.id !== templateId);
-    localStorage.setItem(TEMPLATE_DATA_KEY, JSON.stringify(templates));
+function saveMeasurementProvider(providerId: string) {
+    localStorage.setItem(MEASUREMENT_PROVIDER_KEY, providerId);
 }
 
+/**
+ * Retrieves the price book from localStorage, filled in with defaults.
+ * @returns A complete PriceBook object.
+ */
+function getPriceBook(): PriceBook {
+    const priceBookJson = localStorage.getItem(PRICE_BOOK_KEY);
+    return resolvePriceBook(priceBookJson ? JSON.parse(priceBookJson) : null);
+}
 
 /**
- * Retrieves the user profile from localStorage.
- * @returns A Profile object or null.
+ * Saves the price book to localStorage.
+ * @param priceBook The price book to save.
  */
-function getProfileData(): Profile | null {
-    const profileJson = localStorage.getItem(PROFILE_DATA_KEY);
-    return profileJson ? JSON.parse(profileJson) : null;
+function savePriceBook(priceBook: PriceBook) {
+    localStorage.setItem(PRICE_BOOK_KEY, JSON.stringify(priceBook));
 }
 
 /**
- * Saves profile data to localStorage.
- * @param profile The profile object to save.
+ * Retrieves the insurance claim code book from localStorage, filled in with defaults.
  */
-function saveProfileData(profile: Profile) {
-    localStorage.setItem(PROFILE_DATA_KEY, JSON.stringify(profile));
+function getClaimCodeBook(): ClaimCodeBook {
+    const codeBookJson = localStorage.getItem(CLAIM_CODE_BOOK_KEY);
+    return resolveClaimCodeBook(codeBookJson ? JSON.parse(codeBookJson) : null);
+}
+
+function saveClaimCodeBook(codeBook: ClaimCodeBook) {
+    localStorage.setItem(CLAIM_CODE_BOOK_KEY, JSON.stringify(codeBook));
 }
 
 /**
@@ -270,6 +352,80 @@ function setButtonLoadingState(button: HTMLButtonElement, isLoading: boolean, lo
 }
 
 
+/**
+ * Escapes text for safe insertion into HTML markup.
+ * @param text The raw text.
+ * @returns The escaped text.
+ */
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+/**
+ * Re-encodes an image data URL as a JPEG no larger than the given size.
+ * @param dataUrl The source image.
+ * @param maxSize Maximum width or height in pixels.
+ * @param quality JPEG quality between 0 and 1.
+ * @returns The smaller image as a data URL.
+ */
+async function shrinkImageDataUrl(dataUrl: string, maxSize: number, quality: number): Promise<string> {
+    const img = new Image();
+    img.src = dataUrl;
+    await img.decode();
+    const scale = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(img.naturalWidth * scale);
+    canvas.height = Math.round(img.naturalHeight * scale);
+    const context = canvas.getContext('2d')!;
+    context.fillStyle = '#fff'; // JPEG has no transparency
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', quality);
+}
+
+/**
+ * Reads a file chosen by the user as a data URL.
+ * @param file The selected file.
+ * @returns The file contents as a data URL.
+ */
+function readFileAsDataUrl(file: File): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(file);
+    });
+}
+
+/**
+ * Reads an uploaded photo or orthomosaic and re-encodes it as a JPEG of a storable size.
+ * @param file The selected image file.
+ * @returns The image as a JPEG data URL.
+ */
+async function readUploadedImage(file: File): Promise<string> {
+    return shrinkImageDataUrl(await readFileAsDataUrl(file), 2400, 0.9);
+}
+
+/**
+ * Builds the note shown under a report image saying where the image and measurements came from.
+ * @param source The report's source.
+ * @returns An HTML string; generated images get a prominent warning.
+ */
+function createSourceNoteHtml(source: ReportSource): string {
+    return `
+        <dl class="report-source">
+            <div><dt>Measurements</dt><dd>${escapeHtml(describeMeasurementSource(source))}</dd></div>
+            <div><dt>Image</dt><dd>${escapeHtml(describeImageSource(source))}</dd></div>
+        </dl>
+    `;
+}
+
+
 // --- UI RENDERING FUNCTIONS ---
 
 /**
@@ -368,11 +524,110 @@ function renderLandingPage() {
 }
 
 
+/**
+ * Creates inputs for a customer's details, tagged with data-field for readCustomerFields.
+ * @param customer The customer to fill in, if editing.
+ * @param withNotes Whether to include the free-form notes field.
+ * @returns An HTML string of form groups.
+ */
+function createCustomerFieldsHtml(customer?: Customer, withNotes = true): string {
+    return `
+        ${CUSTOMER_FIELDS.map(field => `
+            <div class="form-group">
+                <label for="customer-${field.key}-input">${field.label}</label>
+                <input type="${field.type}" id="customer-${field.key}-input" data-field="${field.key}" value="${escapeHtml(customer?.[field.key] || '')}" placeholder="${field.placeholder}">
+            </div>
+        `).join('')}
+        ${withNotes ? `
+            <div class="form-group">
+                <label for="customer-notes-input">Notes</label>
+                <textarea id="customer-notes-input" data-field="notes" rows="3">${escapeHtml(customer?.notes || '')}</textarea>
+            </div>
+        ` : ''}
+    `;
+}
+
+function readCustomerFields(container: HTMLElement): Partial<Record<keyof Customer, string>> {
+    const fields: Partial<Record<keyof Customer, string>> = {};
+    container.querySelectorAll<HTMLInputElement | HTMLTextAreaElement>('[data-field]').forEach(input => {
+        fields[input.dataset.field as keyof Customer] = input.value;
+    });
+    return fields;
+}
+
+/**
+ * Creates the customer chooser for new-report forms: an existing customer, none, or a
+ * new one entered inline.
+ */
+function createCustomerPickerHtml(customers: Customer[]): string {
+    return `
+        <div class="form-group">
+            <label for="customer-select">Customer (Optional)</label>
+            <select id="customer-select">
+                <option value="">No customer</option>
+                ${customers.map(customer => `<option value="${customer.id}">${escapeHtml(customer.name)}${customer.phone ? ` (${escapeHtml(customer.phone)})` : ''}</option>`).join('')}
+                <option value="new">+ New customer...</option>
+            </select>
+        </div>
+        <div class="new-customer-fields hidden">
+            ${createCustomerFieldsHtml(undefined, false)}
+        </div>
+    `;
+}
+
+/**
+ * Shows the new-customer inputs when "New customer" is chosen, and fills an empty property
+ * address from a chosen customer's mailing address.
+ * @param form The form containing the picker.
+ * @param customers The customers offered in the picker.
+ * @param addressInputId The ID of the form's property address input.
+ */
+function setupCustomerPicker(form: HTMLFormElement, customers: Customer[], addressInputId: string) {
+    const select = form.querySelector('#customer-select') as HTMLSelectElement;
+    const newFields = form.querySelector('.new-customer-fields') as HTMLDivElement;
+    const addressInput = document.getElementById(addressInputId) as HTMLInputElement;
+    select.addEventListener('change', () => {
+        newFields.classList.toggle('hidden', select.value !== 'new');
+        const customer = customers.find(c => c.id === Number(select.value));
+        if (customer?.address && !addressInput.value.trim()) addressInput.value = customer.address;
+    });
+}
+
+type CustomerChoice = { customerId?: number; newCustomer?: Customer };
+
+/**
+ * Reads the customer picker, alerting if a new customer's details are incomplete.
+ * @returns The choice, or null if the form shouldn't be submitted yet.
+ */
+function readCustomerPicker(form: HTMLFormElement): CustomerChoice | null {
+    const select = form.querySelector('#customer-select') as HTMLSelectElement;
+    if (select.value !== 'new') {
+        return { customerId: select.value ? Number(select.value) : undefined };
+    }
+    try {
+        return { newCustomer: buildCustomer(readCustomerFields(form.querySelector('.new-customer-fields') as HTMLElement)) };
+    } catch (error) {
+        if (!(error instanceof CustomerValidationError)) throw error;
+        alert(error.message);
+        return null;
+    }
+}
+
+/**
+ * Saves a newly entered customer, if any, and returns the ID the report should link to.
+ */
+async function saveCustomerChoice(choice: CustomerChoice): Promise<number | undefined> {
+    if (!choice.newCustomer) return choice.customerId;
+    await storage.putCustomer(choice.newCustomer);
+    return choice.newCustomer.id;
+}
+
 /**
  * Renders the view for entering a property address.
  */
-function renderAddressInput() {
-    const templates = getTemplates();
+async function renderAddressInput() {
+    const templates = (await storage.getTemplates()).filter(template => !template.archived);
+    const customers = await storage.getCustomers();
     mainContent.innerHTML = `
         <section class="report-generator-view">
             <div class="container">
@@ -391,14 +646,98 @@ function renderAddressInput() {
                                 ${templates.map(t => `<option value="${t.id}">${t.name}</option>`).join('')}
                             </select>
                         </div>
+                        ${createCustomerPickerHtml(customers)}
                         <button type="submit" class="btn btn-primary btn-large">Get Report</button>
                     </form>
+                    <p class="manual-report-link">
+                        Measured the roof yourself? <button type="button" id="manual-report-link-btn" class="btn-link">Enter measurements manually</button>
+                    </p>
                 </div>
             </div>
         </section>
     `;
 
+    setupCustomerPicker(document.getElementById('address-form') as HTMLFormElement, customers, 'address-input');
     document.getElementById('address-form')?.addEventListener('submit', handleAddressSubmit);
+    document.getElementById('manual-report-link-btn')?.addEventListener('click', () => navigate({ name: 'newManualReport' }));
+}
+
+const MEASUREMENT_PLACEHOLDERS: Record<MeasurementKey, string> = {
+    totalArea: 'e.g., 2,450 sq ft or 24.5 squares',
+    pitch: 'e.g., 6/12',
+    ridges: 'e.g., 120 ft',
+    hips: 'e.g., 40 ft (0 for a gable roof)',
+    valleys: 'e.g., 65 ft',
+    eaves: 'e.g., 180 ft',
+    rakes: 'e.g., 90 ft',
+    wasteFactor: 'Blank to calculate from the roof',
+};
+
+/**
+ * Renders the form for creating a report from the estimator's own measurements and imagery.
+ */
+async function renderManualReportView() {
+    const templates = (await storage.getTemplates()).filter(template => !template.archived);
+    const customers = await storage.getCustomers();
+    mainContent.innerHTML = `
+        <section class="report-generator-view">
+            <div class="container">
+                <div class="address-form-container manual-report-container">
+                    <h1>Create a Manual Report</h1>
+                    <p>Enter measurements from your own tape or drone survey and upload a photo or orthomosaic of the roof.</p>
+                    <form id="manual-report-form" novalidate>
+                        <div class="form-group">
+                            <label for="manual-address-input">Property Address</label>
+                            <input type="text" id="manual-address-input" placeholder="e.g., 123 Maple St, Anytown, USA" required />
+                            <span class="measurement-error hidden" role="alert"></span>
+                        </div>
+                        <div class="form-group">
+                            <label for="manual-template-select">Report Template (Optional)</label>
+                            <select id="manual-template-select">
+                                <option value="">Default Report</option>
+                                ${templates.map(t => `<option value="${t.id}">${escapeHtml(t.name)}</option>`).join('')}
+                            </select>
+                        </div>
+                        ${createCustomerPickerHtml(customers)}
+                        <div class="form-group">
+                            <label>Roof Image (Optional)</label>
+                            <div class="manual-image-preview">
+                                <p class="logo-placeholder">No image selected</p>
+                            </div>
+                            <label for="manual-image-input" class="btn btn-secondary">Upload Photo or Orthomosaic</label>
+                            <input type="file" id="manual-image-input" accept="image/png, image/jpeg, image/webp" class="hidden-file-input">
+                        </div>
+                        <div class="manual-measurements-grid">
+                            ${MEASUREMENT_KEYS.map(key => `
+                                <div class="form-group">
+                                    <label for="manual-${key}">${MEASUREMENT_LABELS[key]}${key === 'wasteFactor' ? ' (Optional)' : ''}</label>
+                                    <input type="text" id="manual-${key}" class="manual-measurement-input" data-key="${key}" placeholder="${MEASUREMENT_PLACEHOLDERS[key]}" ${key === 'wasteFactor' ? '' : 'required'}>
+                                    <span class="measurement-error hidden" role="alert"></span>
+                                </div>
+                            `).join('')}
+                        </div>
+                        <button type="submit" class="btn btn-primary btn-large">Create Report</button>
+                    </form>
+                </div>
+            </div>
+        </section>
+    `;
+
+    const imageInput = document.getElementById('manual-image-input') as HTMLInputElement;
+    const preview = document.querySelector('.manual-image-preview') as HTMLDivElement;
+    imageInput.addEventListener('change', async () => {
+        const file = imageInput.files?.[0];
+        if (file) {
+            preview.innerHTML = `<img src="${await readFileAsDataUrl(file)}" alt="Selected roof image" class="manual-image-preview-img">`;
+        }
+    });
+    document.querySelectorAll<HTMLInputElement>('.manual-measurement-input').forEach(input => {
+        input.addEventListener('blur', () => {
+            if (input.value.trim()) validateMeasurementInput(input, input.dataset.key as MeasurementKey);
+        });
+    });
+    setupCustomerPicker(document.getElementById('manual-report-form') as HTMLFormElement, customers, 'manual-address-input');
+    document.getElementById('manual-report-form')?.addEventListener('submit', handleManualReportSubmit);
 }
 
 
@@ -415,119 +754,596 @@ function renderLoadingView() {
 }
 
 /**
- * Creates a simple 2D SVG visualization of the roof.
+ * Creates a simple 2D SVG visualization of the roof. The PDF draws the same diagram as vector shapes.
  * @param measurements The measurement data object.
  * @returns An SVG string.
  */
-function createRoofVisualizationSVG(measurements: Measurements): string {
-    // Parse numeric values from measurement strings, providing defaults if parsing fails
-    const ridgeLength = parseFloat(measurements.ridges) || 100;
-    // Assuming eaves length is for two sides of a simple gable roof
-    const roofDepth = (parseFloat(measurements.eaves) || 200) / 2;
-    const pitchParts = (measurements.pitch || '6/12').split('/').map(p => parseFloat(p));
-    const rise = pitchParts[0] || 6;
-    const run = pitchParts[1] || 12;
-
-    // Define dimensions for the SVG elements
-    const svgWidth = 400;
-    const svgHeight = 250;
-    
-    // Top-down view dimensions
-    const rectWidth = 200;
-    const rectHeight = (roofDepth / ridgeLength) * rectWidth; // Maintain aspect ratio
-    const rectX = 30;
-    const rectY = 60;
-    
-    // Pitch triangle view dimensions
-    const triBase = 100;
-    const triHeight = (rise / run) * triBase;
-    const triX = 270;
-    const triY = rectY + rectHeight; // Align bottom of triangle with bottom of rect
-    
-    const textStyle = `font-family: var(--body-font); font-size: 12px; fill: #4a5568;`;
-    const dimensionStyle = `font-family: var(--body-font); font-size: 14px; font-weight: 600; fill: #1a202c;`;
-    const shapeStyle = `fill: #e2e8f0; stroke: #a0aec0; stroke-width: 1.5;`;
+function createRoofVisualizationSVG(measurements: Measurements, roofType?: RoofType): string {
+    const diagram = buildRoofDiagram(measurements, roofType);
+    const shapesSvg = diagram.shapes.map(shape => {
+        switch (shape.type) {
+            case 'polygon':
+                return `<polygon points="${shape.points.map(point => point.join(',')).join(' ')}" fill="${shape.fill}" stroke="${shape.stroke}" stroke-width="${shape.strokeWidth}" />`;
+            case 'line':
+                return `<line x1="${shape.from[0]}" y1="${shape.from[1]}" x2="${shape.to[0]}" y2="${shape.to[1]}" stroke="${shape.stroke}" stroke-width="${shape.strokeWidth}" ${shape.dashed ? 'stroke-dasharray="2,2"' : ''} />`;
+            case 'text': {
+                const [x, y] = shape.at;
+                const style = `font-family: var(--body-font); font-size: ${shape.size}px; font-weight: ${shape.bold ? 600 : 400}; fill: ${shape.color};`;
+                const rotation = shape.vertical ? `transform="rotate(-90, ${x}, ${y})" dominant-baseline="middle"` : '';
+                return `<text x="${x}" y="${y}" text-anchor="${shape.anchor}" style="${style}" ${rotation}>${escapeHtml(shape.text)}</text>`;
+            }
+        }
+    }).join('');
 
     return `
-      <svg viewBox="0 0 ${svgWidth} ${svgHeight}" xmlns="http://www.w3.org/2000/svg" aria-labelledby="visTitle" role="img">
+      <svg viewBox="0 0 ${diagram.width} ${diagram.height}" xmlns="http://www.w3.org/2000/svg" aria-labelledby="visTitle" role="img">
         <title id="visTitle">2D Roof Diagram</title>
-        
-        <text x="${svgWidth / 2}" y="25" text-anchor="middle" style="${dimensionStyle.replace('14px', '16px')}">Roof Diagram</text>
-
-        <!-- Top-Down View -->
-        <text x="${rectX + rectWidth / 2}" y="${rectY - 10}" text-anchor="middle" style="${textStyle}">Top-Down View</text>
-        <rect x="${rectX}" y="${rectY}" width="${rectWidth}" height="${rectHeight}" style="${shapeStyle}" rx="4" />
-        <text x="${rectX + rectWidth / 2}" y="${rectY + rectHeight + 20}" text-anchor="middle" style="${dimensionStyle}">${ridgeLength} ft (Ridge)</text>
-        <text x="${rectX - 10}" y="${rectY + rectHeight / 2}" text-anchor="end" dominant-baseline="middle" style="${dimensionStyle}" transform="rotate(-90, ${rectX - 10}, ${rectY + rectHeight / 2})">${roofDepth.toFixed(1)} ft</text>
-
-        <!-- Pitch View -->
-        <text x="${triX + triBase / 2}" y="${rectY - 10}" text-anchor="middle" style="${textStyle}">Pitch: ${rise}/${run}</text>
-        <polygon points="${triX},${triY} ${triX + triBase},${triY} ${triX + triBase},${triY - triHeight}" style="${shapeStyle}" />
-        <line x1="${triX}" y1="${triY}" x2="${triX + triBase}" y2="${triY}" stroke="#4a5568" stroke-dasharray="2,2" />
-        <line x1="${triX + triBase}" y1="${triY}" x2="${triX + triBase}" y2="${triY - triHeight}" stroke="#4a5568" stroke-dasharray="2,2" />
-        <text x="${triX + triBase / 2}" y="${triY + 15}" text-anchor="middle" style="${textStyle}">${run}" Run</text>
-        <text x="${triX + triBase + 10}" y="${triY - triHeight / 2}" dominant-baseline="middle" style="${textStyle}">${rise}" Rise</text>
+        <text x="${diagram.width / 2}" y="25" text-anchor="middle" style="font-family: var(--body-font); font-size: 16px; font-weight: 600; fill: #1a202c;">${diagram.title}</text>
+        ${shapesSvg}
       </svg>
     `;
 }
 
+/**
+ * Creates the SVG overlay that draws a roof tracing on top of the report image.
+ * The viewBox matches the image's natural size, so traced points map directly.
+ * @param tracing The traced polygons, lines and scale.
+ * @param pending Points of a shape currently being drawn, if any.
+ * @returns An SVG string.
+ */
+function createTracingOverlaySvg(tracing: RoofTracing, pending: TracePoint[] = []): string {
+    const { imageWidth, imageHeight } = tracing;
+    const unit = imageWidth / 100; // Stroke and font sizes scale with the image
+    const ratio = feetPerPixel(tracing);
+    const pointsAttr = (points: TracePoint[]) => points.map(p => `${p.x},${p.y}`).join(' ');
+    const label = (at: TracePoint, text: string, color = '#fff') => `
+        <text x="${at.x}" y="${at.y}" text-anchor="middle" dominant-baseline="middle" font-size="${unit * 2.6}"
+              fill="${color}" stroke="#1A202C" stroke-width="${unit * 0.5}" paint-order="stroke">${text}</text>
+    `;
+
+    return `
+        <svg class="trace-overlay" viewBox="0 0 ${imageWidth} ${imageHeight}" preserveAspectRatio="none" xmlns="http://www.w3.org/2000/svg">
+            ${tracing.polygons.map(polygon => {
+                const area = polygonPlanArea(polygon, tracing);
+                return `
+                    <polygon points="${pointsAttr(polygon.points)}" fill="rgba(229, 62, 62, 0.2)" stroke="#fff" stroke-width="${unit * 0.4}" />
+                    ${label(polygonCentroid(polygon.points), `${escapeHtml(polygon.name)}${area !== null ? ` · ${formatNumber(area)} sq ft` : ''}`)}
+                `;
+            }).join('')}
+            ${tracing.lines.map(line => `
+                <line x1="${line.from.x}" y1="${line.from.y}" x2="${line.to.x}" y2="${line.to.y}"
+                      stroke="${EDGE_COLORS[line.kind]}" stroke-width="${unit * 0.8}" stroke-linecap="round" />
+                ${ratio !== null ? label({ x: (line.from.x + line.to.x) / 2, y: (line.from.y + line.to.y) / 2 },
+                    `${formatNumber(tracedLineLength(line, tracing)!)} ft`, EDGE_COLORS[line.kind]) : ''}
+            `).join('')}
+            ${tracing.scale ? `
+                <line x1="${tracing.scale.from.x}" y1="${tracing.scale.from.y}" x2="${tracing.scale.to.x}" y2="${tracing.scale.to.y}"
+                      stroke="#F6E05E" stroke-width="${unit * 0.5}" stroke-dasharray="${unit * 1.5},${unit}" />
+                ${label({ x: (tracing.scale.from.x + tracing.scale.to.x) / 2, y: (tracing.scale.from.y + tracing.scale.to.y) / 2 - unit * 3 },
+                    `Scale: ${formatNumber(tracing.scale.feet)} ft`, '#F6E05E')}
+            ` : ''}
+            ${pending.length > 0 ? `
+                <polyline class="trace-pending" points="${pointsAttr(pending)}" fill="none" stroke="#F6E05E" stroke-width="${unit * 0.5}" />
+                ${pending.map(p => `<circle cx="${p.x}" cy="${p.y}" r="${unit * 0.8}" fill="#F6E05E" />`).join('')}
+            ` : ''}
+        </svg>
+    `;
+}
+
+/**
+ * Formats a number of feet or square feet for tables, e.g. "1,234.5".
+ */
+function formatNumber(value: number): string {
+    return value.toLocaleString('en-US', { maximumFractionDigits: 1 });
+}
+
+/**
+ * Creates the per-facet breakdown table with a totals row.
+ * @param facets The roof facets to list.
+ * @returns An HTML table string.
+ */
+function createFacetsTableHtml(facets: RoofFacet[]): string {
+    const totalPlan = facets.reduce((sum, facet) => sum + facet.planArea, 0);
+    const totalSloped = facets.reduce((sum, facet) => sum + slopedArea(facet), 0);
+    return `
+        <table class="measurements-table facets-table">
+            <thead>
+                <tr>
+                    <th>Facet</th><th>Pitch</th><th>Plan Area</th><th>Sloped Area</th>
+                    ${EDGE_KINDS.map(kind => `<th>${EDGE_LABELS[kind]}</th>`).join('')}
+                </tr>
+            </thead>
+            <tbody>
+                ${facets.map(facet => `
+                    <tr data-facet-id="${escapeHtml(facet.id)}">
+                        <td><strong>${escapeHtml(facet.name)}</strong></td>
+                        <td>${formatMeasurement('pitch', facet.pitch)}</td>
+                        <td>${formatNumber(facet.planArea)} sq ft</td>
+                        <td>${formatNumber(slopedArea(facet))} sq ft</td>
+                        ${EDGE_KINDS.map(kind => `<td>${formatNumber(facet.edges[kind])} ft</td>`).join('')}
+                    </tr>
+                `).join('')}
+            </tbody>
+            <tfoot>
+                <tr>
+                    <td><strong>Total</strong></td>
+                    <td></td>
+                    <td>${formatNumber(totalPlan)} sq ft</td>
+                    <td>${formatNumber(totalSloped)} sq ft</td>
+                    ${EDGE_KINDS.map(kind => `<td>${formatNumber(facets.reduce((sum, facet) => sum + facet.edges[kind], 0))} ft</td>`).join('')}
+                </tr>
+            </tfoot>
+        </table>
+    `;
+}
+
+/**
+ * Creates the quote section of the report view: job options, priced line items and totals.
+ * @param report The report whose saved quote is shown.
+ * @returns An HTML string.
+ */
+function createQuoteSectionHtml(report: Report): string {
+    const { quote } = report;
+    const options = quote?.options || DEFAULT_QUOTE_OPTIONS;
+    const totalRow = (label: string, amount: number, strong = false) => `
+        <tr class="${strong ? 'quote-grand-total' : ''}">
+            <td colspan="4">${strong ? `<strong>${label}</strong>` : label}</td>
+            <td>${strong ? `<strong>${formatCurrency(amount)}</strong>` : formatCurrency(amount)}</td>
+        </tr>
+    `;
+    return `
+        <div class="quote-container">
+            <h2 class="custom-sections-title">Quote</h2>
+            <form id="quote-options-form" class="quote-options">
+                <label>Stories
+                    <select id="quote-stories-select">
+                        ${[1, 2, 3, 4].map(n => `<option value="${n}" ${n === options.stories ? 'selected' : ''}>${n}</option>`).join('')}
+                    </select>
+                </label>
+                <label>Tear-off Layers
+                    <select id="quote-tear-off-select">
+                        ${[0, 1, 2, 3].map(n => `<option value="${n}" ${n === options.tearOffLayers ? 'selected' : ''}>${n}</option>`).join('')}
+                    </select>
+                </label>
+                <button type="submit" class="btn btn-secondary">${quote ? 'Recalculate Quote' : 'Calculate Quote'}</button>
+            </form>
+            ${quote ? `
+                <p class="materials-summary">Calculated ${new Date(quote.createdAt).toLocaleDateString()} from the price book in Settings.</p>
+                <table class="measurements-table quote-table">
+                    <thead>
+                        <tr><th>Item</th><th>Quantity</th><th>Unit</th><th>Unit Price</th><th>Total</th></tr>
+                    </thead>
+                    <tbody>
+                        ${quote.lines.map(line => `
+                            <tr>
+                                <td>${escapeHtml(line.description)}</td>
+                                <td>${formatNumber(line.quantity)}</td>
+                                <td>${escapeHtml(line.unit)}</td>
+                                <td>${formatCurrency(line.unitPrice)}</td>
+                                <td>${formatCurrency(line.total)}</td>
+                            </tr>
+                        `).join('')}
+                    </tbody>
+                    <tfoot>
+                        ${totalRow('Materials', quote.materialsTotal)}
+                        ${totalRow('Labor', quote.laborTotal)}
+                        ${quote.surchargeTotal > 0 ? totalRow('Surcharges', quote.surchargeTotal) : ''}
+                        ${totalRow('Overhead', quote.overhead)}
+                        ${totalRow('Markup', quote.markup)}
+                        ${totalRow('Tax', quote.tax)}
+                        ${totalRow('Total', quote.total, true)}
+                    </tfoot>
+                </table>
+            ` : '<p class="materials-summary">No quote yet. Choose the job options and calculate a quote from the price book.</p>'}
+        </div>
+    `;
+}
+
+/**
+ * Creates the insurance estimate section: claim line items with editable quantities and
+ * prices, depreciation and O&P settings, and controls to add lines and export.
+ * @param report The report whose estimate is shown.
+ * @param codeBook The configured claim codes, offered when adding a line.
+ * @returns An HTML string.
+ */
+function createEstimateSectionHtml(report: Report, codeBook: ClaimCodeBook): string {
+    const { estimate } = report;
+    const stories = estimate?.stories || report.quote?.options.stories || 1;
+    const storiesSelect = `
+        <label>Stories
+            <select id="estimate-stories-select">
+                ${[1, 2, 3, 4].map(n => `<option value="${n}" ${n === stories ? 'selected' : ''}>${n}</option>`).join('')}
+            </select>
+        </label>
+    `;
+    if (!estimate) {
+        return `
+            <div class="estimate-container">
+                <h2 class="custom-sections-title">Insurance Estimate</h2>
+                <p class="materials-summary">Build claim line items from the measurements using the claim codes in Settings.</p>
+                <div class="quote-options">
+                    ${storiesSelect}
+                    <button type="button" id="generate-estimate-btn" class="btn btn-secondary">Generate Line Items</button>
+                </div>
+            </div>
+        `;
+    }
+
+    const percentInput = (id: string, label: string, value: number) => `
+        <label>${label}
+            <input type="number" id="${id}" value="${value}" min="0" max="100" step="any">
+        </label>
+    `;
+    return `
+        <div class="estimate-container">
+            <h2 class="custom-sections-title">Insurance Estimate</h2>
+            <p class="materials-summary">Generated ${new Date(estimate.createdAt).toLocaleDateString()} from the claim codes in Settings. Change quantities or prices, add lines, or remove ones that don't apply, then save.</p>
+            <form id="estimate-form">
+                <div class="facets-table-wrapper">
+                    <table class="measurements-table estimate-table">
+                        <thead>
+                            <tr><th>Code</th><th>Description</th><th>Quantity</th><th>Unit</th><th>Unit Price</th><th>Total</th><th aria-label="Remove"></th></tr>
+                        </thead>
+                        <tbody>
+                            ${estimate.lines.map(line => `
+                                <tr data-line-id="${escapeHtml(line.id)}">
+                                    <td><strong>${escapeHtml(line.code)}</strong></td>
+                                    <td><input type="text" class="estimate-description-input" value="${escapeHtml(line.description)}" aria-label="Description"></td>
+                                    <td>
+                                        <input type="number" class="estimate-quantity-input" value="${line.quantity}" min="0" step="any" aria-label="Quantity">
+                                        ${isOverridden(line) ? `<span class="measurement-note">Overridden; measured ${formatNumber(line.calculatedQuantity!)}</span>` : ''}
+                                    </td>
+                                    <td>${escapeHtml(line.unit)}</td>
+                                    <td><input type="number" class="estimate-price-input" value="${line.unitPrice}" min="0" step="0.01" aria-label="Unit price"></td>
+                                    <td>${formatCurrency(lineTotal(line))}</td>
+                                    <td><button type="button" class="btn-remove-section remove-estimate-line-btn" aria-label="Remove line">&times;</button></td>
+                                </tr>
+                            `).join('') || '<tr><td colspan="7">No line items. Add one below.</td></tr>'}
+                        </tbody>
+                        <tfoot>
+                            ${estimateSummaryRows(estimate).map(([label, amount], index, rows) => `
+                                <tr class="${index === rows.length - 1 ? 'quote-grand-total' : ''}">
+                                    <td colspan="5">${label}</td>
+                                    <td colspan="2">${formatCurrency(amount)}</td>
+                                </tr>
+                            `).join('')}
+                        </tfoot>
+                    </table>
+                </div>
+                <div class="quote-options estimate-percentages">
+                    ${percentInput('estimate-depreciation-input', 'Depreciation %', estimate.depreciationPercent)}
+                    ${percentInput('estimate-tax-input', 'Tax %', estimate.taxPercent)}
+                    <label class="estimate-op-toggle"><input type="checkbox" id="estimate-op-checkbox" ${estimate.applyOverheadAndProfit ? 'checked' : ''}> Apply O&amp;P</label>
+                    ${percentInput('estimate-overhead-input', 'Overhead %', estimate.overheadPercent)}
+                    ${percentInput('estimate-profit-input', 'Profit %', estimate.profitPercent)}
+                </div>
+                <fieldset class="estimate-add-line">
+                    <legend>Add a line</legend>
+                    <select id="estimate-add-code-select" aria-label="Claim code">
+                        <option value="">Custom line</option>
+                        ${codeBook.codes.map((code, index) => `<option value="${index}">${escapeHtml(code.code)}: ${escapeHtml(code.description)}</option>`).join('')}
+                    </select>
+                    <input type="text" id="estimate-add-code-input" placeholder="Code" aria-label="Code">
+                    <input type="text" id="estimate-add-description-input" placeholder="Description" aria-label="Description">
+                    <input type="number" id="estimate-add-quantity-input" placeholder="Qty" min="0" step="any" aria-label="Quantity">
+                    <select id="estimate-add-unit-select" aria-label="Unit">
+                        ${CLAIM_UNITS.map(unit => `<option value="${unit}">${unit}</option>`).join('')}
+                    </select>
+                    <input type="number" id="estimate-add-price-input" placeholder="Unit price" min="0" step="0.01" aria-label="Unit price">
+                    <button type="button" id="add-estimate-line-btn" class="btn btn-secondary">Add Line</button>
+                </fieldset>
+                <div class="quote-options">
+                    ${storiesSelect}
+                    <button type="button" id="generate-estimate-btn" class="btn btn-secondary">Regenerate</button>
+                    <button type="button" id="export-estimate-csv-btn" class="btn btn-secondary">Export CSV</button>
+                    <button type="submit" class="btn btn-primary">Save Estimate</button>
+                </div>
+            </form>
+        </div>
+    `;
+}
+
+/**
+ * Shows a custom section's saved value according to its kind. Checklists list every
+ * item with a tick or an empty box so missing items stand out.
+ * @param section The section definition from the template.
+ * @param value The saved value, if any.
+ * @returns An HTML string.
+ */
+function createSectionValueHtml(section: CustomSection, value: unknown): string {
+    const normalized = normalizeSectionValue(section, value);
+    if (sectionKind(section) === 'checklist' && section.options?.length) {
+        const checked = normalized as string[];
+        return `
+            <ul class="section-checklist">
+                ${section.options.map(option => `
+                    <li class="${checked.includes(option) ? 'checked' : ''}">${checked.includes(option) ? '&#10003;' : '&#9744;'} ${escapeHtml(option)}</li>
+                `).join('')}
+            </ul>
+        `;
+    }
+    if (isSectionValueEmpty(normalized)) {
+        return '<p class="section-value-empty">No notes added yet.</p>';
+    }
+    return `<p>${escapeHtml(formatSectionValue(section, normalized)).replace(/\n/g, '<br>')}</p>`;
+}
+
+/**
+ * Creates the edit-mode input for a custom section, matching its kind.
+ * @param section The section definition from the template.
+ * @param value The saved value, if any.
+ * @returns An HTML string wrapped in a .custom-section-field that handleSaveChanges reads back.
+ */
+function createSectionFieldHtml(section: CustomSection, value: unknown): string {
+    const kind = sectionKind(section);
+    const normalized = normalizeSectionValue(section, value);
+    const options = section.options || [];
+    const name = `section-${section.id}`;
+    let field: string;
+    switch (kind) {
+        case 'checklist':
+            field = options.map(option => `
+                <label class="section-choice">
+                    <input type="checkbox" value="${escapeHtml(option)}" ${(normalized as string[]).includes(option) ? 'checked' : ''}> ${escapeHtml(option)}
+                </label>
+            `).join('');
+            break;
+        case 'singleSelect':
+        case 'multiSelect':
+            field = `
+                <select ${kind === 'multiSelect' ? `multiple size="${Math.min(options.length, 6)}"` : ''} aria-label="${escapeHtml(section.title)}">
+                    ${kind === 'singleSelect' ? '<option value="">Select...</option>' : ''}
+                    ${options.map(option => {
+                        const selected = kind === 'singleSelect' ? normalized === option : (normalized as string[]).includes(option);
+                        return `<option value="${escapeHtml(option)}" ${selected ? 'selected' : ''}>${escapeHtml(option)}</option>`;
+                    }).join('')}
+                </select>
+            `;
+            break;
+        case 'number':
+            field = `
+                <input type="number" step="any" value="${normalized ?? ''}" aria-label="${escapeHtml(section.title)}">
+                ${section.unit ? `<span class="section-unit">${escapeHtml(section.unit)}</span>` : ''}
+            `;
+            break;
+        case 'date':
+            field = `<input type="date" value="${normalized}" aria-label="${escapeHtml(section.title)}">`;
+            break;
+        case 'yesNo':
+            field = `
+                <label class="section-choice"><input type="radio" name="${name}" value="yes" ${normalized === true ? 'checked' : ''}> Yes</label>
+                <label class="section-choice"><input type="radio" name="${name}" value="no" ${normalized === false ? 'checked' : ''}> No</label>
+                <label class="section-choice"><input type="radio" name="${name}" value="" ${normalized === null ? 'checked' : ''}> Not answered</label>
+            `;
+            break;
+        default:
+            field = `<textarea rows="5" aria-label="${escapeHtml(section.title)}">${escapeHtml(normalized as string)}</textarea>`;
+    }
+    return `<div class="custom-section-field section-field-${kind}" data-section-id="${section.id}" data-kind="${kind}">${field}</div>`;
+}
+
+/**
+ * Reads a value back from a field created by createSectionFieldHtml.
+ */
+function readSectionField(field: HTMLElement): SectionValue {
+    switch (field.dataset.kind as SectionKind) {
+        case 'checklist':
+            return [...field.querySelectorAll<HTMLInputElement>('input[type="checkbox"]:checked')].map(input => input.value);
+        case 'multiSelect':
+            return [...field.querySelector('select')!.selectedOptions].map(option => option.value);
+        case 'singleSelect':
+            return field.querySelector('select')!.value;
+        case 'number': {
+            const value = parseFloat(field.querySelector('input')!.value);
+            return Number.isFinite(value) ? value : null;
+        }
+        case 'date':
+            return field.querySelector('input')!.value;
+        case 'yesNo': {
+            const answer = field.querySelector<HTMLInputElement>('input:checked')?.value;
+            return answer === 'yes' ? true : answer === 'no' ? false : null;
+        }
+        default:
+            return field.querySelector('textarea')!.value;
+    }
+}
+
 /**
  * Renders the final report view with the image and measurements.
  * @param report The full report object to display.
  */
-function renderReportView(report: Report) {
-    const { address, imageUrl, measurements, templateId, customData } = report;
-    
-    const measurementRows = [
-        { label: 'Total Area', key: 'totalArea' },
-        { label: 'Primary Pitch', key: 'pitch' },
-        { label: 'Ridges', key: 'ridges' },
-        { label: 'Valleys', key: 'valleys' },
-        { label: 'Eaves', key: 'eaves' },
-        { label: 'Rakes', key: 'rakes' },
-        { label: 'Waste Factor', key: 'wasteFactor' },
-    ] as const;
+async function renderReportView(report: Report) {
+    // Reports saved before the waste factor was calculated get it here, and pass it on when next saved
+    report = withWasteFactor(report);
+    const { address, imageUrl, measurements, facets, templateId, customData, unparsedMeasurements } = report;
+    const source = reportSource(report);
+    const roofType = report.roofType || inferRoofType(measurements);
+    const warnings = checkMeasurements(measurements, unparsedMeasurements);
+    const acceptedWarnings = new Set(report.acceptedWarnings || []);
+    const unresolvedCount = warnings.filter(warning => !acceptedWarnings.has(warning.id)).length;
+
+    const facetsHtml = `
+        <div class="facets-container">
+            <h2 class="custom-sections-title">Roof Facets</h2>
+            <p class="materials-summary">Sloped areas use each facet's pitch multiplier. Totals above are rolled up from these facets.</p>
+            <div class="facets-table-wrapper">
+                ${createFacetsTableHtml(facets)}
+            </div>
+        </div>
+    `;
 
     let customSectionsHtml = '';
-    if (templateId) {
-        const template = getTemplates().find(t => t.id === templateId);
-        if (template) {
-            customSectionsHtml = `
-                <div class="custom-sections-container">
-                    <h2 class="custom-sections-title">${template.name} - Custom Notes</h2>
-                    ${template.customSections.map(section => `
-                        <div class="custom-section">
-                            <h3>${section.title}</h3>
-                            <div class="custom-section-content" data-section-id="${section.id}">
-                                <p>${(customData?.[section.id] || 'No notes added yet.').replace(/\n/g, '<br>')}</p>
-                            </div>
+    const latestTemplate = templateId ? await storage.getTemplate(templateId) : null;
+    const template = latestTemplate ? templateForReport(latestTemplate, report) : null;
+    const customers = await storage.getCustomers();
+    const customer = customers.find(c => c.id === report.customerId) || null;
+    if (template && latestTemplate) {
+        const reportVersion = report.templateVersion || 1;
+        customSectionsHtml = `
+            <div class="custom-sections-container">
+                <h2 class="custom-sections-title">${template.name} - Custom Notes</h2>
+                ${reportVersion < templateVersion(latestTemplate) ? `
+                    <div class="template-version-notice">
+                        <p>Made with version ${reportVersion} of this template. Version ${templateVersion(latestTemplate)} has been saved since.</p>
+                        <button id="use-latest-template-btn" class="btn btn-secondary">Use Latest Version</button>
+                    </div>
+                ` : ''}
+                ${template.customSections.map(section => `
+                    <div class="custom-section">
+                        <h3>${section.title}</h3>
+                        <div class="custom-section-content" data-section-id="${section.id}">
+                            ${createSectionValueHtml(section, customData?.[section.id])}
                         </div>
-                    `).join('')}
-                </div>
-            `;
-        }
+                    </div>
+                `).join('')}
+            </div>
+        `;
     }
+
+    const takeoff = calculateMaterialTakeoff(measurements, getMaterialSettings());
+    const claimCodeBook = getClaimCodeBook();
+    const { calculation: wasteCalculation } = reportWaste(report);
+    const wasteOverride = report.wasteOverride;
+    const wasteHtml = `
+        <div class="waste-container">
+            <h2 class="custom-sections-title">Waste Factor</h2>
+            <p class="materials-summary">Calculated from the roof's shape and the product. The waste factor in effect is used for the material estimate, quote and insurance estimate.</p>
+            <div class="waste-shingle-type">
+                <label for="shingle-type-select">Product</label>
+                <select id="shingle-type-select">
+                    ${SHINGLE_TYPES.map(type => `
+                        <option value="${type.id}" ${type.id === (report.shingleType || DEFAULT_SHINGLE_TYPE) ? 'selected' : ''}>${type.label}</option>
+                    `).join('')}
+                </select>
+            </div>
+            <table class="measurements-table waste-table">
+                <thead>
+                    <tr><th>Allowance</th><th>How it was reached</th><th>Waste</th></tr>
+                </thead>
+                <tbody>
+                    ${wasteCalculation.steps.map(step => `
+                        <tr>
+                            <td><strong>${step.label}</strong></td>
+                            <td class="materials-basis">${escapeHtml(step.detail)}</td>
+                            <td>+${formatNumber(step.percent)}%</td>
+                        </tr>
+                    `).join('')}
+                </tbody>
+                <tfoot>
+                    <tr class="${wasteOverride ? 'waste-superseded' : 'quote-grand-total'}">
+                        <td colspan="2">Calculated waste (rounded)</td>
+                        <td>${wasteCalculation.percent}%</td>
+                    </tr>
+                    ${wasteOverride ? `
+                        <tr class="quote-grand-total">
+                            <td colspan="2">
+                                Override: ${escapeHtml(wasteOverride.reason)}
+                                <span class="measurement-note">Set ${new Date(wasteOverride.overriddenAt).toLocaleDateString()}</span>
+                            </td>
+                            <td>${formatNumber(wasteOverride.percent)}%</td>
+                        </tr>
+                    ` : ''}
+                </tfoot>
+            </table>
+            <form id="waste-override-form" class="waste-override-form">
+                <label>Override (%)
+                    <input type="number" id="waste-override-input" min="0" max="${MAX_WASTE_PERCENT}" step="any" value="${wasteOverride ? wasteOverride.percent : ''}" required>
+                </label>
+                <label>Reason
+                    <input type="text" id="waste-override-reason-input" value="${escapeHtml(wasteOverride?.reason || '')}" placeholder="e.g., Cut-up dormers on the back slope" required>
+                </label>
+                <button type="submit" class="btn btn-secondary">${wasteOverride ? 'Update Override' : 'Override'}</button>
+                ${wasteOverride ? '<button type="button" id="clear-waste-override-btn" class="btn btn-secondary">Use Calculated</button>' : ''}
+            </form>
+        </div>
+    `;
+    const materialsHtml = `
+        <div class="materials-container">
+            <h2 class="custom-sections-title">Material Estimate</h2>
+            <p class="materials-summary">${takeoff.squares.toFixed(1)} squares including waste</p>
+            <table class="measurements-table materials-table">
+                <thead>
+                    <tr><th>Product</th><th>Quantity</th><th>Basis</th></tr>
+                </thead>
+                <tbody>
+                    ${takeoff.lines.map(line => `
+                        <tr>
+                            <td><strong>${escapeHtml(line.product)}</strong></td>
+                            <td>${line.quantity} ${line.unit}</td>
+                            <td class="materials-basis">${line.basis}</td>
+                        </tr>
+                    `).join('')}
+                </tbody>
+            </table>
+        </div>
+    `;
     
     mainContent.innerHTML = `
         <section class="report-view">
             <div class="container">
                 <div class="report-grid">
                     <div class="report-image-container">
-                        <img src="${imageUrl}" alt="Satellite view of ${address}" />
+                        ${imageUrl ? `
+                            <div class="trace-stage">
+                                <img src="${imageUrl}" alt="${isSyntheticImage(source) ? 'Generated illustration' : 'Roof image'} of ${address}" />
+                                ${report.tracing ? createTracingOverlaySvg(report.tracing) : ''}
+                                ${isSyntheticImage(source) ? '<span class="synthetic-image-badge">Illustration, not a photo</span>' : ''}
+                            </div>
+                        ` : '<div class="report-image-placeholder">No image uploaded</div>'}
                         <p>${address}</p>
+                        <p class="report-customer">
+                            ${customer
+                                ? `Prepared for <a href="${routeToHash({ name: 'customer', customerId: customer.id })}">${escapeHtml(customer.name)}</a>`
+                                : 'No customer linked'}
+                        </p>
+                        ${createJobStatusHtml(report)}
+                        ${createSourceNoteHtml(source)}
+                        <label for="replace-image-input" class="btn btn-secondary replace-image-btn">${imageUrl ? 'Replace Image' : 'Upload Image'}</label>
+                        <input type="file" id="replace-image-input" accept="image/png, image/jpeg, image/webp" class="hidden-file-input">
                     </div>
                     <div class="report-details-container">
                         <h2>Roof Measurement Details</h2>
-                        <div class="roof-visualization-container" aria-hidden="true">
-                            ${createRoofVisualizationSVG(measurements)}
+                        <div class="roof-type-picker">
+                            <label for="roof-type-select">Roof Type</label>
+                            <select id="roof-type-select">
+                                ${ROOF_TYPES.map(type => `
+                                    <option value="${type.id}" ${type.id === roofType ? 'selected' : ''}>${type.label}</option>
+                                `).join('')}
+                            </select>
+                            ${report.roofType ? '' : '<span class="measurement-note">Guessed from the measurements</span>'}
+                        </div>
+                        <div class="roof-visualization-container">
+                            <div class="roof-view-toggle">
+                                <button type="button" class="roof-view-btn active" data-view="plan" aria-pressed="true">Plan</button>
+                                <button type="button" class="roof-view-btn" data-view="preview" aria-pressed="false">3D</button>
+                            </div>
+                            <div class="roof-plan" aria-hidden="true">
+                                ${createRoofVisualizationSVG(measurements, roofType)}
+                            </div>
+                            <div class="roof-preview hidden">
+                                <canvas id="roof-preview-canvas" role="img" aria-label="3D model of the roof. Drag to rotate and scroll to zoom."></canvas>
+                                <div class="roof-preview-controls">
+                                    <div class="roof-pitch-legend" id="roof-pitch-legend"></div>
+                                    <button type="button" id="reset-roof-view-btn" class="btn btn-secondary">Reset View</button>
+                                    <button type="button" id="save-roof-view-btn" class="btn btn-secondary">Use This View in PDF</button>
+                                </div>
+                            </div>
                         </div>
+                        ${warnings.length > 0 ? `
+                            <p class="measurement-checks-summary ${unresolvedCount > 0 ? 'has-unresolved' : ''}">
+                                ${unresolvedCount > 0
+                                    ? `${unresolvedCount} ${unresolvedCount === 1 ? 'measurement needs' : 'measurements need'} checking before this report goes out.`
+                                    : 'All flagged measurements have been checked.'}
+                            </p>
+                        ` : ''}
                         <table class="measurements-table">
                             <tbody>
-                                ${measurementRows.map(row => `
+                                ${MEASUREMENT_KEYS.map(key => `
                                     <tr>
-                                        <td><strong>${row.label}</strong></td>
-                                        <td data-key="${row.key}">
-                                            <span class="measurement-value">${measurements[row.key] || 'N/A'}</span>
+                                        <td><strong>${MEASUREMENT_LABELS[key]}</strong></td>
+                                        <td data-key="${key}">
+                                            <span class="measurement-value">${unparsedMeasurements?.[key] !== undefined ? 'N/A' : formatMeasurement(key, measurements[key])}</span>
+                                            ${warnings.filter(warning => warning.key === key).map(warning => createMeasurementWarningHtml(warning, acceptedWarnings.has(warning.id), true)).join('')}
                                         </td>
                                     </tr>
                                 `).join('')}
@@ -535,26 +1351,478 @@ function renderReportView(report: Report) {
                         </table>
                     </div>
                 </div>
+                ${facetsHtml}
+                ${wasteHtml}
+                ${materialsHtml}
+                ${createQuoteSectionHtml(report)}
+                ${createEstimateSectionHtml(report, claimCodeBook)}
                 ${customSectionsHtml}
+                <div class="access-notes-container">
+                    <h2 class="custom-sections-title">Site Access</h2>
+                    <label for="access-notes-input" class="materials-summary">Gate codes, parking, pets and anything else the crew needs to know. Printed on the crew work order.</label>
+                    <textarea id="access-notes-input" rows="3">${escapeHtml(report.accessNotes || '')}</textarea>
+                </div>
+                ${createPhotoLogHtml(report)}
                 <div class="report-actions">
                     <button id="edit-report-btn" class="btn btn-secondary btn-large">Edit Details</button>
-                    <button id="download-pdf-btn" class="btn btn-secondary btn-large">Download PDF</button>
+                    ${imageUrl ? '<button id="trace-roof-btn" class="btn btn-secondary btn-large">Trace Roof</button>' : ''}
+                    <button id="revisions-btn" class="btn btn-secondary btn-large">Revisions</button>
+                    <div class="pdf-download-group">
+                        <select id="pdf-variant-select" aria-label="PDF version">
+                            ${REPORT_VARIANTS.map(variant => `
+                                <option value="${variant.id}" ${variant.id === getReportVariant(latestTemplate?.defaultVariant).id ? 'selected' : ''}>${variant.label}</option>
+                            `).join('')}
+                        </select>
+                        <button id="download-pdf-btn" class="btn btn-secondary btn-large">Download PDF</button>
+                    </div>
+                    <button id="share-report-btn" class="btn btn-secondary btn-large">Share</button>
                     <button id="start-new-report-btn" class="btn btn-primary btn-large">Start New Report</button>
                 </div>
             </div>
         </section>
     `;
     
-    document.getElementById('start-new-report-btn')?.addEventListener('click', renderAddressInput);
-    document.getElementById('download-pdf-btn')?.addEventListener('click', () => handleDownloadPdf(report));
-    document.getElementById('edit-report-btn')?.addEventListener('click', () => handleToggleEditMode(true, report));
+    document.getElementById('start-new-report-btn')?.addEventListener('click', () => navigate({ name: 'newReport' }));
+    document.getElementById('revisions-btn')?.addEventListener('click', () => navigate({ name: 'reportRevisions', reportId: report.id }));
+    document.getElementById('download-pdf-btn')?.addEventListener('click', e => {
+        const variantId = (document.getElementById('pdf-variant-select') as HTMLSelectElement).value as ReportVariantId;
+        handleDownloadPdf(report, e.currentTarget as HTMLButtonElement, variantId);
+    });
+    document.getElementById('quote-options-form')?.addEventListener('submit', e => handleCalculateQuote(e, report));
+    setupEstimateEventListeners(report, claimCodeBook);
+    setupWasteEventListeners(report);
+    document.querySelectorAll<HTMLButtonElement>('.accept-warning-btn').forEach(button => {
+        button.addEventListener('click', () => handleAcceptWarning(report, button.dataset.warningId as string));
+    });
+    document.getElementById('edit-report-btn')?.addEventListener('click', () => handleToggleEditMode(true, report, template, customers));
+    if (latestTemplate) {
+        document.getElementById('use-latest-template-btn')?.addEventListener('click', () => handleUseLatestTemplate(report, latestTemplate));
+    }
+    document.getElementById('trace-roof-btn')?.addEventListener('click', () => handleStartTracing(report));
+    document.getElementById('share-report-btn')?.addEventListener('click', () => handleShareReport(report));
+    const replaceImageInput = document.getElementById('replace-image-input') as HTMLInputElement;
+    replaceImageInput.addEventListener('change', () => {
+        const file = replaceImageInput.files?.[0];
+        if (file) handleReplaceReportImage(report, file);
+    });
+    setupPhotoLogEventListeners(report);
+    const roofTypeSelect = document.getElementById('roof-type-select') as HTMLSelectElement;
+    const roofPreview = setupRoofPreview(report);
+    roofTypeSelect.addEventListener('change', async () => {
+        if (await handleUpdateRoofType(report, roofTypeSelect.value as RoofType)) roofPreview.redraw();
+    });
+    const accessNotesInput = document.getElementById('access-notes-input') as HTMLTextAreaElement;
+    accessNotesInput.addEventListener('change', () => handleUpdateAccessNotes(report, accessNotesInput.value));
+    const statusSelect = document.getElementById('job-status-select') as HTMLSelectElement;
+    statusSelect.addEventListener('change', async () => {
+        const updatedReport = await handleChangeJobStatus(report, statusSelect.value as JobStatus);
+        if (updatedReport) {
+            renderReportView(updatedReport);
+        } else {
+            statusSelect.value = reportStatus(report);
+        }
+    });
+}
+
+/**
+ * Creates a warning shown under a measurement that doesn't sit right with the rest of the roof.
+ * @param warning The warning.
+ * @param accepted Whether the estimator has checked the measurement and accepted it.
+ * @param acceptable Whether to offer a button to accept it.
+ */
+function createMeasurementWarningHtml(warning: MeasurementWarning, accepted: boolean, acceptable: boolean): string {
+    return `
+        <span class="measurement-warning ${accepted ? 'accepted' : ''}" ${accepted ? '' : 'role="alert"'}>
+            ${accepted ? 'Checked: ' : '&#9888; '}${escapeHtml(warning.message)}
+            ${acceptable && !accepted ? `<button type="button" class="accept-warning-btn" data-warning-id="${escapeHtml(warning.id)}">Looks Right</button>` : ''}
+        </span>
+    `;
+}
+
+/**
+ * Records that the estimator checked a flagged measurement and it's correct, so the report
+ * is no longer flagged for it. Changing the measurements involved raises the warning again.
+ */
+async function handleAcceptWarning(report: Report, warningId: string) {
+    const updated: Report = { ...report, acceptedWarnings: [...(report.acceptedWarnings || []), warningId] };
+    try {
+        await storage.putReport(updated);
+    } catch (error) {
+        alertStorageError(error, 'save the checked measurement');
+        return;
+    }
+    renderReportView(updated);
+}
+
+/**
+ * Creates the job status picker for the report view, with the dated history of changes.
+ */
+function createJobStatusHtml(report: Report): string {
+    const changes = report.statusHistory || [{ status: reportStatus(report), changedAt: report.timestamp }];
+    return `
+        <div class="job-status">
+            <label for="job-status-select">Job Status</label>
+            <select id="job-status-select" class="status-${reportStatus(report)}">
+                ${JOB_STATUSES.map(status => `<option value="${status}" ${status === reportStatus(report) ? 'selected' : ''}>${JOB_STATUS_LABELS[status]}</option>`).join('')}
+            </select>
+            <details class="job-status-history">
+                <summary>Status history</summary>
+                <ol>
+                    ${[...changes].reverse().map(change => `
+                        <li><strong>${JOB_STATUS_LABELS[change.status]}</strong> ${new Date(change.changedAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}</li>
+                    `).join('')}
+                </ol>
+            </details>
+        </div>
+    `;
+}
+
+/**
+ * Creates the photo log gallery: a card per photo with its caption and category, plus
+ * buttons to add photos from files or the device camera.
+ * @param report The report whose photos are shown.
+ * @returns An HTML string.
+ */
+function createPhotoLogHtml(report: Report): string {
+    const photos = report.photos || [];
+    return `
+        <div class="photo-log-container">
+            <h2 class="custom-sections-title">Photo Log</h2>
+            <div class="photo-log-actions">
+                <label for="add-photos-input" class="btn btn-secondary">Add Photos</label>
+                <input type="file" id="add-photos-input" accept="image/png, image/jpeg, image/webp" multiple class="hidden-file-input">
+                <label for="take-photo-input" class="btn btn-secondary">Take Photo</label>
+                <input type="file" id="take-photo-input" accept="image/*" capture="environment" class="hidden-file-input">
+            </div>
+            ${photos.length === 0 ? '<p class="materials-summary">No photos yet. Add site photos to document damage and work areas.</p>' : `
+                <p class="materials-summary">Drag photos or use the arrows to change their order in the report.</p>
+                <div class="photo-gallery">
+                    ${photos.map((photo, index) => `
+                        <figure class="photo-card" data-photo-id="${photo.id}" draggable="true">
+                            <img src="${photo.dataUrl}" alt="${escapeHtml(photo.caption || `Photo ${index + 1}`)}">
+                            <figcaption>
+                                <input type="text" class="photo-caption-input" value="${escapeHtml(photo.caption)}" placeholder="Add a caption" aria-label="Caption">
+                                <select class="photo-category-select" aria-label="Category">
+                                    ${PHOTO_CATEGORIES.map(category => `<option value="${category}" ${category === photo.category ? 'selected' : ''}>${PHOTO_CATEGORY_LABELS[category]}</option>`).join('')}
+                                </select>
+                                <span class="photo-meta">${escapeHtml(describePhoto(photo))}${photo.source === 'camera' ? ' · Camera' : ''}</span>
+                                <div class="photo-card-actions">
+                                    <button type="button" class="photo-move-btn" data-offset="-1" aria-label="Move earlier" ${index === 0 ? 'disabled' : ''}>&larr;</button>
+                                    <button type="button" class="photo-move-btn" data-offset="1" aria-label="Move later" ${index === photos.length - 1 ? 'disabled' : ''}>&rarr;</button>
+                                    <button type="button" class="photo-remove-btn" aria-label="Remove photo">Remove</button>
+                                </div>
+                            </figcaption>
+                        </figure>
+                    `).join('')}
+                </div>
+            `}
+        </div>
+    `;
+}
+
+/**
+ * Wires up the photo log gallery rendered by createPhotoLogHtml.
+ */
+function setupPhotoLogEventListeners(report: Report) {
+    const addPhotosInput = document.getElementById('add-photos-input') as HTMLInputElement;
+    addPhotosInput.addEventListener('change', () => handleAddPhotos(report, [...(addPhotosInput.files || [])], 'file'));
+    const takePhotoInput = document.getElementById('take-photo-input') as HTMLInputElement;
+    takePhotoInput.addEventListener('change', () => handleAddPhotos(report, [...(takePhotoInput.files || [])], 'camera'));
+
+    const gallery = document.querySelector('.photo-gallery') as HTMLDivElement | null;
+    if (!gallery) return;
+    const photoIndex = (card: HTMLElement) => (report.photos || []).findIndex(photo => photo.id === card.dataset.photoId);
+
+    gallery.querySelectorAll<HTMLElement>('.photo-card').forEach(card => {
+        const photoId = card.dataset.photoId!;
+        const captionInput = card.querySelector('.photo-caption-input') as HTMLInputElement;
+        captionInput.addEventListener('change', () => handleUpdatePhoto(report, photoId, { caption: captionInput.value.trim() }));
+        const categorySelect = card.querySelector('.photo-category-select') as HTMLSelectElement;
+        categorySelect.addEventListener('change', () => handleUpdatePhoto(report, photoId, { category: categorySelect.value as PhotoCategory }));
+        card.querySelectorAll<HTMLButtonElement>('.photo-move-btn').forEach(button => {
+            button.addEventListener('click', () => handleMovePhoto(report, photoId, photoIndex(card) + Number(button.dataset.offset)));
+        });
+        card.querySelector('.photo-remove-btn')?.addEventListener('click', () => handleRemovePhoto(report, photoId));
+    });
+
+    // --- Drag and Drop: a dropped photo takes the place of the one it lands on ---
+    let draggedId: string | null = null;
+    gallery.addEventListener('dragstart', e => {
+        const card = (e.target as HTMLElement).closest<HTMLElement>('.photo-card');
+        if (!card) return;
+        draggedId = card.dataset.photoId!;
+        card.classList.add('dragging');
+    });
+    gallery.addEventListener('dragend', e => {
+        (e.target as HTMLElement).closest('.photo-card')?.classList.remove('dragging');
+        draggedId = null;
+    });
+    gallery.addEventListener('dragover', e => {
+        if (draggedId) e.preventDefault();
+    });
+    gallery.addEventListener('drop', e => {
+        e.preventDefault();
+        const target = (e.target as HTMLElement).closest<HTMLElement>('.photo-card');
+        if (draggedId && target && target.dataset.photoId !== draggedId) {
+            handleMovePhoto(report, draggedId, photoIndex(target));
+        }
+    });
+}
+
+/**
+ * Renders a report's revision list beside a side-by-side comparison of one revision's
+ * measurements, facets and notes with an earlier revision or the current report.
+ * @param report The report whose revisions are shown.
+ * @param revisionId The revision to show; defaults to the newest.
+ */
+async function renderRevisionsView(report: Report, revisionId?: number) {
+    const revisions = await storage.getRevisions(report.id);
+    const template = await getReportTemplate(report);
+    const sectionTitles = Object.fromEntries((template?.customSections || []).map(section => [section.id, section.title]));
+    const savedAt = (revision: ReportRevision) => new Date(revision.savedAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+
+    if (revisions.length === 0) {
+        mainContent.innerHTML = `
+            <section class="history-view">
+                <div class="container">
+                    <div class="empty-history-view">
+                        <h2>No Revisions Yet</h2>
+                        <p>Each time you save changes to this report, the new version is kept here alongside the original values.</p>
+                        <button id="back-to-report-btn" class="btn btn-primary btn-large">Back to Report</button>
+                    </div>
+                </div>
+            </section>
+        `;
+        document.getElementById('back-to-report-btn')?.addEventListener('click', () => navigate({ name: 'report', reportId: report.id }));
+        return;
+    }
+
+    const selected = revisions.find(revision => revision.id === revisionId) || revisions[0];
+    const older = revisions.slice(revisions.indexOf(selected) + 1);
+
+    mainContent.innerHTML = `
+        <section class="history-view revisions-view">
+            <div class="container">
+                <div class="view-header">
+                    <h1>Revision History</h1>
+                    <button id="back-to-report-btn" class="btn btn-secondary">Back to Report</button>
+                </div>
+                <p class="materials-summary">${escapeHtml(report.address)}</p>
+                <div class="revisions-layout">
+                    <ol class="revision-list">
+                        ${revisions.map(revision => `
+                            <li class="${revision === selected ? 'selected' : ''}">
+                                <a href="${routeToHash({ name: 'reportRevisions', reportId: report.id, revisionId: revision.id })}">
+                                    <strong>${escapeHtml(revision.label)}</strong>
+                                    <span>${savedAt(revision)}</span>
+                                    <span class="revision-fields">${revision.changedFields.length > 0
+                                        ? escapeHtml(revision.changedFields.map(field => describeField(field, sectionTitles)).join(', '))
+                                        : 'As first saved'}</span>
+                                </a>
+                            </li>
+                        `).join('')}
+                    </ol>
+                    <div class="revision-diff">
+                        <div class="revision-diff-header">
+                            <label for="revision-compare-select">Compare with</label>
+                            <select id="revision-compare-select">
+                                ${older.map(revision => `<option value="${revision.id}">${escapeHtml(revision.label)}, ${savedAt(revision)}</option>`).join('')}
+                                <option value="current">Current report</option>
+                            </select>
+                            <label class="revision-changes-only"><input type="checkbox" id="revision-changes-only"> Changed fields only</label>
+                            <button id="restore-revision-btn" class="btn btn-primary">Restore This Version</button>
+                        </div>
+                        <div id="revision-diff-table"></div>
+                    </div>
+                </div>
+            </div>
+        </section>
+    `;
+
+    const compareSelect = document.getElementById('revision-compare-select') as HTMLSelectElement;
+    const changesOnly = document.getElementById('revision-changes-only') as HTMLInputElement;
+    const renderDiff = () => {
+        const compared = older.find(revision => String(revision.id) === compareSelect.value);
+        const before = compared ? compared.snapshot : revisionSnapshotOf(report);
+        const beforeLabel = compared ? `${compared.label}, ${savedAt(compared)}` : 'Current report';
+        (document.getElementById('revision-diff-table') as HTMLDivElement).innerHTML = createRevisionDiffHtml(
+            before, selected.snapshot, beforeLabel, `${selected.label}, ${savedAt(selected)}`, template, changesOnly.checked);
+    };
+    compareSelect.addEventListener('change', renderDiff);
+    changesOnly.addEventListener('change', renderDiff);
+    renderDiff();
+
+    document.getElementById('back-to-report-btn')?.addEventListener('click', () => navigate({ name: 'report', reportId: report.id }));
+    document.getElementById('restore-revision-btn')?.addEventListener('click', () => handleRestoreRevision(report, selected));
+}
+
+/**
+ * The tracked fields of a report in the same shape as a revision's snapshot.
+ */
+function revisionSnapshotOf(report: Report): RevisionSnapshot {
+    return { measurements: report.measurements, facets: report.facets, customData: report.customData || {}, unparsedMeasurements: report.unparsedMeasurements };
+}
+
+/**
+ * Creates the side-by-side comparison table of two versions of a report. Rows that differ
+ * are highlighted.
+ * @param before The older version, shown on the left.
+ * @param after The version being looked at, shown on the right.
+ * @param beforeLabel Column heading for the older version.
+ * @param afterLabel Column heading for the newer version.
+ * @param template The report's template, for section titles and value formatting.
+ * @param changesOnly Leave out rows that are the same in both.
+ * @returns An HTML table string.
+ */
+function createRevisionDiffHtml(
+    before: RevisionSnapshot,
+    after: RevisionSnapshot,
+    beforeLabel: string,
+    afterLabel: string,
+    template: Template | null,
+    changesOnly: boolean,
+): string {
+    const measurement = (snapshot: RevisionSnapshot, key: MeasurementKey) => (snapshot.unparsedMeasurements?.[key] !== undefined
+        ? `N/A ("${snapshot.unparsedMeasurements[key]}")`
+        : formatMeasurement(key, snapshot.measurements[key] as never));
+    const facetSummary = (snapshot: RevisionSnapshot) => `${snapshot.facets.length} facet(s): `
+        + snapshot.facets.map(facet => `${facet.name} ${formatNumber(facet.planArea)} sq ft at ${formatMeasurement('pitch', facet.pitch)}`).join('; ');
+    const note = (snapshot: RevisionSnapshot, id: string) => {
+        const section = template?.customSections.find(s => s.id === id);
+        const value = snapshot.customData?.[id] ?? null;
+        if (section) return formatSectionValue(section, value);
+        return Array.isArray(value) ? value.join(', ') : value === null ? '' : String(value);
+    };
+
+    const sectionIds = [...new Set([
+        ...(template?.customSections || []).map(section => section.id),
+        ...Object.keys(before.customData || {}),
+        ...Object.keys(after.customData || {}),
+    ])];
+    const rows = [
+        ...MEASUREMENT_KEYS.map(key => ({ label: MEASUREMENT_LABELS[key], before: measurement(before, key), after: measurement(after, key) })),
+        { label: 'Roof Facets', before: facetSummary(before), after: facetSummary(after) },
+        ...sectionIds.map(id => ({
+            label: template?.customSections.find(s => s.id === id)?.title || 'Removed note',
+            before: note(before, id),
+            after: note(after, id),
+        })),
+    ].filter(row => !changesOnly || row.before !== row.after);
+
+    return `
+        <table class="measurements-table revision-diff-table">
+            <thead>
+                <tr><th>Field</th><th>${escapeHtml(beforeLabel)}</th><th>${escapeHtml(afterLabel)}</th></tr>
+            </thead>
+            <tbody>
+                ${rows.map(row => `
+                    <tr class="${row.before !== row.after ? 'revision-changed' : ''}">
+                        <td><strong>${escapeHtml(row.label)}</strong></td>
+                        <td>${escapeHtml(row.before || '—').replace(/\n/g, '<br>')}</td>
+                        <td>${escapeHtml(row.after || '—').replace(/\n/g, '<br>')}</td>
+                    </tr>
+                `).join('') || '<tr><td colspan="3">No differences.</td></tr>'}
+            </tbody>
+        </table>
+    `;
+}
+
+/**
+ * Renders the read-only report opened from a share link, branded with the sender's company.
+ * Every string comes from the link, so all of it is escaped.
+ * @param shared The decoded report data.
+ */
+function renderSharedReportView(shared: SharedReport) {
+    document.body.classList.add('shared-view-active');
+    const { company, measurements } = shared;
+    const address = escapeHtml(shared.address);
+
+    mainContent.innerHTML = `
+        <section class="report-view shared-report-view">
+            <div class="shared-view-header">
+                ${company?.logoDataUrl ? `<img src="${company.logoDataUrl}" alt="" class="shared-view-logo">` : ''}
+                <p>${company?.name ? escapeHtml(company.name) : 'Roof Measurement Report'}</p>
+                ${company?.address ? `<span class="shared-view-company-address">${escapeHtml(company.address)}</span>` : ''}
+            </div>
+            <div class="container">
+                <h1 class="shared-report-title">Roof Report for ${address}</h1>
+                ${shared.timestamp ? `<p class="materials-summary">Prepared ${new Date(shared.timestamp).toLocaleDateString()}</p>` : ''}
+                <div class="report-grid">
+                    <div class="report-image-container">
+                        ${shared.imageUrl ? `
+                            <div class="trace-stage">
+                                <img src="${shared.imageUrl}" alt="${isSyntheticImage(shared.source) ? 'Generated illustration' : 'Roof image'} of ${address}" />
+                                ${shared.tracing ? createTracingOverlaySvg(shared.tracing) : ''}
+                                ${isSyntheticImage(shared.source) ? '<span class="synthetic-image-badge">Illustration, not a photo</span>' : ''}
+                            </div>
+                        ` : ''}
+                        <p>${address}</p>
+                        ${createSourceNoteHtml(shared.source)}
+                    </div>
+                    <div class="report-details-container">
+                        <h2>Roof Measurement Details</h2>
+                        <div class="roof-visualization-container" aria-hidden="true">
+                            ${createRoofVisualizationSVG(measurements, shared.roofType)}
+                        </div>
+                        <table class="measurements-table">
+                            <tbody>
+                                ${MEASUREMENT_KEYS.map(key => `
+                                    <tr>
+                                        <td><strong>${MEASUREMENT_LABELS[key]}</strong></td>
+                                        <td>${formatMeasurement(key, measurements[key])}</td>
+                                    </tr>
+                                `).join('')}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+                ${shared.facets.length > 0 ? `
+                    <div class="facets-container">
+                        <h2 class="custom-sections-title">Roof Facets</h2>
+                        <div class="facets-table-wrapper">${createFacetsTableHtml(shared.facets)}</div>
+                    </div>
+                ` : ''}
+                ${shared.notes.length > 0 ? `
+                    <div class="custom-sections-container">
+                        <h2 class="custom-sections-title">Notes</h2>
+                        ${shared.notes.map(note => `
+                            <div class="custom-section">
+                                <h3>${escapeHtml(note.title)}</h3>
+                                <p>${escapeHtml(note.content).replace(/\n/g, '<br>')}</p>
+                            </div>
+                        `).join('')}
+                    </div>
+                ` : ''}
+            </div>
+        </section>
+    `;
+}
+
+/**
+ * Renders a message in place of a shared report whose link couldn't be read.
+ * @param message The reason shown to the visitor.
+ */
+function renderSharedReportError(message: string) {
+    document.body.classList.add('shared-view-active');
+    mainContent.innerHTML = `
+        <section class="history-view">
+            <div class="container">
+                <div class="empty-history-view">
+                    <h2>Report Unavailable</h2>
+                    <p>${escapeHtml(message)}</p>
+                </div>
+            </div>
+        </section>
+    `;
 }
 
 /**
  * Renders the report history view.
+ * @param query Search text to pre-fill and filter by, e.g. from a "#/history?q=" link.
+ * @param status Job status to filter by, e.g. from a "#/history?status=sold" link.
  */
-function renderHistoryView() {
-    const history = getReportHistory();
+async function renderHistoryView(query = '', status?: JobStatus) {
+    const history = await getReportHistory();
 
     if (history.length === 0) {
         mainContent.innerHTML = `
@@ -568,34 +1836,54 @@ function renderHistoryView() {
                 </div>
             </section>
         `;
-        document.getElementById('generate-first-report-btn')?.addEventListener('click', renderAddressInput);
+        document.getElementById('generate-first-report-btn')?.addEventListener('click', () => navigate({ name: 'newReport' }));
         return;
     }
 
+    const customers = new Map((await storage.getCustomers()).map(customer => [customer.id, customer]));
     mainContent.innerHTML = `
         <section class="history-view">
             <div class="container">
                 <h1>Your Report History</h1>
                 <div class="history-search-container">
-                    <input type="search" id="history-search-input" placeholder="Search by address or date..." aria-label="Search reports by address or date">
+                    <input type="search" id="history-search-input" placeholder="Search by address, date or customer..." aria-label="Search reports by address, date or customer">
+                    <select id="history-status-select" aria-label="Filter by job status">
+                        <option value="">All statuses</option>
+                        ${JOB_STATUSES.map(s => `<option value="${s}" ${s === status ? 'selected' : ''}>${JOB_STATUS_LABELS[s]}</option>`).join('')}
+                    </select>
                 </div>
                 <div class="history-grid">
-                    ${history.map(report => `
-                        <div class="history-card" data-report-id="${report.id}">
+                    ${history.map(report => {
+                        const customer = report.customerId !== undefined ? customers.get(report.customerId) : undefined;
+                        const flagged = unresolvedWarnings(report);
+                        return `
+                        <div class="history-card" data-report-id="${report.id}" data-status="${reportStatus(report)}" data-customer-search="${customer ? escapeHtml(customerSearchText(customer)) : ''}">
                             <div class="history-card-img-container">
-                                <img src="${report.imageUrl}" alt="Satellite view of ${report.address}" loading="lazy" />
+                                ${report.imageUrl
+                                    ? `<img src="${report.imageUrl}" alt="Roof image of ${report.address}" loading="lazy" />`
+                                    : '<div class="report-image-placeholder">No image</div>'}
+                                ${report.imageUrl && isSyntheticImage(reportSource(report)) ? '<span class="synthetic-image-badge">Illustration</span>' : ''}
                             </div>
                             <div class="history-card-content">
                                 <h3>${report.address}</h3>
                                 <p>Generated: ${new Date(report.timestamp).toLocaleDateString()}</p>
-                                <button class="btn btn-primary view-report-btn">View Report</button>
+                                ${customer ? `<p class="history-card-customer">${escapeHtml(customer.name)}</p>` : ''}
+                                <span class="job-status-badge status-${reportStatus(report)}">${JOB_STATUS_LABELS[reportStatus(report)]}</span>
+                                ${flagged.length > 0 ? `
+                                    <span class="measurement-check-badge" title="${escapeHtml(flagged.map(warning => warning.message).join('\n'))}">&#9888; ${flagged.length} to check</span>
+                                ` : ''}
+                                <div class="history-card-actions">
+                                    <button class="btn btn-primary view-report-btn">View Report</button>
+                                    <button class="btn btn-secondary download-report-pdf-btn">PDF</button>
+                                </div>
                             </div>
                         </div>
-                    `).join('')}
+                    `;
+                    }).join('')}
                 </div>
                 <div id="no-results-message" class="empty-history-view hidden">
                   <h2>No Matching Reports</h2>
-                  <p>Try searching for a different address or date.</p>
+                  <p>Try searching for a different address, date or customer, or another status.</p>
                 </div>
             </div>
         </section>
@@ -606,23 +1894,146 @@ function renderHistoryView() {
             const card = (e.target as HTMLElement).closest('.history-card');
             const reportId = card?.getAttribute('data-report-id');
             if (reportId) {
-                const reportToView = history.find(r => r.id === parseInt(reportId));
-                if (reportToView) {
-                    renderReportView(reportToView);
-                }
+                navigate({ name: 'report', reportId: parseInt(reportId) });
             }
         });
     });
 
-    const searchInput = document.getElementById('history-search-input');
-    searchInput?.addEventListener('input', handleHistorySearch);
+    document.querySelectorAll<HTMLButtonElement>('.download-report-pdf-btn').forEach(button => {
+        button.addEventListener('click', () => {
+            const reportId = Number(button.closest('.history-card')?.getAttribute('data-report-id'));
+            const report = history.find(r => r.id === reportId);
+            if (report) handleDownloadPdf(report, button);
+        });
+    });
+
+    const searchInput = document.getElementById('history-search-input') as HTMLInputElement;
+    searchInput.addEventListener('input', handleHistorySearch);
+    document.getElementById('history-status-select')?.addEventListener('change', handleHistorySearch);
+    if (query || status) {
+        searchInput.value = query;
+        filterHistoryCards(query, status);
+    }
+}
+
+/**
+ * Renders the job pipeline as a kanban board with a column per status. Jobs are dragged
+ * between columns to change their status.
+ */
+async function renderPipelineView() {
+    const reports = await getReportHistory();
+    const customers = new Map((await storage.getCustomers()).map(customer => [customer.id, customer]));
+    mainContent.innerHTML = `
+        <section class="history-view pipeline-view">
+            <div class="container">
+                <div class="view-header">
+                    <h1>Job Pipeline</h1>
+                    <button id="pipeline-new-report-btn" class="btn btn-primary">New Report</button>
+                </div>
+                <div class="pipeline-board">
+                    ${JOB_STATUSES.map(status => {
+                        const jobs = reports.filter(report => reportStatus(report) === status);
+                        return `
+                            <div class="pipeline-column status-${status}" data-status="${status}">
+                                <h2>${JOB_STATUS_LABELS[status]} <span class="pipeline-count">${jobs.length}</span></h2>
+                                <div class="pipeline-cards">
+                                    ${jobs.map(report => {
+                                        const customer = report.customerId !== undefined ? customers.get(report.customerId) : undefined;
+                                        return `
+                                            <div class="pipeline-card" data-report-id="${report.id}" draggable="true">
+                                                <a href="${routeToHash({ name: 'report', reportId: report.id })}">${escapeHtml(report.address)}</a>
+                                                ${customer ? `<p>${escapeHtml(customer.name)}</p>` : ''}
+                                                ${report.quote ? `<p class="pipeline-card-amount">${formatCurrency(report.quote.total)}</p>` : ''}
+                                                <p class="pipeline-card-since">Since ${new Date(statusSince(report)).toLocaleDateString()}</p>
+                                            </div>
+                                        `;
+                                    }).join('')}
+                                </div>
+                            </div>
+                        `;
+                    }).join('')}
+                </div>
+            </div>
+        </section>
+    `;
+
+    document.getElementById('pipeline-new-report-btn')?.addEventListener('click', () => navigate({ name: 'newReport' }));
+
+    // --- Drag and Drop between columns ---
+    const board = document.querySelector('.pipeline-board') as HTMLDivElement;
+    let draggedId: number | null = null;
+    board.addEventListener('dragstart', e => {
+        const card = (e.target as HTMLElement).closest<HTMLElement>('.pipeline-card');
+        if (!card) return;
+        draggedId = Number(card.dataset.reportId);
+        card.classList.add('dragging');
+    });
+    board.addEventListener('dragend', e => {
+        (e.target as HTMLElement).closest('.pipeline-card')?.classList.remove('dragging');
+        board.querySelectorAll('.drop-target').forEach(column => column.classList.remove('drop-target'));
+        draggedId = null;
+    });
+    board.addEventListener('dragover', e => {
+        const column = (e.target as HTMLElement).closest('.pipeline-column');
+        if (!draggedId || !column) return;
+        e.preventDefault();
+        board.querySelectorAll('.drop-target').forEach(other => other !== column && other.classList.remove('drop-target'));
+        column.classList.add('drop-target');
+    });
+    board.addEventListener('drop', async e => {
+        const column = (e.target as HTMLElement).closest<HTMLElement>('.pipeline-column');
+        if (!draggedId || !column) return;
+        e.preventDefault();
+        const report = reports.find(r => r.id === draggedId);
+        if (report && await handleChangeJobStatus(report, column.dataset.status as JobStatus)) {
+            renderPipelineView();
+        }
+    });
 }
 
 /**
- * Renders the template management view.
+ * Renders the template management view. Archived templates are listed separately.
  */
-function renderTemplatesView() {
-    const templates = getTemplates();
+async function renderTemplatesView() {
+    const templates = await storage.getTemplates();
+    const starterLibraryHtml = `
+        <h2 class="custom-sections-title starter-library-title">Starter Library</h2>
+        <p class="materials-summary">Ready-made templates to start from. Using one adds a copy you can edit.</p>
+        <div class="templates-grid">
+            ${STARTER_TEMPLATES.map(starter => `
+                <div class="template-card starter-template-card" data-starter-key="${starter.key}">
+                    <div class="template-card-content">
+                        <h3>${escapeHtml(starter.name)}</h3>
+                        <p>${escapeHtml(starter.description)}</p>
+                        <ul>
+                            ${starter.customSections.map(s => `<li>${escapeHtml(s.title)}</li>`).join('')}
+                        </ul>
+                    </div>
+                    <div class="template-card-actions">
+                        <button class="btn btn-secondary use-starter-btn">Use This Template</button>
+                    </div>
+                </div>
+            `).join('')}
+        </div>
+    `;
+    const importInputHtml = `<input type="file" id="template-import-input" accept="application/json,.json" class="hidden">`;
+    const setupLibraryAndImport = () => {
+        document.querySelectorAll('.use-starter-btn').forEach(btn => {
+            btn.addEventListener('click', e => {
+                const key = (e.target as HTMLElement).closest('.starter-template-card')?.getAttribute('data-starter-key');
+                const starter = STARTER_TEMPLATES.find(item => item.key === key);
+                if (starter) handleUseStarterTemplate(starter);
+            });
+        });
+        const importInput = document.getElementById('template-import-input') as HTMLInputElement;
+        document.getElementById('import-templates-btn')?.addEventListener('click', () => importInput.click());
+        importInput.addEventListener('change', () => {
+            const file = importInput.files?.[0];
+            importInput.value = '';
+            if (file) handleImportTemplates(file, templates);
+        });
+    };
+
     if (templates.length === 0) {
         mainContent.innerHTML = `
             <section class="history-view">
@@ -631,64 +2042,138 @@ function renderTemplatesView() {
                         <h2>No Templates Found</h2>
                         <p>Templates allow you to add custom sections like checklists or notes to your reports.</p>
                         <button id="create-first-template-btn" class="btn btn-primary btn-large">Create Your First Template</button>
+                        <button id="import-templates-btn" class="btn btn-secondary btn-large">Import From File</button>
+                        ${importInputHtml}
                     </div>
+                    ${starterLibraryHtml}
                 </div>
             </section>
         `;
-        document.getElementById('create-first-template-btn')?.addEventListener('click', () => renderTemplateEditorView());
+        document.getElementById('create-first-template-btn')?.addEventListener('click', () => navigate({ name: 'newTemplate' }));
+        setupLibraryAndImport();
         return;
     }
 
+    const reports = await storage.getReports();
+    const active = templates.filter(template => !template.archived);
+    const archived = templates.filter(template => template.archived);
+    const templateCardHtml = (template: Template) => {
+        const usage = countTemplateUsage(reports, template.id);
+        return `
+            <div class="template-card ${template.archived ? 'archived' : ''}" data-template-id="${template.id}">
+                <div class="template-card-content">
+                    <h3>${escapeHtml(template.name)}</h3>
+                    <p>${template.customSections.length} custom section(s) &middot; Version ${templateVersion(template)}</p>
+                    <p>PDF: ${getReportVariant(template.defaultVariant).label}</p>
+                    <p>Used by ${usage} report${usage === 1 ? '' : 's'}</p>
+                    <ul>
+                        ${template.customSections.slice(0, 3).map(s => `<li>${escapeHtml(s.title)}</li>`).join('')}
+                        ${template.customSections.length > 3 ? `<li>...and more</li>` : ''}
+                    </ul>
+                </div>
+                <div class="template-card-actions">
+                    <button class="btn btn-secondary export-template-btn">Export</button>
+                    ${template.archived ? `
+                        <button class="btn btn-secondary unarchive-template-btn">Restore</button>
+                    ` : `
+                        <button class="btn btn-secondary edit-template-btn">Edit</button>
+                        <button class="btn btn-secondary duplicate-template-btn">Duplicate</button>
+                        <button class="btn btn-secondary archive-template-btn">Archive</button>
+                    `}
+                    <button class="btn btn-danger delete-template-btn">Delete</button>
+                </div>
+            </div>
+        `;
+    };
+
     mainContent.innerHTML = `
         <section class="history-view">
             <div class="container">
                 <div class="view-header">
                     <h1>Report Templates</h1>
-                    <button id="create-new-template-btn" class="btn btn-primary">Create New Template</button>
+                    <div class="view-header-actions">
+                        <button id="import-templates-btn" class="btn btn-secondary">Import</button>
+                        <button id="export-templates-btn" class="btn btn-secondary">Export All</button>
+                        <button id="create-new-template-btn" class="btn btn-primary">Create New Template</button>
+                    </div>
+                    ${importInputHtml}
                 </div>
                 <div class="templates-grid">
-                    ${templates.map(template => `
-                        <div class="template-card" data-template-id="${template.id}">
-                            <div class="template-card-content">
-                                <h3>${template.name}</h3>
-                                <p>${template.customSections.length} custom section(s)</p>
-                                <ul>
-                                    ${template.customSections.slice(0, 3).map(s => `<li>${s.title}</li>`).join('')}
-                                    ${template.customSections.length > 3 ? `<li>...and more</li>` : ''}
-                                </ul>
-                            </div>
-                            <div class="template-card-actions">
-                                <button class="btn btn-secondary edit-template-btn">Edit</button>
-                                <button class="btn btn-danger delete-template-btn">Delete</button>
-                            </div>
-                        </div>
-                    `).join('')}
+                    ${active.map(templateCardHtml).join('') || '<p class="materials-summary">All templates are archived.</p>'}
                 </div>
+                ${archived.length > 0 ? `
+                    <h2 class="custom-sections-title archived-templates-title">Archived Templates</h2>
+                    <p class="materials-summary">Archived templates aren't offered for new reports. Reports already made with them are unchanged.</p>
+                    <div class="templates-grid">
+                        ${archived.map(templateCardHtml).join('')}
+                    </div>
+                ` : ''}
+                ${starterLibraryHtml}
             </div>
         </section>
     `;
+    setupLibraryAndImport();
 
-    document.getElementById('create-new-template-btn')?.addEventListener('click', () => renderTemplateEditorView());
+    const templateFor = (e: Event) => {
+        const card = (e.target as HTMLElement).closest('.template-card');
+        const templateId = Number(card?.getAttribute('data-template-id'));
+        return templates.find(template => template.id === templateId)!;
+    };
+    document.getElementById('create-new-template-btn')?.addEventListener('click', () => navigate({ name: 'newTemplate' }));
     document.querySelectorAll('.edit-template-btn').forEach(btn => {
-        btn.addEventListener('click', e => {
-            const card = (e.target as HTMLElement).closest('.template-card');
-            const templateId = Number(card?.getAttribute('data-template-id'));
-            const template = templates.find(t => t.id === templateId);
-            if(template) renderTemplateEditorView(template);
-        });
+        btn.addEventListener('click', e => navigate({ name: 'editTemplate', templateId: templateFor(e).id }));
+    });
+    document.getElementById('export-templates-btn')?.addEventListener('click', () => handleExportTemplates(active));
+    document.querySelectorAll('.export-template-btn').forEach(btn => {
+        btn.addEventListener('click', e => handleExportTemplates([templateFor(e)]));
+    });
+    document.querySelectorAll('.duplicate-template-btn').forEach(btn => {
+        btn.addEventListener('click', e => handleDuplicateTemplate(templateFor(e)));
+    });
+    document.querySelectorAll('.archive-template-btn').forEach(btn => {
+        btn.addEventListener('click', e => handleArchiveTemplate(templateFor(e), true));
+    });
+    document.querySelectorAll('.unarchive-template-btn').forEach(btn => {
+        btn.addEventListener('click', e => handleArchiveTemplate(templateFor(e), false));
     });
     document.querySelectorAll('.delete-template-btn').forEach(btn => {
         btn.addEventListener('click', e => {
-            const card = (e.target as HTMLElement).closest('.template-card');
-            const templateId = Number(card?.getAttribute('data-template-id'));
-            if(confirm('Are you sure you want to delete this template? This cannot be undone.')) {
-                deleteTemplate(templateId);
-                renderTemplatesView();
-            }
+            const template = templateFor(e);
+            handleDeleteTemplate(template, countTemplateUsage(reports, template.id));
         });
     });
 }
 
+/**
+ * Creates the contents of one section row in the template editor: its title, its field
+ * kind, and the unit or options that kind needs.
+ * @param section The section to show; new rows have no ID yet.
+ * @returns An HTML string for the inside of a .custom-section-item.
+ */
+function createSectionItemHtml(section: Omit<CustomSection, 'id'>): string {
+    const kind = sectionKind(section);
+    const title = escapeHtml(section.title);
+    return `
+        <div class="section-item-header">
+            <span class="drag-handle" aria-hidden="true">⠿</span>
+            <span class="section-title-text">${title || 'New Section'}</span>
+            <input type="text" value="${title}" class="section-title-input hidden" required>
+            <div class="section-item-actions">
+                <button type="button" class="btn-edit-section" aria-label="Edit section">Edit</button>
+                <button type="button" class="btn-save-section hidden" aria-label="Save section">Save</button>
+                <button type="button" class="btn-remove-section" aria-label="Remove section">&times;</button>
+            </div>
+        </div>
+        <div class="section-item-settings">
+            <select class="section-kind-select" aria-label="Field type">
+                ${SECTION_KINDS.map(k => `<option value="${k}" ${k === kind ? 'selected' : ''}>${SECTION_KIND_LABELS[k]}</option>`).join('')}
+            </select>
+            <input type="text" class="section-unit-input ${kind === 'number' ? '' : 'hidden'}" value="${escapeHtml(section.unit || '')}" placeholder="Unit, e.g. sq ft" aria-label="Unit">
+            <textarea class="section-options-input ${OPTION_SECTION_KINDS.includes(kind) ? '' : 'hidden'}" rows="3" placeholder="One option per line" aria-label="Options">${escapeHtml((section.options || []).join('\n'))}</textarea>
+        </div>
+    `;
+}
+
 /**
  * Renders the form to create or edit a template.
  * @param template Optional template object for editing.
@@ -700,35 +2185,37 @@ function renderTemplateEditorView(template?: Template) {
         <div class="container">
             <form class="profile-form-container" id="template-editor-form">
                 <h1>${isEditing ? 'Edit' : 'Create'} Report Template</h1>
+                ${template ? `
+                    <p class="materials-summary">Version ${templateVersion(template)}. Saving changes creates version ${templateVersion(template) + 1}; reports already made with this template keep the sections they were filled in with.</p>
+                ` : ''}
                 <div class="form-group">
                     <label for="template-name">Template Name</label>
                     <input type="text" id="template-name" value="${template?.name || ''}" placeholder="e.g., Insurance Claim Report" required>
                 </div>
+                <div class="form-group">
+                    <label for="template-default-variant">Default PDF Version</label>
+                    <select id="template-default-variant">
+                        ${REPORT_VARIANTS.map(variant => `
+                            <option value="${variant.id}" ${variant.id === getReportVariant(template?.defaultVariant).id ? 'selected' : ''}>${variant.label}: ${variant.description}</option>
+                        `).join('')}
+                    </select>
+                </div>
 
                 <div class="form-group">
                     <label>Custom Sections</label>
                     <div id="custom-sections-list">
                         ${template?.customSections.map(section => `
                             <div class="custom-section-item" data-id="${section.id}" draggable="true">
-                                <span class="drag-handle" aria-hidden="true">⠿</span>
-                                <span class="section-title-text">${section.title}</span>
-                                <input type="text" value="${section.title}" class="section-title-input hidden" required>
-                                <div class="section-item-actions">
-                                    <button type="button" class="btn-edit-section" aria-label="Edit section">Edit</button>
-                                    <button type="button" class="btn-save-section hidden" aria-label="Save section">Save</button>
-                                    <button type="button" class="btn-remove-section" aria-label="Remove section">&times;</button>
-                                </div>
+                                ${createSectionItemHtml(section)}
                             </div>
                         `).join('') || ''}
                     </div>
                     <div class="add-section-container">
                         <label class="add-section-label">Add a section</label>
                         <div class="quick-add-pills">
-                            <button type="button" class="quick-add-pill" data-title="On-site Notes">+ On-site Notes</button>
-                            <button type="button" class="quick-add-pill" data-title="Damage Assessment">+ Damage Assessment</button>
-                            <button type="button" class="quick-add-pill" data-title="Material Checklist">+ Material Checklist</button>
-                            <button type="button" class="quick-add-pill" data-title="Client Conversation Log">+ Client Log</button>
-                            <button type="button" class="quick-add-pill" data-title="Photo Log">+ Photo Log</button>
+                            ${QUICK_ADD_SECTIONS.map((preset, index) => `
+                                <button type="button" class="quick-add-pill" data-preset="${index}">+ ${preset.label}</button>
+                            `).join('')}
                         </div>
                         <form class="custom-add-section" id="custom-add-form">
                             <input type="text" id="custom-section-input" placeholder="Or enter a custom section title...">
@@ -780,6 +2267,14 @@ function renderTemplateEditorView(template?: Template) {
         saveBtn.addEventListener('click', exitEditMode);
         removeBtn.addEventListener('click', () => item.remove());
 
+        // Only show the settings that apply to the chosen kind
+        const kindSelect = item.querySelector('.section-kind-select') as HTMLSelectElement;
+        kindSelect.addEventListener('change', () => {
+            const kind = kindSelect.value as SectionKind;
+            item.querySelector('.section-unit-input')!.classList.toggle('hidden', kind !== 'number');
+            item.querySelector('.section-options-input')!.classList.toggle('hidden', !OPTION_SECTION_KINDS.includes(kind));
+        });
+
         input.addEventListener('keydown', e => {
             if (e.key === 'Enter') {
                 e.preventDefault();
@@ -790,24 +2285,15 @@ function renderTemplateEditorView(template?: Template) {
         });
     };
 
-    const addSectionItem = (id = `new_${Date.now()}`, title = '') => {
+    const addSectionItem = (section: Omit<CustomSection, 'id'>) => {
         const div = document.createElement('div');
         div.className = 'custom-section-item';
-        div.dataset.id = id;
+        div.dataset.id = `new_${Date.now()}`;
         div.draggable = true;
-        div.innerHTML = `
-            <span class="drag-handle" aria-hidden="true">⠿</span>
-            <span class="section-title-text">${title || 'New Section'}</span>
-            <input type="text" value="${title}" class="section-title-input hidden" required>
-            <div class="section-item-actions">
-                <button type="button" class="btn-edit-section" aria-label="Edit section">Edit</button>
-                <button type="button" class="btn-save-section hidden" aria-label="Save section">Save</button>
-                <button type="button" class="btn-remove-section" aria-label="Remove section">&times;</button>
-            </div>
-        `;
+        div.innerHTML = createSectionItemHtml(section);
         setupSectionItemEventListeners(div);
         sectionsList.appendChild(div);
-        if (!title) {
+        if (!section.title) {
             (div.querySelector('.btn-edit-section') as HTMLButtonElement).click();
         }
     };
@@ -819,9 +2305,9 @@ function renderTemplateEditorView(template?: Template) {
     quickAddPillsContainer?.addEventListener('click', (e) => {
         const target = e.target as HTMLElement;
         if (target.classList.contains('quick-add-pill')) {
-            const title = target.dataset.title;
-            if (title) {
-                addSectionItem(undefined, title);
+            const preset = QUICK_ADD_SECTIONS[Number(target.dataset.preset)];
+            if (preset) {
+                addSectionItem({ ...preset.section, options: preset.section.options && [...preset.section.options] });
             }
         }
     });
@@ -833,7 +2319,7 @@ function renderTemplateEditorView(template?: Template) {
         const customSectionInput = document.getElementById('custom-section-input') as HTMLInputElement;
         const title = customSectionInput.value.trim();
         if (title) {
-            addSectionItem(undefined, title);
+            addSectionItem({ title, kind: 'longText' });
             customSectionInput.value = '';
             customSectionInput.focus();
         }
@@ -879,26 +2365,126 @@ function renderTemplateEditorView(template?: Template) {
         }
     });
     
-    document.getElementById('cancel-template-edit')?.addEventListener('click', renderTemplatesView);
+    document.getElementById('cancel-template-edit')?.addEventListener('click', () => navigate({ name: 'templates' }));
     document.getElementById('template-editor-form')?.addEventListener('submit', (e) => handleTemplateSave(e, template?.id));
 }
 
 
 /**
- * Renders the user profile view.
+ * Renders the list of customers with how many reports each has.
  */
-function renderProfileView() {
-    const profile = getProfileData();
-    mainContent.innerHTML = `
-        <section class="profile-view">
-            <div class="container">
-                <div class="profile-form-container">
-                    <h1>Company Profile</h1>
-                    <p>This information will appear on your PDF reports.</p>
-                    <form id="profile-form">
-                        <div class="form-group">
-                            <label>Company Logo</label>
-                            <div class="logo-preview-container">
+async function renderCustomersView() {
+    const customers = await storage.getCustomers();
+    if (customers.length === 0) {
+        mainContent.innerHTML = `
+            <section class="history-view">
+                <div class="container">
+                    <div class="empty-history-view">
+                        <h2>No Customers Yet</h2>
+                        <p>Keep each homeowner's contact and insurance details in one place and link them to their reports.</p>
+                        <button id="create-first-customer-btn" class="btn btn-primary btn-large">Add Your First Customer</button>
+                    </div>
+                </div>
+            </section>
+        `;
+        document.getElementById('create-first-customer-btn')?.addEventListener('click', () => navigate({ name: 'newCustomer' }));
+        return;
+    }
+
+    const reports = await getReportHistory();
+    const reportCount = (customer: Customer) => reports.filter(report => report.customerId === customer.id).length;
+    mainContent.innerHTML = `
+        <section class="history-view">
+            <div class="container">
+                <div class="view-header">
+                    <h1>Customers</h1>
+                    <button id="create-new-customer-btn" class="btn btn-primary">Add Customer</button>
+                </div>
+                <div class="templates-grid">
+                    ${customers.map(customer => `
+                        <div class="template-card customer-card" data-customer-id="${customer.id}">
+                            <div class="template-card-content">
+                                <h3>${escapeHtml(customer.name)}</h3>
+                                ${customerContactLines(customer).map(line => `<p>${escapeHtml(line)}</p>`).join('')}
+                                ${describeInsurance(customer) ? `<p class="customer-insurance">${escapeHtml(describeInsurance(customer))}</p>` : ''}
+                                <p class="materials-summary">${reportCount(customer)} report(s)</p>
+                            </div>
+                            <div class="template-card-actions">
+                                <button class="btn btn-secondary view-customer-btn">Open</button>
+                            </div>
+                        </div>
+                    `).join('')}
+                </div>
+            </div>
+        </section>
+    `;
+
+    document.getElementById('create-new-customer-btn')?.addEventListener('click', () => navigate({ name: 'newCustomer' }));
+    document.querySelectorAll('.view-customer-btn').forEach(btn => {
+        btn.addEventListener('click', e => {
+            const card = (e.target as HTMLElement).closest('.customer-card');
+            navigate({ name: 'customer', customerId: Number(card?.getAttribute('data-customer-id')) });
+        });
+    });
+}
+
+/**
+ * Renders a customer's details for editing, with the reports linked to them.
+ * @param customer The customer to show; omitted when adding a new one.
+ */
+async function renderCustomerView(customer?: Customer) {
+    const reports = customer ? (await getReportHistory()).filter(report => report.customerId === customer.id) : [];
+    mainContent.innerHTML = `
+        <section class="profile-view">
+            <div class="container">
+                <div class="profile-form-container">
+                    <h1>${customer ? escapeHtml(customer.name) : 'New Customer'}</h1>
+                    <form id="customer-form" novalidate>
+                        ${createCustomerFieldsHtml(customer)}
+                        <div class="form-actions">
+                            ${customer ? '<button type="button" id="delete-customer-btn" class="btn btn-danger btn-large">Delete</button>' : ''}
+                            <button type="submit" class="btn btn-primary btn-large">Save Customer</button>
+                        </div>
+                    </form>
+                    ${customer ? `
+                        <div class="customer-reports">
+                            <h2>Reports</h2>
+                            ${reports.length === 0 ? '<p class="materials-summary">No reports for this customer yet.</p>' : `
+                                <ul>
+                                    ${reports.map(report => `
+                                        <li>
+                                            <a href="${routeToHash({ name: 'report', reportId: report.id })}">${escapeHtml(report.address)}</a>
+                                            <span>${new Date(report.timestamp).toLocaleDateString()}</span>
+                                        </li>
+                                    `).join('')}
+                                </ul>
+                            `}
+                        </div>
+                    ` : ''}
+                </div>
+            </div>
+        </section>
+    `;
+
+    document.getElementById('customer-form')?.addEventListener('submit', e => handleCustomerSave(e, customer));
+    document.getElementById('delete-customer-btn')?.addEventListener('click', () => handleDeleteCustomer(customer!, reports.length));
+}
+
+/**
+ * Renders the user profile view.
+ */
+async function renderProfileView() {
+    const profile = await storage.getProfile();
+    mainContent.innerHTML = `
+        <section class="profile-view">
+            <div class="container">
+                <div class="profile-form-container">
+                    <h1>Company Profile</h1>
+                    <p>This information will appear on your PDF reports.</p>
+                    <form id="profile-form">
+                        <div class="form-group">
+                            <label>Company Logo</label>
+                            <div class="logo-preview-container">
                                 ${profile?.logoDataUrl ? 
                                     `<img src="${profile.logoDataUrl}" alt="Company Logo Preview" class="logo-preview-img">` : 
                                     '<p class="logo-placeholder">No logo uploaded</p>'}
@@ -938,6 +2524,186 @@ function renderProfileView() {
     document.getElementById('profile-form')?.addEventListener('submit', handleProfileSave);
 }
 
+/**
+ * Renders the settings view with the material coverage rates.
+ */
+function renderSettingsView() {
+    const settings = getMaterialSettings();
+    const priceBook = getPriceBook();
+    const provider = getMeasurementProvider();
+    const claimCodeBook = getClaimCodeBook();
+    const blankCode: ClaimCode = { code: '', description: '', unit: 'SQ', basis: 'squares', unitPrice: 0 };
+    const claimCodeRows = [...claimCodeBook.codes, blankCode].map(code => `
+        <div class="settings-product-inputs claim-code-row">
+            <input type="text" class="claim-code-input" value="${escapeHtml(code.code)}" placeholder="Code" aria-label="Code">
+            <input type="text" class="claim-description-input" value="${escapeHtml(code.description)}" placeholder="Description" aria-label="Description">
+            <select class="claim-unit-select" aria-label="Unit">
+                ${CLAIM_UNITS.map(unit => `<option value="${unit}" ${unit === code.unit ? 'selected' : ''}>${unit}</option>`).join('')}
+            </select>
+            <select class="claim-basis-select" aria-label="Quantity from">
+                ${(Object.keys(CLAIM_BASIS_LABELS) as ClaimQuantityBasis[]).map(basis => `
+                    <option value="${basis}" ${basis === code.basis ? 'selected' : ''}>${CLAIM_BASIS_LABELS[basis]}</option>
+                `).join('')}
+            </select>
+            <input type="number" class="claim-price-input" value="${code.code ? code.unitPrice : ''}" min="0" step="0.01" placeholder="Unit price" aria-label="Unit price">
+            <input type="number" class="claim-min-pitch-input" value="${code.minPitch ?? ''}" min="0" step="any" placeholder="From pitch" aria-label="Lowest pitch, rise per 12">
+            <input type="number" class="claim-max-pitch-input" value="${code.maxPitch ?? ''}" min="0" step="any" placeholder="Up to pitch" aria-label="Pitch the range stops below, rise per 12">
+        </div>
+    `).join('');
+    const tierRows = (tiers: SurchargeTier[], kind: 'pitch' | 'story') =>
+        [...tiers, { threshold: 0, ratePerSquare: 0 }].map(tier => `
+            <div class="settings-product-inputs surcharge-tier-row" data-kind="${kind}">
+                <input type="number" class="tier-threshold-input" value="${tier.threshold || ''}" min="0" step="any"
+                       placeholder="${kind === 'pitch' ? 'Rise per 12, e.g. 8' : 'Stories, e.g. 2'}" aria-label="${kind === 'pitch' ? 'Minimum pitch rise' : 'Minimum stories'}">
+                <input type="number" class="tier-rate-input" value="${tier.ratePerSquare || ''}" min="0" step="any"
+                       placeholder="$ per square" aria-label="Surcharge per square">
+            </div>
+        `).join('');
+    mainContent.innerHTML = `
+        <section class="profile-view">
+            <div class="container">
+                <div class="profile-form-container">
+                    <h1>Settings</h1>
+                    <form id="material-settings-form">
+                        <h2 class="settings-section-title">Material Coverage Rates</h2>
+                        <p>Match these to the product lines you buy. They are used for the material estimate on every report.</p>
+                        ${MATERIAL_KEYS.map(key => `
+                            <div class="form-group settings-product-row" data-key="${key}">
+                                <label for="product-name-${key}">${MATERIAL_COVERAGE_UNITS[key].coverage.replace(/^./, c => c.toUpperCase())}</label>
+                                <div class="settings-product-inputs">
+                                    <input type="text" id="product-name-${key}" class="product-name-input" value="${settings.products[key].name}" required>
+                                    <input type="number" class="product-coverage-input" value="${settings.products[key].coverage}" min="0.1" step="any" required aria-label="${settings.products[key].name} coverage">
+                                </div>
+                            </div>
+                        `).join('')}
+                        <div class="form-group">
+                            <label for="ice-water-width-input">Ice &amp; Water Shield Width at Eaves (ft)</label>
+                            <input type="number" id="ice-water-width-input" value="${settings.iceAndWaterEaveWidth}" min="0" step="any" required>
+                        </div>
+                        <div class="form-group">
+                            <label for="ice-water-valley-width-input">Ice &amp; Water Shield Width in Valleys, Both Sides (ft)</label>
+                            <input type="number" id="ice-water-valley-width-input" value="${settings.iceAndWaterValleyWidth}" min="0" step="any" required>
+                        </div>
+                        <button type="submit" class="btn btn-primary btn-large">Save Settings</button>
+                    </form>
+                </div>
+                <div class="profile-form-container settings-card">
+                    <form id="measurement-provider-form">
+                        <h2 class="settings-section-title">Measurement Source</h2>
+                        <p>Where new reports get their imagery and measurements.</p>
+                        <div class="form-group">
+                            <label for="measurement-provider-select">Provider</label>
+                            <select id="measurement-provider-select">
+                                ${MEASUREMENT_PROVIDERS.map(p => `
+                                    <option value="${p.id}" ${p.id === provider.id ? 'selected' : ''} ${p.isAvailable() ? '' : 'disabled'}>
+                                        ${p.name}${p.isAvailable() ? '' : ' (not configured)'}
+                                    </option>
+                                `).join('')}
+                            </select>
+                            <p class="provider-description" id="measurement-provider-description">${provider.description}</p>
+                        </div>
+                        <button type="submit" class="btn btn-primary btn-large">Save Source</button>
+                    </form>
+                </div>
+                <div class="profile-form-container settings-card">
+                    <form id="price-book-form">
+                        <h2 class="settings-section-title">Price Book</h2>
+                        <p>Prices used to calculate quotes. Material prices are per purchase unit.</p>
+                        ${MATERIAL_KEYS.map(key => `
+                            <div class="form-group">
+                                <label for="price-${key}">${settings.products[key].name} ($ per ${MATERIAL_COVERAGE_UNITS[key].purchase.replace(/s$/, '')})</label>
+                                <input type="number" id="price-${key}" class="material-price-input" data-key="${key}" value="${priceBook.materialPrices[key]}" min="0" step="0.01" required>
+                            </div>
+                        `).join('')}
+                        <div class="form-group">
+                            <label for="install-rate-input">Installation Labor ($ per square)</label>
+                            <input type="number" id="install-rate-input" value="${priceBook.installRatePerSquare}" min="0" step="0.01" required>
+                        </div>
+                        <div class="form-group">
+                            <label for="tear-off-rate-input">Tear-off Labor ($ per square, per layer)</label>
+                            <input type="number" id="tear-off-rate-input" value="${priceBook.tearOffRatePerSquare}" min="0" step="0.01" required>
+                        </div>
+                        <div class="form-group">
+                            <label>Steep Pitch Surcharges (rise per 12 and up, $ per square)</label>
+                            ${tierRows(priceBook.pitchSurcharges, 'pitch')}
+                        </div>
+                        <div class="form-group">
+                            <label>Story Surcharges (stories and up, $ per square)</label>
+                            ${tierRows(priceBook.storySurcharges, 'story')}
+                        </div>
+                        <div class="form-group">
+                            <label for="overhead-input">Overhead (%)</label>
+                            <input type="number" id="overhead-input" value="${priceBook.overheadPercent}" min="0" step="any" required>
+                        </div>
+                        <div class="form-group">
+                            <label for="markup-input">Markup (%)</label>
+                            <input type="number" id="markup-input" value="${priceBook.markupPercent}" min="0" step="any" required>
+                        </div>
+                        <div class="form-group">
+                            <label for="tax-input">Sales Tax on Materials (%)</label>
+                            <input type="number" id="tax-input" value="${priceBook.taxPercent}" min="0" step="any" required>
+                        </div>
+                        <button type="submit" class="btn btn-primary btn-large">Save Price Book</button>
+                    </form>
+                </div>
+                <div class="profile-form-container settings-card">
+                    <form id="claim-code-form">
+                        <h2 class="settings-section-title">Insurance Line Items</h2>
+                        <p>Claim codes used to build insurance estimates. Match the codes and prices to the carrier's price list. The pitch range only applies to codes measured by pitch range; it includes the first pitch and stops just below the second, so 7 to 10 then 10 to 13 leave no gap. Leave the second blank for no upper limit. Clear a code to remove it.</p>
+                        <div class="form-group">
+                            ${claimCodeRows}
+                        </div>
+                        <div class="form-group">
+                            <label for="claim-depreciation-input">Default Depreciation (%)</label>
+                            <input type="number" id="claim-depreciation-input" value="${claimCodeBook.depreciationPercent}" min="0" max="100" step="any" required>
+                        </div>
+                        <div class="form-group">
+                            <label for="claim-overhead-input">Default Overhead (%)</label>
+                            <input type="number" id="claim-overhead-input" value="${claimCodeBook.overheadPercent}" min="0" step="any" required>
+                        </div>
+                        <div class="form-group">
+                            <label for="claim-profit-input">Default Profit (%)</label>
+                            <input type="number" id="claim-profit-input" value="${claimCodeBook.profitPercent}" min="0" step="any" required>
+                        </div>
+                        <div class="form-group">
+                            <label for="claim-tax-input">Default Sales Tax (%)</label>
+                            <input type="number" id="claim-tax-input" value="${claimCodeBook.taxPercent}" min="0" step="any" required>
+                        </div>
+                        <button type="submit" class="btn btn-primary btn-large">Save Line Items</button>
+                    </form>
+                </div>
+                <div class="profile-form-container settings-card">
+                    <h2 class="settings-section-title">Backup &amp; Restore</h2>
+                    <p>Download every report, template, image and setting as one file. Restore it here or on another computer to pick up where you left off.</p>
+                    <button type="button" id="export-backup-btn" class="btn btn-secondary btn-large">Download Backup</button>
+                    <form id="restore-backup-form" class="restore-backup-form">
+                        <div class="form-group">
+                            <label for="backup-file-input">Backup File</label>
+                            <input type="file" id="backup-file-input" accept="application/json,.json" required>
+                        </div>
+                        <div class="form-group restore-mode-options">
+                            <label><input type="radio" name="restore-mode" value="merge" checked> Merge with the reports and templates already here</label>
+                            <label><input type="radio" name="restore-mode" value="replace"> Replace everything here with the backup</label>
+                        </div>
+                        <button type="submit" class="btn btn-primary btn-large">Restore Backup</button>
+                    </form>
+                </div>
+            </div>
+        </section>
+    `;
+
+    document.getElementById('material-settings-form')?.addEventListener('submit', handleMaterialSettingsSave);
+    document.getElementById('price-book-form')?.addEventListener('submit', handlePriceBookSave);
+    document.getElementById('claim-code-form')?.addEventListener('submit', handleClaimCodeBookSave);
+    document.getElementById('measurement-provider-form')?.addEventListener('submit', handleMeasurementProviderSave);
+    document.getElementById('measurement-provider-select')?.addEventListener('change', e => {
+        const selected = MEASUREMENT_PROVIDERS.find(p => p.id === (e.target as HTMLSelectElement).value);
+        (document.getElementById('measurement-provider-description') as HTMLParagraphElement).textContent = selected?.description || '';
+    });
+    document.getElementById('export-backup-btn')?.addEventListener('click', handleExportBackup);
+    document.getElementById('restore-backup-form')?.addEventListener('submit', handleRestoreBackup);
+}
+
 // --- EVENT HANDLERS ---
 
 /**
@@ -945,7 +2711,7 @@ function renderProfileView() {
  * @param e The form submission event.
  * @param templateId The ID of the template being edited, if any.
  */
-function handleTemplateSave(e: Event, templateId?: number) {
+async function handleTemplateSave(e: Event, templateId?: number) {
     e.preventDefault();
     const form = e.target as HTMLFormElement;
     const name = (form.querySelector('#template-name') as HTMLInputElement).value.trim();
@@ -953,8 +2719,11 @@ function handleTemplateSave(e: Event, templateId?: number) {
         alert('Please enter a template name.');
         return;
     }
+    const variantValue = (form.querySelector('#template-default-variant') as HTMLSelectElement).value;
+    const defaultVariant = isReportVariantId(variantValue) ? variantValue : undefined;
     const sectionItems = form.querySelectorAll<HTMLDivElement>('.custom-section-item');
     const customSections: CustomSection[] = [];
+    let sectionMissingOptions: string | null = null;
 
     sectionItems.forEach(item => {
         const title = (item.querySelector('.section-title-input') as HTMLInputElement).value.trim();
@@ -964,29 +2733,269 @@ function handleTemplateSave(e: Event, templateId?: number) {
                 // Generate a more permanent-looking ID for new sections
                 sectionId = `s_${Date.now()}_${Math.random().toString(36).substring(2, 7)}`;
             }
-            customSections.push({
-                id: sectionId,
-                title: title
-            });
+            const kind = (item.querySelector('.section-kind-select') as HTMLSelectElement).value as SectionKind;
+            const section: CustomSection = { id: sectionId, title, kind };
+            if (kind === 'number') {
+                const unit = (item.querySelector('.section-unit-input') as HTMLInputElement).value.trim();
+                if (unit) section.unit = unit;
+            }
+            if (OPTION_SECTION_KINDS.includes(kind)) {
+                const options = (item.querySelector('.section-options-input') as HTMLTextAreaElement).value
+                    .split('\n').map(option => option.trim()).filter(Boolean);
+                section.options = [...new Set(options)];
+                if (options.length === 0) sectionMissingOptions = sectionMissingOptions || title;
+            }
+            customSections.push(section);
         }
     });
 
-    const templateData: Partial<Template> = { id: templateId, name, customSections };
-    if (!templateId) {
-      delete templateData.id;
+    if (sectionMissingOptions) {
+        alert(`Please add at least one option to "${sectionMissingOptions}".`);
+        return;
+    }
+
+    try {
+        const existing = templateId ? await storage.getTemplate(templateId) : null;
+        await saveTemplate(existing
+            ? { ...reviseTemplate(existing, { name, customSections }, new Date()), defaultVariant }
+            : { name, customSections, defaultVariant, version: 1 });
+    } catch (error) {
+        alertStorageError(error, 'save the template');
+        return;
+    }
+    navigate({ name: 'templates' });
+}
+
+
+/**
+ * Saves a new or edited customer from the customer form.
+ * @param e The form submission event.
+ * @param existing The customer being edited, if any.
+ */
+async function handleCustomerSave(e: Event, existing?: Customer) {
+    e.preventDefault();
+    let customer: Customer;
+    try {
+        customer = buildCustomer(readCustomerFields(e.target as HTMLFormElement), existing);
+    } catch (error) {
+        if (!(error instanceof CustomerValidationError)) throw error;
+        alert(error.message);
+        return;
+    }
+    try {
+        await storage.putCustomer(customer);
+    } catch (error) {
+        alertStorageError(error, 'save the customer');
+        return;
+    }
+    navigate({ name: 'customers' });
+}
+
+/**
+ * Deletes a customer after confirmation. Their reports are kept but no longer linked.
+ */
+async function handleDeleteCustomer(customer: Customer, reportCount: number) {
+    const warning = reportCount > 0 ? ` Their ${reportCount} report(s) will be kept but no longer linked to them.` : '';
+    if (!confirm(`Delete ${customer.name}?${warning} This cannot be undone.`)) return;
+    try {
+        await storage.deleteCustomer(customer.id);
+    } catch (error) {
+        alertStorageError(error, 'delete the customer');
+        return;
+    }
+    navigate({ name: 'customers' });
+}
+
+/**
+ * Restores a report's measurements, facets and notes to an earlier revision. The restore is
+ * itself saved as a revision, so it can be undone the same way.
+ * @param report The report as it is now.
+ * @param revision The revision to go back to.
+ */
+async function handleRestoreRevision(report: Report, revision: ReportRevision) {
+    const savedAt = new Date(revision.savedAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+    if (!confirm(`Restore the measurements, facets and notes from "${revision.label}" (${savedAt})? The current values stay in the revision history.`)) {
+        return;
+    }
+    const { measurements, facets, customData, unparsedMeasurements } = JSON.parse(JSON.stringify(revision.snapshot)) as RevisionSnapshot;
+    const updatedReport = withCurrentMeasurements(report, { ...report, measurements, facets, customData, unparsedMeasurements });
+    try {
+        await saveReportWithRevision(report, updatedReport, `Restored version from ${savedAt}`);
+    } catch (error) {
+        alertStorageError(error, 'restore the revision');
+        return;
+    }
+    navigate({ name: 'report', reportId: report.id });
+}
+
+/**
+ * Saves a copy of a template under a new name and opens it in the editor.
+ * @param template The template to copy.
+ */
+async function handleDuplicateTemplate(template: Template) {
+    const copy = duplicateTemplate(template, Date.now());
+    try {
+        await storage.putTemplate(copy);
+    } catch (error) {
+        alertStorageError(error, 'duplicate the template');
+        return;
+    }
+    navigate({ name: 'editTemplate', templateId: copy.id });
+}
+
+/**
+ * Downloads templates as a template file other workspaces can import.
+ * @param templates The templates to export.
+ */
+function handleExportTemplates(templates: Template[]) {
+    if (templates.length === 0) {
+        alert('There are no templates to export.');
+        return;
+    }
+    downloadFile(createTemplateFile(templates), templateFileName(templates), 'application/json');
+}
+
+/**
+ * Imports the templates in a template file as new templates.
+ * @param file The chosen file.
+ * @param existing The templates already in the workspace.
+ */
+async function handleImportTemplates(file: File, existing: Template[]) {
+    let plan: ReturnType<typeof planTemplateImport>;
+    try {
+        plan = planTemplateImport(parseTemplateFile(await file.text()), existing, Date.now());
+    } catch (error) {
+        console.error('Failed to read template file:', error);
+        alert(error instanceof TemplateFileError ? error.message : 'Sorry, we could not read that file.');
+        return;
+    }
+    try {
+        for (const template of plan.templates) {
+            await storage.putTemplate(template);
+        }
+    } catch (error) {
+        alertStorageError(error, 'import the templates');
+        renderTemplatesView();
+        return;
+    }
+    alert([
+        `Imported ${plan.templates.length} template(s).`,
+        plan.duplicates > 0 ? `${plan.duplicates} template(s) were already here and were skipped.` : '',
+    ].filter(Boolean).join('\n'));
+    renderTemplatesView();
+}
+
+/**
+ * Adds a copy of a starter template to the workspace and opens it in the editor.
+ * @param starter The starter to copy.
+ */
+async function handleUseStarterTemplate(starter: StarterTemplate) {
+    const template = cloneStarterTemplate(starter, Date.now());
+    try {
+        await storage.putTemplate(template);
+    } catch (error) {
+        alertStorageError(error, 'add the template');
+        return;
+    }
+    navigate({ name: 'editTemplate', templateId: template.id });
+}
+
+/**
+ * Archives a template, hiding it from new reports, or brings an archived one back.
+ * @param template The template.
+ * @param archived Whether to archive (true) or restore (false) it.
+ */
+async function handleArchiveTemplate(template: Template, archived: boolean) {
+    try {
+        await storage.putTemplate({ ...template, archived });
+    } catch (error) {
+        alertStorageError(error, archived ? 'archive the template' : 'restore the template');
+        return;
+    }
+    renderTemplatesView();
+}
+
+/**
+ * Deletes a template after confirming. When reports use the template, the warning names how
+ * many and suggests archiving, since deleted templates take those reports' custom notes with them.
+ * @param template The template to delete.
+ * @param usage How many reports were made with it.
+ */
+async function handleDeleteTemplate(template: Template, usage: number) {
+    const message = usage > 0
+        ? `"${template.name}" is used by ${usage} report${usage === 1 ? '' : 's'}. Deleting it hides their custom notes from the report view and PDF.\n\nArchive it instead to stop offering it for new reports while keeping those reports intact. Delete anyway?`
+        : `Are you sure you want to delete "${template.name}"? This cannot be undone.`;
+    if (!confirm(message)) return;
+    try {
+        await storage.deleteTemplate(template.id);
+    } catch (error) {
+        alertStorageError(error, 'delete the template');
     }
-    
-    saveTemplate(templateData as Template);
     renderTemplatesView();
 }
 
+/**
+ * Moves a report to the latest version of its template. New sections start empty; notes in
+ * sections the latest version dropped stay saved with the report.
+ * @param report The report.
+ * @param latest The template as it is now.
+ */
+async function handleUseLatestTemplate(report: Report, latest: Template) {
+    if (!confirm(`Switch this report to version ${templateVersion(latest)} of "${latest.name}"? Notes in sections that version no longer has stay saved and can be seen in the report's revision history.`)) {
+        return;
+    }
+    const customData: Record<string, SectionValue> = { ...report.customData };
+    latest.customSections.forEach(section => {
+        if (!(section.id in customData)) customData[section.id] = emptySectionValue(section);
+    });
+    const updatedReport: Report = { ...report, templateVersion: templateVersion(latest), customData };
+    try {
+        await saveReportWithRevision(report, updatedReport, `Updated to template version ${templateVersion(latest)}`);
+    } catch (error) {
+        alertStorageError(error, 'update the template version');
+        return;
+    }
+    renderReportView(updatedReport);
+}
+
+/**
+ * Moves a job to a new pipeline status and saves it, recording the date of the change.
+ * @param report The job's report.
+ * @param status The new status.
+ * @returns The saved report, or null if nothing changed or saving failed.
+ */
+async function handleChangeJobStatus(report: Report, status: JobStatus): Promise<Report | null> {
+    const updatedReport = withStatus(report, status);
+    if (updatedReport === report) return null;
+    try {
+        await storage.putReport(updatedReport);
+    } catch (error) {
+        alertStorageError(error, 'update the job status');
+        return null;
+    }
+    return updatedReport;
+}
 
 /**
  * Handles filtering the report history based on user input.
- * @param e The input event from the search field.
+ * @param e The input event from the search field or the change event from the status filter.
  */
 function handleHistorySearch(e: Event) {
-    const searchTerm = (e.target as HTMLInputElement).value.toLowerCase();
+    const query = (document.getElementById('history-search-input') as HTMLInputElement).value;
+    const status = ((document.getElementById('history-status-select') as HTMLSelectElement).value || undefined) as JobStatus | undefined;
+    // Keep the search in the URL without adding a history entry per keystroke
+    history.replaceState(null, '', routeToHash({ name: 'history', query: query.trim(), status }));
+    filterHistoryCards(query, status);
+}
+
+/**
+ * Shows only the history cards whose address, date or customer contains the search text
+ * and whose job has the chosen status.
+ * @param query The search text.
+ * @param status The job status to show, or undefined for all.
+ */
+function filterHistoryCards(query: string, status?: JobStatus) {
+    const searchTerm = query.trim().toLowerCase();
     const cards = document.querySelectorAll('.history-card');
     const noResultsMessage = document.getElementById('no-results-message');
     let visibleCount = 0;
@@ -995,7 +3004,9 @@ function handleHistorySearch(e: Event) {
         const cardElement = card as HTMLElement;
         const address = cardElement.querySelector('h3')?.textContent?.toLowerCase() || '';
         const date = cardElement.querySelector('p')?.textContent?.toLowerCase() || '';
-        if (address.includes(searchTerm) || date.includes(searchTerm)) {
+        const customer = cardElement.dataset.customerSearch || '';
+        const matchesText = address.includes(searchTerm) || date.includes(searchTerm) || customer.includes(searchTerm);
+        if (matchesText && (!status || cardElement.dataset.status === status)) {
             cardElement.style.display = 'flex';
             visibleCount++;
         } else {
@@ -1016,7 +3027,7 @@ function handleHistorySearch(e: Event) {
  * Handles saving the user's profile data.
  * @param e The form submission event.
  */
-function handleProfileSave(e: Event) {
+async function handleProfileSave(e: Event) {
     e.preventDefault();
     const form = e.target as HTMLFormElement;
     const button = form.querySelector('button[type="submit"]') as HTMLButtonElement;
@@ -1024,13 +3035,19 @@ function handleProfileSave(e: Event) {
     const companyAddress = (form.querySelector('#company-address-input') as HTMLTextAreaElement).value;
     const logoInput = form.querySelector('#logo-input') as HTMLInputElement;
 
-    const currentProfile = getProfileData() || { companyName: '', companyAddress: '', logoDataUrl: '' };
+    const currentProfile = await storage.getProfile() || { companyName: '', companyAddress: '', logoDataUrl: '' };
     const file = logoInput.files?.[0];
     
     setButtonLoadingState(button, true, 'Saving...');
 
-    const onSaveSuccess = (newProfile: Profile) => {
-        saveProfileData(newProfile);
+    const onSaveSuccess = async (newProfile: Profile) => {
+        try {
+            await storage.putProfile(newProfile);
+        } catch (error) {
+            setButtonLoadingState(button, false, '');
+            alertStorageError(error, 'save your profile');
+            return;
+        }
         const originalText = button.dataset.originalText || 'Save Profile';
         button.innerHTML = 'Saved!';
         // Keep it disabled for the confirmation message
@@ -1063,270 +3080,1815 @@ function handleProfileSave(e: Event) {
 
 
 /**
- * Handles the submission of the address form.
+ * Handles saving the material coverage settings.
  * @param e The form submission event.
  */
-async function handleAddressSubmit(e: Event) {
+function handleMaterialSettingsSave(e: Event) {
     e.preventDefault();
     const form = e.target as HTMLFormElement;
-    const input = form.querySelector('#address-input') as HTMLInputElement;
-    const templateSelect = form.querySelector('#template-select') as HTMLSelectElement;
     const button = form.querySelector('button[type="submit"]') as HTMLButtonElement;
-    const address = input.value.trim();
-    const templateId = templateSelect.value ? Number(templateSelect.value) : undefined;
+    const settings = getMaterialSettings();
+
+    form.querySelectorAll<HTMLDivElement>('.settings-product-row').forEach(row => {
+        const key = row.dataset.key as keyof MaterialSettings['products'];
+        const name = (row.querySelector('.product-name-input') as HTMLInputElement).value.trim();
+        const coverage = parseFloat((row.querySelector('.product-coverage-input') as HTMLInputElement).value);
+        settings.products[key] = {
+            name: name || settings.products[key].name,
+            coverage: coverage > 0 ? coverage : settings.products[key].coverage,
+        };
+    });
+    const eaveWidth = parseFloat((form.querySelector('#ice-water-width-input') as HTMLInputElement).value);
+    settings.iceAndWaterEaveWidth = eaveWidth >= 0 ? eaveWidth : settings.iceAndWaterEaveWidth;
+    const valleyWidth = parseFloat((form.querySelector('#ice-water-valley-width-input') as HTMLInputElement).value);
+    settings.iceAndWaterValleyWidth = valleyWidth >= 0 ? valleyWidth : settings.iceAndWaterValleyWidth;
 
-    if (!address) {
-        alert('Please enter a valid address.');
+    saveMaterialSettings(settings);
+    button.innerHTML = 'Saved!';
+    setTimeout(() => {
+        button.innerHTML = 'Save Settings';
+    }, 1500);
+}
+
+
+/**
+ * Handles saving the price book.
+ * @param e The form submission event.
+ */
+function handlePriceBookSave(e: Event) {
+    e.preventDefault();
+    const form = e.target as HTMLFormElement;
+    const button = form.querySelector('button[type="submit"]') as HTMLButtonElement;
+    const numberValue = (selector: string) => parseFloat((form.querySelector(selector) as HTMLInputElement).value) || 0;
+    const priceBook = getPriceBook();
+
+    form.querySelectorAll<HTMLInputElement>('.material-price-input').forEach(input => {
+        priceBook.materialPrices[input.dataset.key as keyof PriceBook['materialPrices']] = parseFloat(input.value) || 0;
+    });
+    const readTiers = (kind: 'pitch' | 'story'): SurchargeTier[] =>
+        [...form.querySelectorAll<HTMLDivElement>(`.surcharge-tier-row[data-kind="${kind}"]`)]
+            .map(row => ({
+                threshold: parseFloat((row.querySelector('.tier-threshold-input') as HTMLInputElement).value) || 0,
+                ratePerSquare: parseFloat((row.querySelector('.tier-rate-input') as HTMLInputElement).value) || 0,
+            }))
+            .filter(tier => tier.threshold > 0 && tier.ratePerSquare > 0)
+            .sort((a, b) => a.threshold - b.threshold);
+
+    priceBook.installRatePerSquare = numberValue('#install-rate-input');
+    priceBook.tearOffRatePerSquare = numberValue('#tear-off-rate-input');
+    priceBook.pitchSurcharges = readTiers('pitch');
+    priceBook.storySurcharges = readTiers('story');
+    priceBook.overheadPercent = numberValue('#overhead-input');
+    priceBook.markupPercent = numberValue('#markup-input');
+    priceBook.taxPercent = numberValue('#tax-input');
+
+    savePriceBook(priceBook);
+    button.innerHTML = 'Saved!';
+    setTimeout(() => {
+        renderSettingsView();
+    }, 1500);
+}
+
+
+/**
+ * Handles saving the insurance claim codes and default estimate percentages.
+ * @param e The form submission event.
+ */
+function handleClaimCodeBookSave(e: Event) {
+    e.preventDefault();
+    const form = e.target as HTMLFormElement;
+    const button = form.querySelector('button[type="submit"]') as HTMLButtonElement;
+    const numberValue = (selector: string) => parseFloat((form.querySelector(selector) as HTMLInputElement).value) || 0;
+    const optionalNumber = (input: HTMLInputElement) => (input.value.trim() === '' ? undefined : parseFloat(input.value));
+
+    const codes: ClaimCode[] = [...form.querySelectorAll<HTMLDivElement>('.claim-code-row')]
+        .map(row => {
+            const field = (selector: string) => row.querySelector(selector) as HTMLInputElement;
+            const code: ClaimCode = {
+                code: field('.claim-code-input').value.trim(),
+                description: field('.claim-description-input').value.trim(),
+                unit: field('.claim-unit-select').value as ClaimCode['unit'],
+                basis: field('.claim-basis-select').value as ClaimQuantityBasis,
+                unitPrice: parseFloat(field('.claim-price-input').value) || 0,
+            };
+            if (code.basis === 'steepSquares') {
+                code.minPitch = optionalNumber(field('.claim-min-pitch-input'));
+                code.maxPitch = optionalNumber(field('.claim-max-pitch-input'));
+            }
+            return code;
+        })
+        .filter(code => code.code);
+    if (new Set(codes.map(code => code.code)).size !== codes.length) {
+        alert('Each claim code can only be listed once.');
+        return;
+    }
+
+    saveClaimCodeBook({
+        codes,
+        depreciationPercent: numberValue('#claim-depreciation-input'),
+        overheadPercent: numberValue('#claim-overhead-input'),
+        profitPercent: numberValue('#claim-profit-input'),
+        taxPercent: numberValue('#claim-tax-input'),
+    });
+    button.innerHTML = 'Saved!';
+    setTimeout(() => {
+        renderSettingsView();
+    }, 1500);
+}
+
+/**
+ * Handles saving the chosen measurement provider.
+ * @param e The form submission event.
+ */
+function handleMeasurementProviderSave(e: Event) {
+    e.preventDefault();
+    const form = e.target as HTMLFormElement;
+    const button = form.querySelector('button[type="submit"]') as HTMLButtonElement;
+    saveMeasurementProvider((form.querySelector('#measurement-provider-select') as HTMLSelectElement).value);
+    button.innerHTML = 'Saved!';
+    setTimeout(() => {
+        renderSettingsView();
+    }, 1500);
+}
+
+/**
+ * Downloads the whole workspace as a single backup file.
+ */
+async function handleExportBackup() {
+    const button = document.getElementById('export-backup-btn') as HTMLButtonElement;
+    setButtonLoadingState(button, true, 'Preparing...');
+    try {
+        const backup = createBackup({
+            reports: await getReportHistory(),
+            templates: await storage.getTemplates(),
+            customers: await storage.getCustomers(),
+            revisions: await storage.getAllRevisions(),
+            profile: await storage.getProfile(),
+            materialSettings: getMaterialSettings(),
+            priceBook: getPriceBook(),
+            claimCodeBook: getClaimCodeBook(),
+        });
+        downloadFile(backup, backupFileName(), 'application/json');
+    } catch (error) {
+        console.error('Failed to create backup:', error);
+        alert('Sorry, we could not create the backup. Please try again.');
+    } finally {
+        setButtonLoadingState(button, false, '');
+    }
+}
+
+/**
+ * Restores a backup file, merging it into or replacing the current workspace.
+ * @param e The restore form submission event.
+ */
+async function handleRestoreBackup(e: Event) {
+    e.preventDefault();
+    const form = e.target as HTMLFormElement;
+    const button = form.querySelector('button[type="submit"]') as HTMLButtonElement;
+    const file = (form.querySelector('#backup-file-input') as HTMLInputElement).files?.[0];
+    const mode = (form.querySelector('input[name="restore-mode"]:checked') as HTMLInputElement).value as RestoreMode;
+    if (!file) return;
+
+    let backup: WorkspaceBackup;
+    try {
+        backup = parseBackup(await file.text());
+    } catch (error) {
+        console.error('Failed to read backup:', error);
+        alert(error instanceof BackupError ? error.message : 'Sorry, we could not read that file.');
+        return;
+    }
+
+    let existing: ExistingWorkspace;
+    try {
+        existing = {
+            reports: await getReportHistory(),
+            templates: await storage.getTemplates(),
+            customers: await storage.getCustomers(),
+            revisions: await storage.getAllRevisions(),
+            profile: await storage.getProfile(),
+        };
+    } catch (error) {
+        alertStorageError(error, 'read the current workspace');
+        return;
+    }
+    if (mode === 'replace' && !confirm(
+        `Replace ${existing.reports.length} report(s), ${existing.templates.length} template(s) and ${existing.customers.length} customer(s) `
+        + `on this computer with the ${backup.reports.length} report(s), ${backup.templates.length} template(s) and `
+        + `${backup.customers.length} customer(s) in this backup? This cannot be undone.`,
+    )) {
+        return;
+    }
+
+    setButtonLoadingState(button, true, 'Restoring...');
+    const plan = planRestore(existing, backup, mode);
+    try {
+        await storage.importWorkspace(plan, mode === 'replace');
+    } catch (error) {
+        setButtonLoadingState(button, false, '');
+        alertStorageError(error, 'restore the backup');
+        return;
+    }
+    if (plan.materialSettings) saveMaterialSettings(resolveMaterialSettings(plan.materialSettings));
+    if (plan.priceBook) savePriceBook(resolvePriceBook(plan.priceBook));
+    if (plan.claimCodeBook) saveClaimCodeBook(resolveClaimCodeBook(plan.claimCodeBook));
+
+    const notes = [
+        plan.duplicates > 0 ? `${plan.duplicates} item(s) were already here and were skipped.` : '',
+        plan.renumbered > 0 ? `${plan.renumbered} item(s) were given new IDs to avoid clashing with existing ones.` : '',
+    ].filter(Boolean);
+    alert([
+        `Restored ${plan.reports.length} report(s), ${plan.templates.length} template(s) and ${plan.customers.length} customer(s).`,
+        ...notes,
+    ].join('\n'));
+
+    historyNavLink.classList.toggle('hidden', (await storage.countReports()) === 0);
+    renderSettingsView();
+}
+
+/**
+ * Handles the submission of the address form.
+ * @param e The form submission event.
+ */
+async function handleAddressSubmit(e: Event) {
+    e.preventDefault();
+    const form = e.target as HTMLFormElement;
+    const input = form.querySelector('#address-input') as HTMLInputElement;
+    const templateSelect = form.querySelector('#template-select') as HTMLSelectElement;
+    const button = form.querySelector('button[type="submit"]') as HTMLButtonElement;
+    const address = input.value.trim();
+    const templateId = templateSelect.value ? Number(templateSelect.value) : undefined;
+
+    if (!address) {
+        alert('Please enter a valid address.');
         return;
     }
+    const customerChoice = readCustomerPicker(form);
+    if (!customerChoice) return;
     
     setButtonLoadingState(button, true, 'Generating...');
     renderLoadingView();
 
     try {
-        const { imageUrl, measurements } = await getRoofReport(address);
-        const newReport = saveReportToHistory({ address, imageUrl, measurements, templateId });
-        renderReportView(newReport);
+        const provider = getMeasurementProvider();
+        const { imageUrl, measurements, unparsedMeasurements } = await provider.getRoofReport(address);
+        const source: ReportSource = { measurements: 'provider', image: provider.imagery, providerName: provider.name };
+        const customerId = await saveCustomerChoice(customerChoice);
+        const newReport = await saveReportToHistory({ address, imageUrl, measurements, unparsedMeasurements, templateId, customerId, source });
+        navigate({ name: 'report', reportId: newReport.id });
+    } catch (error) {
+        if (error instanceof StorageQuotaError) {
+            alertStorageError(error, 'save the report');
+        } else {
+            console.error('Failed to get roof report:', error);
+            alert('Sorry, we could not generate a report for that address. Please try again.');
+        }
+        renderAddressInput(); // Go back to the input form on error
+    }
+}
+
+/**
+ * Handles the submission of the manual report form.
+ * @param e The form submission event.
+ */
+async function handleManualReportSubmit(e: Event) {
+    e.preventDefault();
+    const form = e.target as HTMLFormElement;
+    const addressInput = form.querySelector('#manual-address-input') as HTMLInputElement;
+    const templateSelect = form.querySelector('#manual-template-select') as HTMLSelectElement;
+    const wasteInput = form.querySelector('#manual-wasteFactor') as HTMLInputElement;
+    const imageFile = (form.querySelector('#manual-image-input') as HTMLInputElement).files?.[0];
+    const button = form.querySelector('button[type="submit"]') as HTMLButtonElement;
+    const address = addressInput.value.trim();
+    const templateId = templateSelect.value ? Number(templateSelect.value) : undefined;
+
+    setInputError(addressInput, address ? null : 'Property address is required.');
+    const measurements: Partial<Measurements> = {};
+    let firstInvalid: HTMLInputElement | null = address ? null : addressInput;
+    form.querySelectorAll<HTMLInputElement>('.manual-measurement-input').forEach(input => {
+        const key = input.dataset.key as MeasurementKey;
+        // A blank waste factor is calculated from the roof; one entered here overrides it
+        if (key === 'wasteFactor' && !input.value.trim()) {
+            setInputError(input, null);
+            measurements.wasteFactor = { value: 0, unit: '%' };
+            return;
+        }
+        const value = validateMeasurementInput(input, key);
+        if (value === null) {
+            firstInvalid = firstInvalid || input;
+        } else {
+            (measurements as Record<MeasurementKey, unknown>)[key] = value;
+        }
+    });
+    if (firstInvalid) {
+        (firstInvalid as HTMLInputElement).focus();
+        return;
+    }
+    const customerChoice = readCustomerPicker(form);
+    if (!customerChoice) return;
+
+    setButtonLoadingState(button, true, 'Creating...');
+    let imageUrl = '';
+    if (imageFile) {
+        try {
+            imageUrl = await readUploadedImage(imageFile);
+        } catch (error) {
+            console.error('Failed to read image:', error);
+            setButtonLoadingState(button, false, '');
+            alert('That image could not be read. Please choose a JPEG, PNG or WebP file.');
+            return;
+        }
+    }
+
+    try {
+        const newReport = await saveReportToHistory({
+            address,
+            imageUrl,
+            measurements: measurements as Measurements,
+            wasteOverride: wasteInput.value.trim()
+                ? { percent: measurements.wasteFactor!.value, reason: 'Entered with the manual measurements', overriddenAt: new Date().toISOString() }
+                : undefined,
+            templateId,
+            customerId: await saveCustomerChoice(customerChoice),
+            source: { measurements: 'manual', image: imageUrl ? 'uploaded' : 'none' },
+        });
+        navigate({ name: 'report', reportId: newReport.id });
+    } catch (error) {
+        setButtonLoadingState(button, false, '');
+        alertStorageError(error, 'save the report');
+    }
+}
+
+/**
+ * Replaces a report's image with a photo or orthomosaic uploaded by the estimator.
+ * A tracing drawn over the old image no longer lines up, so it is removed.
+ * @param report The report to update.
+ * @param file The uploaded image.
+ */
+async function handleReplaceReportImage(report: Report, file: File) {
+    if (report.tracing && !confirm('Replacing the image removes the roof tracing drawn over the current one. Continue?')) {
+        return;
+    }
+    let imageUrl: string;
+    try {
+        imageUrl = await readUploadedImage(file);
+    } catch (error) {
+        console.error('Failed to read image:', error);
+        alert('That image could not be read. Please choose a JPEG, PNG or WebP file.');
+        return;
+    }
+    const updatedReport: Report = {
+        ...report,
+        imageUrl,
+        tracing: undefined,
+        source: { ...reportSource(report), image: 'uploaded' },
+    };
+    try {
+        await storage.putReport(updatedReport);
+    } catch (error) {
+        alertStorageError(error, 'save the new image');
+        return;
+    }
+    renderReportView(updatedReport);
+}
+
+/**
+ * Adds photos to the report's photo log. Each is downsized before saving so a full
+ * inspection's worth of photos stays within the browser's storage.
+ * @param report The report to add to.
+ * @param files The chosen or captured image files.
+ * @param source Whether the files came from the file picker or the camera.
+ */
+async function handleAddPhotos(report: Report, files: File[], source: ReportPhoto['source']) {
+    if (files.length === 0) return;
+    const added: ReportPhoto[] = [];
+    for (const file of files) {
+        try {
+            const dataUrl = await shrinkImageDataUrl(await readFileAsDataUrl(file), 1600, 0.85);
+            // A camera capture is taken just now; a chosen file's modified time is the best guess we have
+            added.push(createPhoto(dataUrl, source, source === 'camera' ? new Date() : new Date(file.lastModified || Date.now())));
+        } catch (error) {
+            console.error('Failed to read photo:', error);
+            alert(`"${file.name}" could not be read. Please choose JPEG, PNG or WebP images.`);
+        }
+    }
+    if (added.length === 0) return;
+    await savePhotoLog(report, [...(report.photos || []), ...added], 'save the photos');
+}
+
+/**
+ * Saves a caption or category change. The view isn't re-rendered so the user can move
+ * straight on to the next caption.
+ */
+async function handleUpdatePhoto(report: Report, photoId: string, changes: Partial<Pick<ReportPhoto, 'caption' | 'category'>>) {
+    const photos = (report.photos || []).map(photo => (photo.id === photoId ? { ...photo, ...changes } : photo));
+    try {
+        await storage.putReport({ ...report, photos });
+    } catch (error) {
+        alertStorageError(error, 'save the photo details');
+        return;
+    }
+    // Other handlers of this view hold the same report object, so keep it current
+    report.photos = photos;
+}
+
+/**
+ * Saves the roof type chosen in the report view and redraws the plan diagram for it.
+ * @param report The report being viewed.
+ * @param roofType The chosen roof type.
+ * @returns Whether the roof type was saved.
+ */
+async function handleUpdateRoofType(report: Report, roofType: RoofType): Promise<boolean> {
+    try {
+        await storage.putReport({ ...report, roofType });
+    } catch (error) {
+        alertStorageError(error, 'save the roof type');
+        return false;
+    }
+    report.roofType = roofType;
+    document.querySelector('.roof-type-picker .measurement-note')?.remove();
+    const plan = document.querySelector('.roof-plan');
+    if (plan) plan.innerHTML = createRoofVisualizationSVG(report.measurements, roofType);
+    return true;
+}
+
+/**
+ * How many stories of wall to draw under the 3D roof, from the quote or estimate if either asked.
+ */
+function reportStories(report: Report): number {
+    return report.estimate?.stories || report.quote?.options.stories || 1;
+}
+
+/**
+ * Wires up the plan/3D toggle and the 3D roof preview: drag to orbit, scroll or pinch to
+ * zoom, and save the current angle for the PDF.
+ * @param report The report being viewed; its roof type is read on every redraw.
+ * @returns A function to redraw the preview, e.g. after the roof type changes.
+ */
+function setupRoofPreview(report: Report) {
+    const canvas = document.getElementById('roof-preview-canvas') as HTMLCanvasElement;
+    const context = canvas.getContext('2d');
+    const legend = document.getElementById('roof-pitch-legend') as HTMLDivElement;
+    let angle: RoofViewAngle = report.viewAngle || DEFAULT_VIEW_ANGLE;
+
+    const redraw = () => {
+        const previewHidden = canvas.closest('.roof-preview')?.classList.contains('hidden');
+        if (!context || previewHidden) return;
+        // Match the canvas to its displayed size so the drawing stays sharp
+        const ratio = window.devicePixelRatio || 1;
+        canvas.width = Math.round(canvas.clientWidth * ratio);
+        canvas.height = Math.round(canvas.clientHeight * ratio);
+        const model = buildRoofModel(report.measurements, report.roofType);
+        drawRoofPreview(context, model, angle, reportStories(report));
+        legend.innerHTML = modelPitches(model).map(pitch => `
+            <span class="roof-pitch-swatch"><span style="background-color: ${pitchColor(pitch)}"></span>${formatNumber(pitch)}/12</span>
+        `).join('');
+    };
+
+    document.querySelectorAll<HTMLButtonElement>('.roof-view-btn').forEach(button => {
+        button.addEventListener('click', () => {
+            const showPreview = button.dataset.view === 'preview';
+            document.querySelectorAll<HTMLButtonElement>('.roof-view-btn').forEach(other => {
+                other.classList.toggle('active', other === button);
+                other.setAttribute('aria-pressed', String(other === button));
+            });
+            document.querySelector('.roof-plan')?.classList.toggle('hidden', showPreview);
+            document.querySelector('.roof-preview')?.classList.toggle('hidden', !showPreview);
+            redraw();
+        });
+    });
+
+    // Dragging orbits the camera; two pointers pinch to zoom
+    const pointers = new Map<number, { x: number; y: number }>();
+    const pinchDistance = () => {
+        const [a, b] = [...pointers.values()];
+        return Math.hypot(a.x - b.x, a.y - b.y);
+    };
+    canvas.addEventListener('pointerdown', e => {
+        canvas.setPointerCapture(e.pointerId);
+        pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    });
+    canvas.addEventListener('pointermove', e => {
+        const last = pointers.get(e.pointerId);
+        if (!last) return;
+        if (pointers.size === 2) {
+            const before = pinchDistance();
+            pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+            angle = clampViewAngle({ ...angle, zoom: angle.zoom * (pinchDistance() / (before || 1)) });
+        } else {
+            angle = clampViewAngle({ ...angle, yaw: angle.yaw - (e.clientX - last.x) * 0.5, tilt: angle.tilt + (e.clientY - last.y) * 0.5 });
+            pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+        }
+        redraw();
+    });
+    const releasePointer = (e: PointerEvent) => pointers.delete(e.pointerId);
+    canvas.addEventListener('pointerup', releasePointer);
+    canvas.addEventListener('pointercancel', releasePointer);
+    canvas.addEventListener('wheel', e => {
+        e.preventDefault();
+        angle = clampViewAngle({ ...angle, zoom: angle.zoom * Math.exp(-e.deltaY * 0.001) });
+        redraw();
+    }, { passive: false });
+
+    document.getElementById('reset-roof-view-btn')?.addEventListener('click', () => {
+        angle = DEFAULT_VIEW_ANGLE;
+        redraw();
+    });
+    document.getElementById('save-roof-view-btn')?.addEventListener('click', async e => {
+        const button = e.currentTarget as HTMLButtonElement;
+        try {
+            await storage.putReport({ ...report, viewAngle: angle });
+        } catch (error) {
+            alertStorageError(error, 'save the 3D view');
+            return;
+        }
+        report.viewAngle = angle;
+        button.textContent = 'Saved!';
+        setTimeout(() => { button.textContent = 'Use This View in PDF'; }, 1500);
+    });
+
+    return { redraw };
+}
+
+/**
+ * Saves the report's site access notes. Like photo captions, the view isn't re-rendered.
+ */
+async function handleUpdateAccessNotes(report: Report, accessNotes: string) {
+    try {
+        await storage.putReport({ ...report, accessNotes });
+    } catch (error) {
+        alertStorageError(error, 'save the access notes');
+        return;
+    }
+    report.accessNotes = accessNotes;
+}
+
+async function handleMovePhoto(report: Report, photoId: string, toIndex: number) {
+    await savePhotoLog(report, movePhoto(report.photos || [], photoId, toIndex), 'reorder the photos');
+}
+
+async function handleRemovePhoto(report: Report, photoId: string) {
+    if (!confirm('Remove this photo from the report?')) return;
+    await savePhotoLog(report, (report.photos || []).filter(photo => photo.id !== photoId), 'remove the photo');
+}
+
+/**
+ * Saves a new photo list for the report and re-renders the report view.
+ * @param action What was being done, for the error message.
+ */
+async function savePhotoLog(report: Report, photos: ReportPhoto[], action: string) {
+    const updatedReport: Report = { ...report, photos };
+    try {
+        await storage.putReport(updatedReport);
+    } catch (error) {
+        alertStorageError(error, action);
+        return;
+    }
+    renderReportView(updatedReport);
+}
+
+/**
+ * Toggles the report view between showing static text and editable input fields.
+ * @param isEditing True to switch to edit mode, false to switch back.
+ * @param report The report data object.
+ * @param template The report's template, whose custom sections become editable.
+ * @param customers The customers the report can be linked to.
+ */
+function handleToggleEditMode(isEditing: boolean, report: Report, template: Template | null, customers: Customer[]) {
+    const tableCells = document.querySelectorAll('.measurements-table td[data-key]');
+    const actionsContainer = document.querySelector('.report-actions');
+    const customSectionsContainer = document.querySelector('.custom-sections-container');
+    
+    if (isEditing && actionsContainer) {
+        // Every total is rolled up from the facets, and the waste factor is set in its own section
+        tableCells.forEach(cell => cell.classList.add('derived-measurement'));
+
+        renderFacetEditor(report);
+
+        const customerLine = document.querySelector('.report-customer');
+        if (customerLine) {
+            customerLine.innerHTML = `
+                <label>Prepared for
+                    <select id="report-customer-select">
+                        <option value="">No customer</option>
+                        ${customers.map(c => `<option value="${c.id}" ${c.id === report.customerId ? 'selected' : ''}>${escapeHtml(c.name)}</option>`).join('')}
+                    </select>
+                </label>
+            `;
+        }
+
+        if (template && customSectionsContainer) {
+            const contentDivs = customSectionsContainer.querySelectorAll<HTMLDivElement>('.custom-section-content');
+            contentDivs.forEach(div => {
+                const section = template.customSections.find(s => s.id === div.dataset.sectionId);
+                if (section) div.innerHTML = createSectionFieldHtml(section, report.customData?.[section.id]);
+            });
+        }
+
+        actionsContainer.innerHTML = `
+            <button id="cancel-edit-btn" class="btn btn-secondary btn-large">Cancel</button>
+            <button id="save-changes-btn" class="btn btn-primary btn-large">Save Changes</button>
+        `;
+        document.getElementById('save-changes-btn')?.addEventListener('click', () => handleSaveChanges(report));
+        document.getElementById('cancel-edit-btn')?.addEventListener('click', () => renderReportView(report));
+    }
+}
+
+/**
+ * Which measurement parser validates each facet input.
+ */
+const FACET_FIELD_KEYS: Record<'planArea' | 'pitch' | EdgeKind, MeasurementKey> = {
+    planArea: 'totalArea',
+    pitch: 'pitch',
+    ridge: 'ridges',
+    hip: 'hips',
+    valley: 'valleys',
+    eave: 'eaves',
+    rake: 'rakes',
+};
+
+/**
+ * Creates one editable row of the facet table.
+ * @param facet The facet to edit.
+ * @returns A table row element with inputs for each facet field.
+ */
+function createFacetEditorRow(facet: RoofFacet): HTMLTableRowElement {
+    const row = document.createElement('tr');
+    row.dataset.facetId = facet.id;
+    const cell = (field: string, value: string, label: string) => `
+        <td>
+            <input type="text" class="measurement-input facet-input" data-field="${field}" value="${escapeHtml(value)}" aria-label="${escapeHtml(label)}" />
+            <span class="measurement-error hidden" role="alert"></span>
+        </td>
+    `;
+    row.innerHTML = `
+        ${cell('name', facet.name, 'Facet name')}
+        ${cell('pitch', formatMeasurement('pitch', facet.pitch), `${facet.name} pitch`)}
+        ${cell('planArea', `${formatNumber(facet.planArea)} sq ft`, `${facet.name} plan area`)}
+        <td class="facet-sloped-area">${formatNumber(slopedArea(facet))} sq ft</td>
+        ${EDGE_KINDS.map(kind => cell(kind, `${formatNumber(facet.edges[kind])} ft`, `${facet.name} ${EDGE_LABELS[kind]}`)).join('')}
+        <td><button type="button" class="btn-remove-section remove-facet-btn" aria-label="Remove facet">&times;</button></td>
+    `;
+    return row;
+}
+
+/**
+ * Switches the facet table into edit mode, with live recalculation of the rolled-up totals.
+ * @param report The report being edited.
+ */
+function renderFacetEditor(report: Report) {
+    const table = document.querySelector<HTMLTableElement>('.facets-table');
+    if (!table) return;
+    const headRow = table.querySelector('thead tr');
+    headRow?.insertAdjacentHTML('beforeend', '<th></th>');
+    table.querySelector('tfoot')?.remove();
+
+    const tbody = table.querySelector('tbody') as HTMLTableSectionElement;
+    tbody.innerHTML = '';
+    report.facets.forEach(facet => tbody.appendChild(createFacetEditorRow(facet)));
+
+    table.insertAdjacentHTML('afterend', `
+        <button type="button" id="add-facet-btn" class="btn btn-secondary">+ Add Facet</button>
+    `);
+
+    const refreshTotals = () => {
+        const facets = readFacetEditorRows(false) || [];
+        facets.forEach(facet => {
+            const slopedCell = tbody.querySelector(`tr[data-facet-id="${facet.id}"] .facet-sloped-area`);
+            if (slopedCell) slopedCell.textContent = `${formatNumber(slopedArea(facet))} sq ft`;
+        });
+        const { measurements: derived } = withWasteFactor({ ...report, facets, measurements: deriveMeasurementsFromFacets(facets, report.measurements) });
+        const unparsed = stillUnparsed(report, derived);
+        document.querySelectorAll<HTMLElement>('.measurements-table td.derived-measurement').forEach(cell => {
+            const key = cell.dataset.key as MeasurementKey;
+            const valueSpan = cell.querySelector('.measurement-value');
+            if (valueSpan) valueSpan.textContent = unparsed[key] !== undefined ? 'N/A' : formatMeasurement(key, derived[key]);
+            cell.querySelector('.measurement-note')?.remove();
+            cell.querySelectorAll('.measurement-warning').forEach(warning => warning.remove());
+        });
+        // Check the totals as they'll be saved, so problems show up while editing
+        const accepted = new Set(report.acceptedWarnings || []);
+        checkMeasurements(derived, unparsed).forEach(warning => {
+            document.querySelector(`.measurements-table td[data-key="${warning.key}"]`)
+                ?.insertAdjacentHTML('beforeend', createMeasurementWarningHtml(warning, accepted.has(warning.id), false));
+        });
+        document.querySelector('.measurement-checks-summary')?.remove();
+    };
+
+    tbody.addEventListener('input', refreshTotals);
+    tbody.addEventListener('focusout', e => {
+        const input = e.target as HTMLInputElement;
+        if (input.classList.contains('facet-input')) validateFacetInput(input);
+    });
+    tbody.addEventListener('click', e => {
+        const button = (e.target as HTMLElement).closest('.remove-facet-btn');
+        if (button && tbody.rows.length > 1) {
+            button.closest('tr')?.remove();
+            refreshTotals();
+        }
+    });
+    document.getElementById('add-facet-btn')?.addEventListener('click', () => {
+        const facet = createFacet(`Facet ${tbody.rows.length + 1}`, report.measurements.pitch);
+        const row = createFacetEditorRow(facet);
+        tbody.appendChild(row);
+        (row.querySelector('[data-field="planArea"]') as HTMLInputElement).select();
+        refreshTotals();
+    });
+    refreshTotals();
+}
+
+type FacetField = keyof typeof FACET_FIELD_KEYS | 'name';
+
+/**
+ * Parses the text of one facet input. Blank edge lengths count as zero.
+ * @throws MeasurementParseError if the text can't be understood.
+ */
+function parseFacetField(field: FacetField, text: string): string | number | Measurements['pitch'] {
+    if (field === 'name') {
+        return text.trim() || 'Unnamed Facet';
+    }
+    if (!text.trim()) {
+        if (field === 'planArea') throw new MeasurementParseError('totalArea', text, 'Plan area is required.');
+        if (field !== 'pitch') return 0;
+    }
+    const parsed = parseMeasurementValue(FACET_FIELD_KEYS[field], text);
+    return 'value' in parsed ? parsed.value : parsed;
+}
+
+/**
+ * Reads the facet editor rows back into facet objects.
+ * @param strict True to flag invalid inputs and return null if any exist; false to skip invalid rows silently.
+ * @returns The facets, or null if strict validation failed.
+ */
+function readFacetEditorRows(strict: boolean): RoofFacet[] | null {
+    const facets: RoofFacet[] = [];
+    let firstInvalid: HTMLInputElement | null = null;
+
+    document.querySelectorAll<HTMLTableRowElement>('.facets-table tbody tr').forEach(row => {
+        const facet = createFacet('', { rise: 0, run: 12 });
+        facet.id = row.dataset.facetId || facet.id;
+        let rowValid = true;
+
+        row.querySelectorAll<HTMLInputElement>('.facet-input').forEach(input => {
+            const field = input.dataset.field as FacetField;
+            const value = strict ? validateFacetInput(input) : (() => {
+                try {
+                    return parseFacetField(field, input.value);
+                } catch {
+                    return null;
+                }
+            })();
+            if (value === null) {
+                rowValid = false;
+                firstInvalid = firstInvalid || input;
+                return;
+            }
+            if (field === 'name') facet.name = value as string;
+            else if (field === 'pitch') facet.pitch = value as Measurements['pitch'];
+            else if (field === 'planArea') facet.planArea = value as number;
+            else facet.edges[field] = value as number;
+        });
+
+        if (rowValid) facets.push(facet);
+    });
+
+    if (strict && firstInvalid) {
+        (firstInvalid as HTMLInputElement).focus();
+        return null;
+    }
+    return facets;
+}
+
+/**
+ * Shows or clears the validation message beside an edit-mode input.
+ * @param input The input element.
+ * @param message The error to show, or null to clear it.
+ */
+function setInputError(input: HTMLInputElement, message: string | null) {
+    const errorEl = input.parentElement?.querySelector('.measurement-error');
+    input.classList.toggle('invalid', message !== null);
+    if (errorEl) {
+        errorEl.textContent = message || '';
+        errorEl.classList.toggle('hidden', message === null);
+    }
+}
+
+/**
+ * Checks one facet input and shows any error beside it.
+ * @param input The facet input element.
+ * @returns The parsed value, or null if the text is invalid.
+ */
+function validateFacetInput(input: HTMLInputElement): ReturnType<typeof parseFacetField> | null {
+    try {
+        const value = parseFacetField(input.dataset.field as FacetField, input.value);
+        setInputError(input, null);
+        return value;
+    } catch (error) {
+        if (!(error instanceof MeasurementParseError)) throw error;
+        setInputError(input, error.message);
+        return null;
+    }
+}
+
+/**
+ * Checks one edit-mode input against the measurement model and shows any error beside it.
+ * @param input The measurement input element.
+ * @param key The measurement the input edits.
+ * @returns The parsed value, or null if the text is invalid.
+ */
+function validateMeasurementInput<K extends MeasurementKey>(input: HTMLInputElement, key: K): Measurements[K] | null {
+    try {
+        const value = parseMeasurementValue(key, input.value);
+        setInputError(input, null);
+        return value;
+    } catch (error) {
+        if (!(error instanceof MeasurementParseError)) throw error;
+        setInputError(input, error.message);
+        return null;
+    }
+}
+
+/**
+ * The report's unreadable values whose measurement an edit left unchanged. Those still hold
+ * the zero put in their place, so they stay flagged.
+ * @param report The report before the edit.
+ * @param measurements The measurements after it.
+ */
+function stillUnparsed(report: Report, measurements: Measurements): Partial<RawMeasurements> {
+    return Object.fromEntries(Object.entries(report.unparsedMeasurements || {})
+        .filter(([key]) => JSON.stringify(measurements[key as MeasurementKey]) === JSON.stringify(report.measurements[key as MeasurementKey])));
+}
+
+/**
+ * Saves the edited facets, customer and custom sections. Every measurement total is
+ * recalculated from the facets; a saved value that couldn't be read stays flagged until the
+ * edit gives it a new value.
+ * @param originalReport The report object before edits.
+ */
+async function handleSaveChanges(originalReport: Report) {
+    const saveButton = document.getElementById('save-changes-btn') as HTMLButtonElement;
+
+    const facets = readFacetEditorRows(true);
+    if (!facets) return;
+
+    if (saveButton) {
+        setButtonLoadingState(saveButton, true, 'Saving...');
+    }
+
+    const newCustomData: Record<string, SectionValue> = { ...originalReport.customData };
+    document.querySelectorAll<HTMLElement>('.custom-section-field').forEach(field => {
+        newCustomData[field.dataset.sectionId!] = readSectionField(field);
+    });
+
+    const customerSelect = document.getElementById('report-customer-select') as HTMLSelectElement | null;
+    const customerId = customerSelect ? (customerSelect.value ? Number(customerSelect.value) : undefined) : originalReport.customerId;
+
+    const measurements = deriveMeasurementsFromFacets(facets, originalReport.measurements);
+    const unparsedMeasurements = stillUnparsed(originalReport, measurements);
+    const updatedReport = withCurrentMeasurements(originalReport, {
+        ...originalReport,
+        customerId,
+        facets,
+        measurements,
+        customData: newCustomData,
+        unparsedMeasurements: Object.keys(unparsedMeasurements).length > 0 ? unparsedMeasurements : undefined
+    });
+
+    try {
+        await saveReportWithRevision(originalReport, updatedReport, 'Edited details');
+    } catch (error) {
+        if (saveButton) setButtonLoadingState(saveButton, false, '');
+        alertStorageError(error, 'save your changes');
+        return;
+    }
+    renderReportView(updatedReport); // Re-render with saved data
+}
+
+/**
+ * Builds a self-contained share link for the report and shows it in the share dialog.
+ * The image and logo are downsized so the link stays a practical length.
+ * @param report The report to share.
+ */
+async function handleShareReport(report: Report) {
+    const shareButton = document.getElementById('share-report-btn') as HTMLButtonElement;
+    setButtonLoadingState(shareButton, true, 'Creating link...');
+
+    try {
+        const profile = await storage.getProfile();
+        const template = await getReportTemplate(report);
+        const shared: SharedReport = {
+            version: SHARE_VERSION,
+            address: report.address,
+            imageUrl: report.imageUrl ? await shrinkImageDataUrl(report.imageUrl, 640, 0.7) : '',
+            source: reportSource(report),
+            timestamp: report.timestamp,
+            measurements: report.measurements,
+            facets: report.facets,
+            roofType: report.roofType,
+            tracing: report.tracing,
+            notes: (template?.customSections || [])
+                .map(section => ({ title: section.title, content: formatSectionValue(section, report.customData?.[section.id] ?? null) }))
+                .filter(note => note.content.trim()),
+            company: profile ? {
+                name: profile.companyName,
+                address: profile.companyAddress,
+                logoDataUrl: profile.logoDataUrl ? await shrinkImageDataUrl(profile.logoDataUrl, 160, 0.8) : '',
+            } : undefined,
+        };
+        const encoded = await encodeSharedReport(shared);
+        shareLinkInput.value = `${location.origin}${location.pathname}${routeToHash({ name: 'share', payload: encoded })}`;
+        copyLinkBtn.textContent = 'Copy Link';
+        shareModalOverlay.classList.remove('hidden');
+        shareLinkInput.select();
+    } catch (error) {
+        console.error('Failed to create share link:', error);
+        alert('Sorry, we could not create a share link for this report. Please try again.');
+    } finally {
+        setButtonLoadingState(shareButton, false, '');
+    }
+}
+
+/**
+ * Copies the share link to the clipboard.
+ */
+async function handleCopyShareLink() {
+    try {
+        await navigator.clipboard.writeText(shareLinkInput.value);
+    } catch {
+        shareLinkInput.select();
+        document.execCommand('copy');
+    }
+    copyLinkBtn.textContent = 'Copied!';
+}
+
+/**
+ * Calculates a quote for the report from the price book and saves it with the report.
+ * @param e The quote options form submission event.
+ * @param report The report to price.
+ */
+async function handleCalculateQuote(e: Event, report: Report) {
+    e.preventDefault();
+    const options: QuoteOptions = {
+        stories: Number((document.getElementById('quote-stories-select') as HTMLSelectElement).value),
+        tearOffLayers: Number((document.getElementById('quote-tear-off-select') as HTMLSelectElement).value),
+    };
+    const takeoff = calculateMaterialTakeoff(report.measurements, getMaterialSettings());
+    const quote: Quote = calculateQuote(report.measurements, report.facets, takeoff, getPriceBook(), options);
+    const updatedReport: Report = { ...report, quote };
+    try {
+        await storage.putReport(updatedReport);
+    } catch (error) {
+        alertStorageError(error, 'save the quote');
+        return;
+    }
+    await renderReportView(updatedReport);
+    document.querySelector('.quote-container')?.scrollIntoView({ block: 'start' });
+}
+
+/**
+ * Wires up the waste factor section of the report view: the product choice and the override.
+ */
+function setupWasteEventListeners(report: Report) {
+    const shingleSelect = document.getElementById('shingle-type-select') as HTMLSelectElement;
+    shingleSelect.addEventListener('change', () => {
+        saveWasteChange(report, { ...report, shingleType: shingleSelect.value as ShingleType }, 'Changed roofing product');
+    });
+    document.getElementById('waste-override-form')?.addEventListener('submit', e => {
+        e.preventDefault();
+        const percent = parseFloat((document.getElementById('waste-override-input') as HTMLInputElement).value);
+        const reason = (document.getElementById('waste-override-reason-input') as HTMLInputElement).value.trim();
+        if (!Number.isFinite(percent) || percent < 0 || percent > MAX_WASTE_PERCENT) {
+            alert(`Enter a waste factor between 0% and ${MAX_WASTE_PERCENT}%.`);
+            return;
+        }
+        if (!reason) {
+            alert('Please give a reason for overriding the calculated waste factor.');
+            return;
+        }
+        saveWasteChange(report, {
+            ...report,
+            wasteOverride: { percent, reason, overriddenAt: new Date().toISOString() },
+        }, 'Overrode waste factor');
+    });
+    document.getElementById('clear-waste-override-btn')?.addEventListener('click', () => {
+        saveWasteChange(report, { ...report, wasteOverride: undefined }, 'Used calculated waste factor');
+    });
+}
+
+/**
+ * Saves a change to how the waste factor is set, with the new factor applied to the quote
+ * and estimate, and redraws the report so every quantity that depends on it is updated.
+ * @param label What the change was, for the revision history.
+ */
+async function saveWasteChange(report: Report, updated: Report, label: string) {
+    const updatedReport = withCurrentMeasurements(report, updated);
+    try {
+        await saveReportWithRevision(report, updatedReport, label);
     } catch (error) {
-        console.error('Failed to get roof report:', error);
-        alert('Sorry, we could not generate a report for that address. Please try again.');
-        renderAddressInput(); // Go back to the input form on error
+        alertStorageError(error, 'save the waste factor');
+        return;
     }
+    await renderReportView(updatedReport);
+    document.querySelector('.waste-container')?.scrollIntoView({ block: 'start' });
 }
 
 /**
- * Toggles the report view between showing static text and editable input fields.
- * @param isEditing True to switch to edit mode, false to switch back.
- * @param report The report data object.
+ * Wires up the insurance estimate section of the report view.
  */
-function handleToggleEditMode(isEditing: boolean, report: Report) {
-    const tableCells = document.querySelectorAll('.measurements-table td[data-key]');
-    const actionsContainer = document.querySelector('.report-actions');
-    const customSectionsContainer = document.querySelector('.custom-sections-container');
-    
-    if (isEditing && actionsContainer) {
-        tableCells.forEach(cell => {
-            const key = cell.getAttribute('data-key') as keyof Measurements;
-            const value = report.measurements[key] || '';
-            const valueSpan = cell.querySelector('.measurement-value');
-            if(valueSpan) {
-                valueSpan.outerHTML = `<input type="text" class="measurement-input" value="${value}" />`;
-            }
+function setupEstimateEventListeners(report: Report, codeBook: ClaimCodeBook) {
+    const storiesValue = () => Number((document.getElementById('estimate-stories-select') as HTMLSelectElement).value);
+    document.getElementById('generate-estimate-btn')?.addEventListener('click', () => handleGenerateEstimate(report, codeBook, storiesValue()));
+
+    const form = document.getElementById('estimate-form') as HTMLFormElement | null;
+    if (!form || !report.estimate) return;
+    const estimate = report.estimate;
+    form.addEventListener('submit', e => {
+        e.preventDefault();
+        saveEstimate(report, readEstimateForm(form, estimate), 'save the estimate');
+    });
+    form.querySelectorAll('.remove-estimate-line-btn').forEach(button => {
+        button.addEventListener('click', () => {
+            const lineId = button.closest('tr')?.getAttribute('data-line-id');
+            const edited = readEstimateForm(form, estimate);
+            saveEstimate(report, { ...edited, lines: edited.lines.filter(line => line.id !== lineId) }, 'remove the line');
         });
-
-        if (report.templateId && customSectionsContainer) {
-            const contentDivs = customSectionsContainer.querySelectorAll<HTMLDivElement>('.custom-section-content');
-            contentDivs.forEach(div => {
-                const sectionId = div.dataset.sectionId!;
-                const content = report.customData?.[sectionId] || '';
-                div.innerHTML = `<textarea class="custom-section-textarea" data-section-id="${sectionId}" rows="5">${content}</textarea>`;
-            });
+    });
+    document.getElementById('export-estimate-csv-btn')?.addEventListener('click', () => handleExportEstimateCsv(report, readEstimateForm(form, estimate)));
+
+    // Picking a code fills in the new line from the code book and the measurements
+    const codeSelect = document.getElementById('estimate-add-code-select') as HTMLSelectElement;
+    const field = (id: string) => document.getElementById(id) as HTMLInputElement;
+    codeSelect.addEventListener('change', () => {
+        const code = codeBook.codes[Number(codeSelect.value)];
+        if (codeSelect.value === '' || !code) return;
+        field('estimate-add-code-input').value = code.code;
+        field('estimate-add-description-input').value = code.description;
+        field('estimate-add-quantity-input').value = String(claimQuantity(code, report.measurements, report.facets, storiesValue()));
+        (document.getElementById('estimate-add-unit-select') as HTMLSelectElement).value = code.unit;
+        field('estimate-add-price-input').value = String(code.unitPrice);
+    });
+    document.getElementById('add-estimate-line-btn')?.addEventListener('click', () => {
+        const code = field('estimate-add-code-input').value.trim();
+        const description = field('estimate-add-description-input').value.trim();
+        const quantity = parseFloat(field('estimate-add-quantity-input').value);
+        const unitPrice = parseFloat(field('estimate-add-price-input').value);
+        if (!description || !Number.isFinite(quantity) || !Number.isFinite(unitPrice)) {
+            alert('Please enter a description, quantity and unit price for the new line.');
+            return;
         }
+        const line = manualLine({
+            code: code || 'MISC',
+            description,
+            quantity,
+            unit: (document.getElementById('estimate-add-unit-select') as HTMLSelectElement).value as ClaimCode['unit'],
+            unitPrice,
+        });
+        const edited = readEstimateForm(form, estimate);
+        saveEstimate(report, { ...edited, lines: [...edited.lines, line] }, 'add the line');
+    });
+}
 
-        actionsContainer.innerHTML = `
-            <button id="cancel-edit-btn" class="btn btn-secondary btn-large">Cancel</button>
-            <button id="save-changes-btn" class="btn btn-primary btn-large">Save Changes</button>
-        `;
-        document.getElementById('save-changes-btn')?.addEventListener('click', () => handleSaveChanges(report));
-        document.getElementById('cancel-edit-btn')?.addEventListener('click', () => renderReportView(report));
+/**
+ * Reads the edited lines and percentages from the estimate form.
+ * @param form The estimate form.
+ * @param estimate The saved estimate the form was drawn from.
+ * @returns The estimate with the form's values.
+ */
+function readEstimateForm(form: HTMLFormElement, estimate: InsuranceEstimate): InsuranceEstimate {
+    const numberValue = (input: HTMLInputElement | null, fallback: number) => {
+        const value = parseFloat(input?.value || '');
+        return Number.isFinite(value) && value >= 0 ? value : fallback;
+    };
+    const lines: EstimateLine[] = estimate.lines.map(line => {
+        const row = form.querySelector(`tr[data-line-id="${line.id}"]`);
+        if (!row) return line;
+        return {
+            ...line,
+            description: (row.querySelector('.estimate-description-input') as HTMLInputElement).value.trim() || line.description,
+            quantity: numberValue(row.querySelector('.estimate-quantity-input'), line.quantity),
+            unitPrice: numberValue(row.querySelector('.estimate-price-input'), line.unitPrice),
+        };
+    });
+    return {
+        ...estimate,
+        lines,
+        depreciationPercent: numberValue(form.querySelector('#estimate-depreciation-input'), estimate.depreciationPercent),
+        taxPercent: numberValue(form.querySelector('#estimate-tax-input'), estimate.taxPercent),
+        applyOverheadAndProfit: (form.querySelector('#estimate-op-checkbox') as HTMLInputElement).checked,
+        overheadPercent: numberValue(form.querySelector('#estimate-overhead-input'), estimate.overheadPercent),
+        profitPercent: numberValue(form.querySelector('#estimate-profit-input'), estimate.profitPercent),
+    };
+}
+
+/**
+ * Saves the report's estimate and redraws the report at the estimate section.
+ * @param action What was being done, for the error message.
+ */
+async function saveEstimate(report: Report, estimate: InsuranceEstimate, action: string) {
+    const updatedReport: Report = { ...report, estimate };
+    try {
+        await storage.putReport(updatedReport);
+    } catch (error) {
+        alertStorageError(error, action);
+        return;
     }
+    await renderReportView(updatedReport);
+    document.querySelector('.estimate-container')?.scrollIntoView({ block: 'start' });
 }
 
 /**
- * Saves the edited measurement values from the input fields.
- * @param originalReport The report object before edits.
+ * Generates the estimate's line items from the measurements. Regenerating replaces the
+ * generated lines, including overridden quantities, and keeps lines added by hand.
  */
-function handleSaveChanges(originalReport: Report) {
-    const saveButton = document.getElementById('save-changes-btn') as HTMLButtonElement;
-    if (saveButton) {
-        setButtonLoadingState(saveButton, true, 'Saving...');
+async function handleGenerateEstimate(report: Report, codeBook: ClaimCodeBook, stories: number) {
+    if (report.estimate && !confirm('Regenerate the line items from the measurements? Changes to generated lines are replaced; lines you added are kept.')) {
+        return;
+    }
+    await saveEstimate(report, generateEstimate(report.measurements, report.facets, codeBook, stories, report.estimate), 'save the estimate');
+}
+
+/**
+ * Downloads the estimate as a CSV file, headed with the property and claim details.
+ */
+async function handleExportEstimateCsv(report: Report, estimate: InsuranceEstimate) {
+    const customer = report.customerId ? await storage.getCustomer(report.customerId) : null;
+    const heading: [string, string][] = [
+        ['Property', report.address],
+        ...(customer ? [['Insured', customer.name] as [string, string]] : []),
+        ...(customer?.insuranceCarrier ? [['Carrier', customer.insuranceCarrier] as [string, string]] : []),
+        ...(customer?.claimNumber ? [['Claim Number', customer.claimNumber] as [string, string]] : []),
+        ['Estimate Date', new Date(estimate.createdAt).toLocaleDateString()],
+    ];
+    downloadFile(estimateToCsv(estimate, heading), `Estimate-${report.address.replace(/[^a-zA-Z0-9]/g, '-')}.csv`, 'text/csv');
+}
+
+type TraceTool = 'facet' | 'scale' | EdgeKind;
+
+/**
+ * Switches the report view into drawing mode, where the estimator traces facet polygons
+ * and labelled roof lines over the image and sets a scale from one known dimension.
+ * @param report The report being traced.
+ */
+async function handleStartTracing(report: Report) {
+    const stage = document.querySelector('.trace-stage') as HTMLDivElement;
+    const img = stage?.querySelector('img') as HTMLImageElement;
+    const actionsContainer = document.querySelector('.report-actions');
+    if (!stage || !img || !actionsContainer) return;
+
+    if (!img.complete) {
+        await new Promise(resolve => img.addEventListener('load', resolve, { once: true }));
     }
+    const tracing: RoofTracing = report.tracing
+        ? structuredClone(report.tracing)
+        : createTracing(img.naturalWidth, img.naturalHeight);
+    let tool: TraceTool = 'facet';
+    let pending: TracePoint[] = [];
+    const undoStack: Array<() => void> = [];
+
+    stage.classList.add('tracing');
+    stage.insertAdjacentHTML('afterend', `
+        <div class="trace-toolbar">
+            <div class="trace-tools" role="toolbar" aria-label="Tracing tools">
+                <button type="button" class="trace-tool active" data-tool="facet">Facet</button>
+                ${EDGE_KINDS.map(kind => `
+                    <button type="button" class="trace-tool" data-tool="${kind}" style="--tool-color: ${EDGE_COLORS[kind]}">${EDGE_LABELS[kind]}</button>
+                `).join('')}
+                <button type="button" class="trace-tool" data-tool="scale">Set Scale</button>
+            </div>
+            <div class="trace-tools">
+                <button type="button" class="btn btn-secondary" id="trace-finish-btn">Finish Shape</button>
+                <button type="button" class="btn btn-secondary" id="trace-undo-btn">Undo</button>
+                <button type="button" class="btn btn-danger" id="trace-clear-btn">Clear All</button>
+            </div>
+            <p class="trace-hint"></p>
+            <div class="trace-summary"></div>
+        </div>
+    `);
+    const hint = document.querySelector('.trace-hint') as HTMLParagraphElement;
+    const summary = document.querySelector('.trace-summary') as HTMLDivElement;
+
+    const hints: Record<TraceTool, string> = {
+        facet: 'Click each corner of a roof facet. Click the first corner again or press Finish Shape to close it.',
+        scale: 'Click both ends of a dimension you know, then enter its length in feet.',
+        ridge: 'Click both ends of a ridge line.',
+        hip: 'Click both ends of a hip line.',
+        valley: 'Click both ends of a valley line.',
+        eave: 'Click both ends of an eave line.',
+        rake: 'Click both ends of a rake line.',
+    };
+
+    const redraw = () => {
+        stage.querySelector('.trace-overlay')?.remove();
+        stage.insertAdjacentHTML('beforeend', createTracingOverlaySvg(tracing, pending));
+        hint.textContent = hints[tool];
+        const totals = summarizeTracing(tracing);
+        summary.innerHTML = totals.lengths === null
+            ? '<p>Set a scale to calculate areas and lengths.</p>'
+            : `
+                <p><strong>${tracing.polygons.length}</strong> facet(s), <strong>${formatNumber(totals.planArea || 0)} sq ft</strong> plan area</p>
+                <p>${EDGE_KINDS.map(kind => `${EDGE_LABELS[kind]}: ${formatNumber(totals.lengths![kind])} ft`).join(' · ')}</p>
+            `;
+    };
 
-    const newMeasurements: Partial<Measurements> = {};
-    const inputElements = document.querySelectorAll('.measurement-input');
+    // Converts a mouse event to image pixels, snapping to nearby existing vertices
+    const toImagePoint = (e: MouseEvent): TracePoint => {
+        const rect = img.getBoundingClientRect();
+        const pixelsPerScreenPixel = tracing.imageWidth / rect.width;
+        const point = {
+            x: (e.clientX - rect.left) * pixelsPerScreenPixel,
+            y: (e.clientY - rect.top) * (tracing.imageHeight / rect.height),
+        };
+        const vertices = [
+            ...tracing.polygons.flatMap(polygon => polygon.points),
+            ...tracing.lines.flatMap(line => [line.from, line.to]),
+            ...pending,
+        ];
+        const snapRadius = 10 * pixelsPerScreenPixel;
+        const nearest = vertices.find(vertex => distance(vertex, point) <= snapRadius);
+        return nearest ? { ...nearest } : point;
+    };
 
-    inputElements.forEach(el => {
-        const input = el as HTMLInputElement;
-        const cell = input.closest('td[data-key]');
-        const key = cell?.getAttribute('data-key') as keyof Measurements;
-        if (key) {
-            newMeasurements[key] = input.value;
+    const finishPolygon = () => {
+        if (pending.length < 3) return;
+        const defaultPitch = formatMeasurement('pitch', report.measurements.pitch);
+        const answer = prompt('Pitch of this facet (e.g. 6/12):', defaultPitch);
+        let pitch = report.measurements.pitch;
+        try {
+            pitch = parseMeasurementValue('pitch', answer || defaultPitch);
+        } catch (error) {
+            if (!(error instanceof MeasurementParseError)) throw error;
+            alert(`${error.message} Using ${defaultPitch} instead.`);
         }
-    });
+        const polygon = {
+            id: `p_${Date.now()}`,
+            name: `Facet ${tracing.polygons.length + 1}`,
+            points: pending,
+            pitch,
+        };
+        tracing.polygons.push(polygon);
+        undoStack.push(() => { tracing.polygons = tracing.polygons.filter(p => p !== polygon); });
+        pending = [];
+    };
+
+    const handleClick = (e: MouseEvent) => {
+        const point = toImagePoint(e);
+        if (tool === 'facet') {
+            if (pending.length >= 3 && point.x === pending[0].x && point.y === pending[0].y) {
+                finishPolygon();
+            } else {
+                pending.push(point);
+            }
+        } else if (pending.length === 0) {
+            pending.push(point);
+        } else if (tool === 'scale') {
+            const answer = prompt('Length of this dimension in feet:');
+            const feet = parseFloat(answer || '');
+            if (feet > 0) {
+                const previous = tracing.scale;
+                tracing.scale = { from: pending[0], to: point, feet };
+                undoStack.push(() => { tracing.scale = previous; });
+            } else if (answer !== null) {
+                alert('Please enter a length greater than zero.');
+            }
+            pending = [];
+        } else {
+            const line = { id: `l_${Date.now()}`, kind: tool, from: pending[0], to: point };
+            tracing.lines.push(line);
+            undoStack.push(() => { tracing.lines = tracing.lines.filter(l => l !== line); });
+            pending = [];
+        }
+        redraw();
+    };
+
+    const handleKeydown = (e: KeyboardEvent) => {
+        if (e.key === 'Escape') {
+            pending = [];
+            redraw();
+        } else if (e.key === 'Enter' && tool === 'facet') {
+            finishPolygon();
+            redraw();
+        }
+    };
 
-    const newCustomData: Record<string, string> = { ...originalReport.customData };
-    document.querySelectorAll<HTMLTextAreaElement>('.custom-section-textarea').forEach(textarea => {
-        const sectionId = textarea.dataset.sectionId!;
-        newCustomData[sectionId] = textarea.value;
+    stage.addEventListener('click', handleClick);
+    document.addEventListener('keydown', handleKeydown);
+
+    document.querySelector('.trace-toolbar')?.addEventListener('click', e => {
+        const toolButton = (e.target as HTMLElement).closest<HTMLButtonElement>('.trace-tool');
+        if (!toolButton) return;
+        tool = toolButton.dataset.tool as TraceTool;
+        pending = [];
+        document.querySelectorAll('.trace-tool').forEach(btn => btn.classList.toggle('active', btn === toolButton));
+        redraw();
+    });
+    document.getElementById('trace-finish-btn')?.addEventListener('click', () => {
+        finishPolygon();
+        redraw();
+    });
+    document.getElementById('trace-undo-btn')?.addEventListener('click', () => {
+        if (pending.length > 0) {
+            pending.pop();
+        } else {
+            undoStack.pop()?.();
+        }
+        redraw();
+    });
+    document.getElementById('trace-clear-btn')?.addEventListener('click', () => {
+        if (confirm('Remove everything traced on this image?')) {
+            const previous = structuredClone(tracing);
+            tracing.polygons = [];
+            tracing.lines = [];
+            tracing.scale = null;
+            undoStack.push(() => Object.assign(tracing, previous));
+            pending = [];
+            redraw();
+        }
     });
 
-    const updatedReport: Report = {
-        ...originalReport,
-        measurements: {
-            ...originalReport.measurements,
-            ...newMeasurements
-        },
-        customData: newCustomData
+    const exitTracing = (updatedReport: Report) => {
+        document.removeEventListener('keydown', handleKeydown);
+        renderReportView(updatedReport);
     };
 
-    setTimeout(() => {
-        updateReportInHistory(updatedReport);
-        renderReportView(updatedReport); // Re-render with saved data
-    }, 300);
+    actionsContainer.innerHTML = `
+        <button id="cancel-trace-btn" class="btn btn-secondary btn-large">Cancel</button>
+        <button id="save-trace-btn" class="btn btn-secondary btn-large">Save Tracing</button>
+        <button id="apply-trace-btn" class="btn btn-primary btn-large">Use Traced Measurements</button>
+    `;
+    document.getElementById('cancel-trace-btn')?.addEventListener('click', () => exitTracing(report));
+    document.getElementById('save-trace-btn')?.addEventListener('click', async () => {
+        const updatedReport: Report = { ...report, tracing };
+        try {
+            await storage.putReport(updatedReport);
+        } catch (error) {
+            alertStorageError(error, 'save the tracing');
+            return;
+        }
+        exitTracing(updatedReport);
+    });
+    document.getElementById('apply-trace-btn')?.addEventListener('click', async () => {
+        const facets = tracingToFacets(tracing);
+        if (!facets) {
+            alert('Trace at least one facet and set a scale before using the traced measurements.');
+            return;
+        }
+        if (!confirm('Replace the current facets and measurements with the traced values?')) return;
+        const updatedReport = withCurrentMeasurements(report, {
+            ...report,
+            tracing,
+            facets,
+            measurements: deriveMeasurementsFromFacets(facets, report.measurements),
+            unparsedMeasurements: undefined,
+        });
+        try {
+            await saveReportWithRevision(report, updatedReport, 'Applied traced measurements');
+        } catch (error) {
+            alertStorageError(error, 'save the traced measurements');
+            return;
+        }
+        exitTracing(updatedReport);
+    });
+
+    redraw();
 }
 
 /**
- * Generates and downloads a PDF of the roof report.
- * @param report The full report object.
+ * Draws the "Prepared for" block: the customer's name, contact details and insurance claim.
+ * @returns The y position below the block.
  */
-async function handleDownloadPdf(report: Report) {
-    const downloadButton = document.getElementById('download-pdf-btn') as HTMLButtonElement;
-    if (!downloadButton) return;
-    
-    const { address, imageUrl, measurements, templateId, customData } = report;
-    
-    setButtonLoadingState(downloadButton, true, 'Downloading...');
+function drawPreparedForPdf(doc: any, customer: Customer, x: number, y: number, width: number): number {
+    doc.setFontSize(10);
+    doc.setFont(undefined, 'bold');
+    doc.text('Prepared for', x, y);
+    y += 14;
+    doc.setFontSize(12);
+    doc.text(customer.name, x, y);
+    y += 14;
+    doc.setFontSize(10);
+    doc.setFont(undefined, 'normal');
+    const insurance = describeInsurance(customer);
+    [...customerContactLines(customer), insurance ? `Insurance: ${insurance}` : ''].filter(Boolean).forEach(line => {
+        const lines = doc.splitTextToSize(line, width);
+        doc.text(lines, x, y);
+        y += lines.length * 13;
+    });
+    return y + 12;
+}
 
-    try {
-        const { jsPDF } = window.jspdf;
-        const doc = new jsPDF({ orientation: 'p', unit: 'px', format: 'a4' });
-        const autoTable = (doc as any).autoTable;
-
-        const profile = getProfileData();
-        const MARGIN = 40;
-        const PAGE_WIDTH = doc.internal.pageSize.getWidth();
-        const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
-        let cursorY = MARGIN;
-
-        // --- PDF Header with Profile Info ---
-        if (profile) {
-            const hasLogo = profile.logoDataUrl && profile.logoDataUrl.startsWith('data:image');
-            
-            if (hasLogo) {
-                try {
-                    const img = new Image();
-                    img.src = profile.logoDataUrl;
-                    await new Promise((resolve, reject) => {
-                        img.onload = resolve;
-                        img.onerror = reject;
-                    });
-                    const imageFormat = profile.logoDataUrl.split(';')[0].split('/')[1].toUpperCase();
-                    const logoHeight = 40;
-                    const logoWidth = (img.width * logoHeight) / img.height;
-                    doc.addImage(profile.logoDataUrl, imageFormat, MARGIN, cursorY, logoWidth, logoHeight);
-                } catch (e) {
-                    console.error("Could not load profile logo for PDF:", e);
-                }
-            }
+/**
+ * Draws a roof tracing over the report image in the PDF.
+ * @param doc The jsPDF document.
+ * @param tracing The tracing to draw.
+ * @param x Left edge of the image on the page.
+ * @param y Top edge of the image on the page.
+ * @param width Drawn width of the image.
+ * @param height Drawn height of the image.
+ */
+function drawTracingOnPdf(doc: any, tracing: RoofTracing, x: number, y: number, width: number, height: number) {
+    const sx = width / tracing.imageWidth;
+    const sy = height / tracing.imageHeight;
+    const toPage = (p: TracePoint) => [x + p.x * sx, y + p.y * sy];
+    const ratio = feetPerPixel(tracing);
+
+    doc.setLineWidth(1);
+    doc.setDrawColor('#FFFFFF');
+    tracing.polygons.forEach(polygon => {
+        polygon.points.forEach((point, i) => {
+            const [x1, y1] = toPage(point);
+            const [x2, y2] = toPage(polygon.points[(i + 1) % polygon.points.length]);
+            doc.line(x1, y1, x2, y2);
+        });
+    });
 
-            doc.setFontSize(10);
-            doc.setFont(undefined, 'bold');
-            doc.text(profile.companyName || '', PAGE_WIDTH - MARGIN, cursorY + 5, { align: 'right' });
-            doc.setFont(undefined, 'normal');
-            
-            const addressLines = doc.splitTextToSize(profile.companyAddress || '', 120);
-            doc.text(addressLines, PAGE_WIDTH - MARGIN, cursorY + 18, { align: 'right' });
-            
-            cursorY += 60;
-            doc.setDrawColor(226, 232, 240);
-            doc.line(MARGIN, cursorY - 10, PAGE_WIDTH - MARGIN, cursorY - 10);
+    doc.setLineWidth(2);
+    doc.setFontSize(7);
+    tracing.lines.forEach(line => {
+        const [x1, y1] = toPage(line.from);
+        const [x2, y2] = toPage(line.to);
+        doc.setDrawColor(EDGE_COLORS[line.kind]);
+        doc.line(x1, y1, x2, y2);
+        if (ratio !== null) {
+            doc.setTextColor(EDGE_COLORS[line.kind]);
+            doc.text(`${formatNumber(tracedLineLength(line, tracing)!)} ft`, (x1 + x2) / 2, (y1 + y2) / 2 - 3, { align: 'center' });
         }
+    });
+    doc.setTextColor(0, 0, 0);
+    doc.setDrawColor(0, 0, 0);
+    doc.setLineWidth(1);
+}
 
-        const checkPageBreak = (currentY: number, itemHeight: number) => {
-            if (currentY + itemHeight > doc.internal.pageSize.getHeight() - MARGIN) {
-                doc.addPage();
-                return MARGIN;
-            }
-            return currentY;
-        };
+/**
+ * Writes the priced line items and totals of a quote. Overhead and markup are folded into
+ * the line prices so internal costs aren't shown.
+ * @param layout The PDF layout to write into.
+ * @param quote The report's saved quote.
+ */
+function drawQuotePdf(layout: PdfLayout, quote: Quote) {
+    const lines = sellPriceLines(quote);
+    const subtotal = lines.reduce((sum, line) => sum + line.total, 0);
+    layout.table({
+        head: [['Description', 'Quantity', 'Unit', 'Unit Price', 'Amount']],
+        body: lines.map(line => [line.description, formatNumber(line.quantity), line.unit, formatCurrency(line.unitPrice), formatCurrency(line.total)]),
+        foot: [
+            ['Subtotal', '', '', '', formatCurrency(subtotal)],
+            ['Tax', '', '', '', formatCurrency(quote.tax)],
+            ['Total', '', '', '', formatCurrency(quote.total)],
+        ],
+        columnStyles: { 3: { halign: 'right' }, 4: { halign: 'right' } },
+    });
+}
+
+/**
+ * Writes the insurance estimate's claim details, line items and RCV/ACV summary.
+ * @param layout The PDF layout to write into.
+ * @param estimate The report's saved estimate.
+ * @param customer The linked customer, for the carrier and claim number.
+ */
+function drawEstimatePdf(layout: PdfLayout, estimate: InsuranceEstimate, customer: Customer | null) {
+    const claimDetails = [
+        customer?.insuranceCarrier && `Carrier: ${customer.insuranceCarrier}`,
+        customer?.claimNumber && `Claim Number: ${customer.claimNumber}`,
+        `Estimate Date: ${new Date(estimate.createdAt).toLocaleDateString()}`,
+    ].filter(Boolean).join('    ');
+    layout.paragraph(claimDetails, { fontSize: 10 });
+    layout.space(6);
+    layout.table({
+        head: [['Code', 'Description', 'Quantity', 'Unit', 'Unit Price', 'RCV']],
+        body: estimate.lines.map(line => [
+            line.code, line.description, formatNumber(line.quantity), line.unit, formatCurrency(line.unitPrice), formatCurrency(lineTotal(line)),
+        ]),
+        foot: estimateSummaryRows(estimate).map(([label, amount]) => [{ content: label, colSpan: 5 }, formatCurrency(amount)]),
+        columnStyles: { 0: { cellWidth: 60 }, 2: { halign: 'right' }, 4: { halign: 'right' }, 5: { halign: 'right' } },
+        styles: { fontSize: 9 },
+    });
+}
+
+/**
+ * Writes the proposal terms and signature lines, kept together on one page.
+ */
+function drawAcceptancePdf(layout: PdfLayout) {
+    const { doc, pageWidth, contentWidth } = layout;
+    layout.block(100, y => {
+        doc.setFontSize(10);
+        doc.setFont(undefined, 'normal');
+        const terms = doc.splitTextToSize('This proposal is valid for 30 days. Signing below accepts the scope of work and price above.', contentWidth);
+        doc.text(terms, PDF_MARGIN, y);
+        const lineY = y + terms.length * 12 + 40;
+        const signatureWidth = (contentWidth - 40) / 2;
+        doc.line(PDF_MARGIN, lineY, PDF_MARGIN + signatureWidth, lineY);
+        doc.line(pageWidth - PDF_MARGIN - signatureWidth, lineY, pageWidth - PDF_MARGIN, lineY);
+        doc.text('Customer Signature', PDF_MARGIN, lineY + 12);
+        doc.text('Date', pageWidth - PDF_MARGIN - signatureWidth, lineY + 12);
+    });
+}
 
-        // --- PDF Main Title ---
-        doc.setFontSize(22);
+/**
+ * Draws the report's cover page: company branding, title, property, customer and the roof image.
+ * @param layout The PDF layout, still on its first page.
+ * @param title The document title, e.g. "Crew Work Order".
+ * @param report The report.
+ * @param profile The company profile, if set up.
+ * @param customer The linked customer, if any.
+ */
+function drawReportCover(layout: PdfLayout, title: string, report: Report, profile: Profile | null, customer: Customer | null) {
+    const { doc, pageWidth, pageHeight, contentWidth } = layout;
+    let y = PDF_MARGIN;
+
+    if (profile?.logoDataUrl?.startsWith('data:image')) {
+        try {
+            const logo = doc.getImageProperties(profile.logoDataUrl);
+            const height = 56;
+            const width = Math.min((logo.width * height) / logo.height, contentWidth);
+            doc.addImage(profile.logoDataUrl, logo.fileType, (pageWidth - width) / 2, y, width, height);
+            y += height + 14;
+        } catch (error) {
+            console.error('Could not load profile logo for PDF:', error);
+        }
+    }
+    if (profile?.companyName) {
+        doc.setFontSize(14);
         doc.setFont(undefined, 'bold');
-        doc.text('Roof Measurement Report', PAGE_WIDTH / 2, cursorY, { align: 'center' });
-        cursorY += 30;
-        doc.setFontSize(12);
+        doc.text(profile.companyName, pageWidth / 2, y + 10, { align: 'center' });
+        doc.setFontSize(10);
         doc.setFont(undefined, 'normal');
-        doc.text(`Property Address: ${address}`, MARGIN, cursorY);
-        cursorY += 30;
-
-        // --- Satellite Image ---
-        const imgWidth = CONTENT_WIDTH;
-        const imgHeight = CONTENT_WIDTH;
-        doc.addImage(imageUrl, 'JPEG', MARGIN, cursorY, imgWidth, imgHeight);
-        cursorY += imgHeight + 20;
-
-        cursorY = checkPageBreak(cursorY, 200);
-
-        // --- Roof Visualization ---
-        const visualizationEl = document.querySelector('.roof-visualization-container') as HTMLElement;
-        if (visualizationEl) {
-            doc.setFontSize(16); doc.setFont(undefined, 'bold');
-            doc.text('Roof Diagram', MARGIN, cursorY);
-            cursorY += 15;
-
-            const canvas = await html2canvas(visualizationEl, { scale: 2 });
-            const vizImgData = canvas.toDataURL('image/png');
-            const vizAspectRatio = canvas.height / canvas.width;
-            const vizImgWidth = CONTENT_WIDTH;
-            const vizImgHeight = vizImgWidth * vizAspectRatio;
-            doc.addImage(vizImgData, 'PNG', MARGIN, cursorY, vizImgWidth, vizImgHeight);
-            cursorY += vizImgHeight + 30;
+        const addressLines = doc.splitTextToSize(profile.companyAddress || '', contentWidth);
+        doc.text(addressLines, pageWidth / 2, y + 26, { align: 'center' });
+        y += 26 + addressLines.length * 12;
+    }
+
+    y += 24;
+    doc.setFillColor(...PDF_ACCENT);
+    doc.rect(PDF_MARGIN, y, contentWidth, 4, 'F');
+    y += 40;
+    doc.setFontSize(28);
+    doc.setFont(undefined, 'bold');
+    doc.text(title, pageWidth / 2, y, { align: 'center' });
+    y += 26;
+    doc.setFontSize(13);
+    doc.setFont(undefined, 'normal');
+    const addressLines = doc.splitTextToSize(report.address, contentWidth);
+    doc.text(addressLines, pageWidth / 2, y, { align: 'center' });
+    y += addressLines.length * 16;
+    doc.setFontSize(10);
+    doc.setTextColor(74, 85, 104);
+    doc.text(`Prepared ${new Date().toLocaleDateString()}`, pageWidth / 2, y, { align: 'center' });
+    doc.setTextColor(0, 0, 0);
+    y += 30;
+    if (customer) {
+        y = drawPreparedForPdf(doc, customer, PDF_MARGIN, y, contentWidth);
+    }
+
+    // The roof image fills what's left of the page, keeping its proportions
+    const source = reportSource(report);
+    if (report.imageUrl) {
+        const image = doc.getImageProperties(report.imageUrl);
+        const maxHeight = pageHeight - PDF_MARGIN - 30 - y;
+        if (maxHeight > 80) {
+            const scale = Math.min(contentWidth / image.width, maxHeight / image.height);
+            const width = image.width * scale;
+            const height = image.height * scale;
+            const x = (pageWidth - width) / 2;
+            doc.addImage(report.imageUrl, image.fileType, x, y, width, height);
+            if (report.tracing) {
+                drawTracingOnPdf(doc, report.tracing, x, y, width, height);
+            }
+            y += height + 14;
+            doc.setFontSize(9);
+            if (isSyntheticImage(source)) {
+                doc.setFont(undefined, 'bold');
+                doc.setTextColor(...PDF_ACCENT);
+                doc.text(SYNTHETIC_IMAGE_NOTICE, pageWidth / 2, y, { align: 'center' });
+                doc.setTextColor(0, 0, 0);
+                doc.setFont(undefined, 'normal');
+            } else {
+                doc.text(`Image: ${describeImageSource(source)}`, pageWidth / 2, y, { align: 'center' });
+            }
         }
+    }
+}
 
-        cursorY = checkPageBreak(cursorY, 150);
-
-        // --- Measurements Table ---
-        doc.setFontSize(16); doc.setFont(undefined, 'bold');
-        doc.text('Measurement Details', MARGIN, cursorY);
-        
-        const measurementRowsData = [
-            { label: 'Total Area', key: 'totalArea' }, { label: 'Primary Pitch', key: 'pitch' },
-            { label: 'Ridges', key: 'ridges' }, { label: 'Valleys', key: 'valleys' },
-            { label: 'Eaves', key: 'eaves' }, { label: 'Rakes', key: 'rakes' },
-            { label: 'Waste Factor', key: 'wasteFactor' },
-        ] as const;
-        const tableBody = measurementRowsData.map(row => [row.label, measurements[row.key] || 'N/A']);
-        autoTable({
-            head: [['Measurement', 'Value']], body: tableBody, startY: cursorY + 15,
-            theme: 'grid', headStyles: { fillColor: [217, 4, 41] }, margin: { left: MARGIN }
-        });
-        cursorY = (doc as any).lastAutoTable.finalY || cursorY;
-
-        // --- Custom Sections ---
-        if (templateId && customData) {
-            const template = getTemplates().find(t => t.id === templateId);
-            if (template && template.customSections.length > 0) {
-                cursorY = checkPageBreak(cursorY, 40);
-                cursorY += 30;
-                doc.setFontSize(16); doc.setFont(undefined, 'bold');
-                doc.text(`${template.name} - Custom Notes`, MARGIN, cursorY);
-                cursorY += 20;
-
-                template.customSections.forEach(section => {
-                    const content = customData[section.id];
-                    if (content) {
-                        cursorY = checkPageBreak(cursorY, 40);
-                        doc.setFontSize(12); doc.setFont(undefined, 'bold');
-                        doc.text(section.title, MARGIN, cursorY);
-                        cursorY += 15;
-                        doc.setFont(undefined, 'normal');
-                        const textLines = doc.splitTextToSize(content, CONTENT_WIDTH);
-                        textLines.forEach((line: string) => {
-                           cursorY = checkPageBreak(cursorY, 15);
-                           doc.text(line, MARGIN, cursorY);
-                           cursorY += 15;
-                        });
-                        cursorY += 10;
-                    }
+/**
+ * Builds the PDF for a report from stored data alone, so it can be made from any view.
+ * The variant decides which sections are included and in what order; every variant gets
+ * a cover page, table of contents and the running company header, footer and page numbers.
+ * @param report The report.
+ * @param variant Who the PDF is for.
+ * @returns The finished jsPDF document.
+ */
+async function buildReportPdf(report: Report, variant: ReportVariant): Promise<PdfDocument> {
+    report = withWasteFactor(report);
+    const { measurements, customData } = report;
+    const { jsPDF } = window.jspdf;
+    const doc = new jsPDF({ orientation: 'p', unit: 'px', format: 'a4' });
+    const profile = await storage.getProfile();
+    const customer = report.customerId ? await storage.getCustomer(report.customerId) : null;
+    const template = await getReportTemplate(report);
+    const layout = createPdfLayout(doc, {
+        branding: {
+            companyName: profile?.companyName || '',
+            companyAddress: profile?.companyAddress || '',
+            logoDataUrl: profile?.logoDataUrl || '',
+        },
+        footerText: `${variant.title}: ${report.address}`,
+        hasCover: true,
+    });
+
+    drawReportCover(layout, variant.title, report, profile, customer);
+    layout.newPage();
+
+    const drawSection: Record<ReportPdfSection, () => void> = {
+        scope: () => {
+            const squares = measurements.totalArea.value / 100;
+            layout.heading('Scope of Work', 45);
+            layout.paragraph(`Remove and replace the roof covering on approximately ${formatNumber(squares)} squares `
+                + `(${formatMeasurement('totalArea', measurements.totalArea)}) at a primary pitch of `
+                + `${formatMeasurement('pitch', measurements.pitch)}, including underlayment, flashing components and cleanup.`);
+        },
+
+        pricing: () => {
+            layout.heading('Price');
+            drawQuotePdf(layout, report.quote!);
+        },
+
+        acceptance: () => {
+            layout.heading('Acceptance', 100);
+            drawAcceptancePdf(layout);
+        },
+
+        accessNotes: () => {
+            layout.heading('Site Access', 45);
+            if (customer) {
+                layout.paragraph([customer.name, ...customerContactLines(customer)].join('\n'), { fontSize: 10 });
+                layout.space(6);
+            }
+            layout.paragraph(report.accessNotes!.trim());
+        },
+
+        diagram: () => {
+            const diagram = buildRoofDiagram(measurements, report.roofType);
+            const diagramHeight = diagram.height * (layout.contentWidth / diagram.width);
+            layout.heading('Roof Diagram', diagramHeight + 20);
+            layout.paragraph(`Measurements: ${describeMeasurementSource(reportSource(report))}`, { fontSize: 10 });
+            layout.block(diagramHeight, y => drawDiagramOnPdf(doc, diagram, PDF_MARGIN, y, layout.contentWidth));
+
+            // A still of the 3D preview, from the angle saved in the report view
+            const previewWidth = layout.contentWidth;
+            const previewHeight = previewWidth * 0.6;
+            const model = buildRoofModel(measurements, report.roofType);
+            const preview = renderRoofPreviewImage(model, report.viewAngle || DEFAULT_VIEW_ANGLE, reportStories(report), 1200, 720);
+            if (preview) {
+                layout.subheading('3D View', previewHeight + 20);
+                layout.block(previewHeight + 20, y => {
+                    doc.addImage(preview, 'PNG', PDF_MARGIN, y, previewWidth, previewHeight);
+                    doc.setFontSize(9);
+                    doc.setTextColor(74, 85, 104);
+                    doc.text(`Facets colored by pitch: ${modelPitches(model).map(pitch => `${formatNumber(pitch)}/12`).join(', ')}. Idealised shape, not to exact scale.`,
+                        PDF_MARGIN, y + previewHeight + 12);
+                    doc.setTextColor(0, 0, 0);
                 });
             }
-        }
+        },
+
+        measurements: () => {
+            layout.heading('Measurement Details');
+            layout.table({
+                head: [['Measurement', 'Value']],
+                body: MEASUREMENT_KEYS.map(key => [
+                    MEASUREMENT_LABELS[key],
+                    report.unparsedMeasurements?.[key] !== undefined ? 'N/A' : formatMeasurement(key, measurements[key]),
+                ]),
+            });
+        },
+
+        facets: () => {
+            layout.heading('Roof Facets');
+            layout.table({
+                head: [['Facet', 'Pitch', 'Plan Area', 'Sloped Area', ...EDGE_KINDS.map(kind => EDGE_LABELS[kind])]],
+                body: report.facets.map(facet => [
+                    facet.name,
+                    formatMeasurement('pitch', facet.pitch),
+                    `${formatNumber(facet.planArea)} sq ft`,
+                    `${formatNumber(slopedArea(facet))} sq ft`,
+                    ...EDGE_KINDS.map(kind => `${formatNumber(facet.edges[kind])} ft`),
+                ]),
+                foot: [[
+                    'Total', '',
+                    `${formatNumber(report.facets.reduce((sum, facet) => sum + facet.planArea, 0))} sq ft`,
+                    `${formatNumber(report.facets.reduce((sum, facet) => sum + slopedArea(facet), 0))} sq ft`,
+                    ...EDGE_KINDS.map(kind => `${formatNumber(report.facets.reduce((sum, facet) => sum + facet.edges[kind], 0))} ft`),
+                ]],
+                styles: { fontSize: 8 },
+            });
+        },
 
+        materials: () => {
+            const takeoff = calculateMaterialTakeoff(measurements, getMaterialSettings());
+            layout.heading('Material Estimate', 80);
+            layout.paragraph(`${takeoff.squares.toFixed(1)} squares including waste`, { fontSize: 10 });
+            layout.table({
+                head: [['Product', 'Quantity', 'Basis']],
+                body: takeoff.lines.map(line => [line.product, `${line.quantity} ${line.unit}`, line.basis]),
+            });
+        },
+
+        estimate: () => {
+            // The estimate gets a page of its own so it can be handed to the adjuster separately
+            layout.pageBreak();
+            layout.heading('Line-Item Estimate');
+            drawEstimatePdf(layout, report.estimate!, customer);
+        },
+
+        customNotes: () => {
+            if (!template || template.customSections.length === 0) return;
+            layout.heading(`${template.name} - Custom Notes`, 40);
+            template.customSections.forEach(section => {
+                const value = normalizeSectionValue(section, customData?.[section.id]);
+                if (sectionKind(section) === 'checklist' && section.options?.length) {
+                    // Every item gets a box, ticked when checked, so the list reads like the paper form
+                    layout.subheading(section.title, Math.min(section.options.length, 3) * 15);
+                    doc.setFont(undefined, 'normal');
+                    section.options.forEach(option => {
+                        layout.block(15, y => {
+                            doc.rect(PDF_MARGIN, y - 9, 10, 10);
+                            if ((value as string[]).includes(option)) {
+                                doc.lines([[3, 4], [5, -8]], PDF_MARGIN + 1.5, y - 3.5);
+                            }
+                            doc.text(option, PDF_MARGIN + 16, y);
+                        });
+                    });
+                    layout.space(10);
+                    return;
+                }
+                const content = formatSectionValue(section, value);
+                if (content) {
+                    layout.subheading(section.title);
+                    layout.paragraph(content, { fontSize: 12 });
+                    layout.space(10);
+                }
+            });
+        },
+
+        photos: () => {
+            const COLUMNS = 2;
+            const GUTTER = 16;
+            const LINE_HEIGHT = 12;
+            const cellWidth = (layout.contentWidth - GUTTER * (COLUMNS - 1)) / COLUMNS;
+            const boxHeight = cellWidth * 0.75;
+            doc.setFontSize(10); doc.setFont(undefined, 'bold');
+            const cells = report.photos!.map(photo => ({
+                photo,
+                image: doc.getImageProperties(photo.dataUrl),
+                captionLines: photo.caption ? doc.splitTextToSize(photo.caption, cellWidth) as string[] : [],
+            }));
+            const rows: (typeof cells)[] = [];
+            for (let i = 0; i < cells.length; i += COLUMNS) rows.push(cells.slice(i, i + COLUMNS));
+            const rowHeight = (row: typeof cells) => boxHeight + 8 + (Math.max(...row.map(cell => cell.captionLines.length)) + 1) * LINE_HEIGHT + 16;
+
+            // Keep the heading on the same page as the first row of photos
+            layout.heading('Photo Log', rowHeight(rows[0]));
+            rows.forEach(row => {
+                layout.block(rowHeight(row), y => {
+                    row.forEach(({ photo, image, captionLines }, column) => {
+                        const x = PDF_MARGIN + column * (cellWidth + GUTTER);
+                        // Fit each photo in its box, centered, keeping its proportions
+                        const scale = Math.min(cellWidth / image.width, boxHeight / image.height);
+                        const width = image.width * scale;
+                        const height = image.height * scale;
+                        doc.setFillColor(237, 242, 247);
+                        doc.rect(x, y, cellWidth, boxHeight, 'F');
+                        doc.addImage(photo.dataUrl, image.fileType, x + (cellWidth - width) / 2, y + (boxHeight - height) / 2, width, height);
+                        let textY = y + boxHeight + 8 + LINE_HEIGHT;
+                        doc.setFontSize(10); doc.setFont(undefined, 'bold');
+                        captionLines.forEach(line => {
+                            doc.text(line, x, textY);
+                            textY += LINE_HEIGHT;
+                        });
+                        doc.setFontSize(8); doc.setFont(undefined, 'normal');
+                        doc.setTextColor(113, 128, 150);
+                        doc.text(describePhoto(photo), x, textY);
+                        doc.setTextColor(0, 0, 0);
+                    });
+                });
+            });
+        },
+    };
 
-        // --- Save PDF ---
-        doc.save(`Roof-Report-${address.replace(/[^a-zA-Z0-9]/g, '-')}.pdf`);
+    variantSections(variant, report, !!template).forEach(section => drawSection[section]());
+    layout.finish(true);
+    return doc;
+}
 
+/**
+ * Generates and downloads a PDF of the roof report.
+ * @param report The full report object.
+ * @param downloadButton The button that was clicked, shown as busy while the PDF is made.
+ * @param variantId Who the PDF is for; defaults to the template's default variant.
+ */
+async function handleDownloadPdf(report: Report, downloadButton: HTMLButtonElement, variantId?: ReportVariantId) {
+    setButtonLoadingState(downloadButton, true, 'Downloading...');
+    try {
+        const variant = getReportVariant(variantId || (await getReportTemplate(report))?.defaultVariant);
+        const doc = await buildReportPdf(report, variant);
+        doc.save(`${variant.title.replace(/ /g, '-')}-${report.address.replace(/[^a-zA-Z0-9]/g, '-')}.pdf`);
     } catch (error) {
         console.error("Failed to generate PDF:", error);
         alert("Sorry, there was an error creating the PDF. Please try again.");
@@ -1359,42 +4921,203 @@ function closeModal() {
 function handleSignUpFormSubmit(e: Event) {
     e.preventDefault();
     closeModal();
-    renderAddressInput();
+    enterAppMode();
+    navigate({ name: 'newReport' });
+}
+
+/**
+ * Updates the nav to reflect the "logged-in" state. Safe to call more than once.
+ */
+function enterAppMode() {
+    if (isAppMode) return;
+    isAppMode = true;
 
-    // Update nav to reflect "logged-in" state
-    signUpNav
-Btn.textContent = 'New Report';
+    signUpNavBtn.textContent = 'New Report';
     signUpNavBtn.removeEventListener('click', openModal);
-    signUpNavBtn.addEventListener('click', renderAddressInput);
+    signUpNavBtn.addEventListener('click', () => navigate({ name: 'newReport' }));
 
     profileNavLink.classList.remove('hidden');
+    pipelineNavLink.classList.remove('hidden');
+    customersNavLink.classList.remove('hidden');
     templatesNavLink.classList.remove('hidden');
+    settingsNavLink.classList.remove('hidden');
     
-    if (getReportHistory().length > 0) {
-        historyNavLink.classList.remove('hidden');
+    storage.countReports().then(count => {
+        if (count > 0) historyNavLink.classList.remove('hidden');
+    }).catch(error => console.error('Failed to count reports:', error));
+}
+
+/**
+ * Moves to a route by updating the URL fragment, which triggers rendering.
+ * @param route The view to show.
+ */
+function navigate(route: Route) {
+    const hash = routeToHash(route);
+    if (location.hash === hash) {
+        // hashchange doesn't fire for the current hash, so re-render directly
+        renderRoute(route);
+    } else {
+        location.hash = hash;
+    }
+}
+
+/**
+ * Renders a message for a link that doesn't lead anywhere.
+ * @param title The heading.
+ * @param message What went wrong.
+ */
+function renderNotFoundView(title: string, message: string) {
+    mainContent.innerHTML = `
+        <section class="history-view">
+            <div class="container">
+                <div class="empty-history-view">
+                    <h2>${escapeHtml(title)}</h2>
+                    <p>${escapeHtml(message)}</p>
+                    <button id="not-found-history-btn" class="btn btn-primary btn-large">Go to Report History</button>
+                </div>
+            </div>
+        </section>
+    `;
+    document.getElementById('not-found-history-btn')?.addEventListener('click', () => navigate({ name: 'history', query: '' }));
+}
+
+/**
+ * Shows the view for a route. Anything past the landing page puts the app in its logged-in state,
+ * so reloading or opening a bookmarked link lands on the same view.
+ * @param route The route to render.
+ */
+async function renderRoute(route: Route) {
+    document.body.classList.remove('shared-view-active');
+    shareModalOverlay.classList.add('hidden');
+    if (route.name !== 'landing' && route.name !== 'share') {
+        enterAppMode();
+    }
+    window.scrollTo(0, 0);
+
+    try {
+        switch (route.name) {
+            case 'landing':
+                renderLandingPage();
+                break;
+            case 'newReport':
+                await renderAddressInput();
+                break;
+            case 'newManualReport':
+                await renderManualReportView();
+                break;
+            case 'report': {
+                const report = await getReportById(route.reportId);
+                if (report) {
+                    await renderReportView(report);
+                } else {
+                    renderNotFoundView('Report Not Found', 'This report may have been deleted, or it was created on another device.');
+                }
+                break;
+            }
+            case 'reportRevisions': {
+                const report = await getReportById(route.reportId);
+                if (report) {
+                    await renderRevisionsView(report, route.revisionId);
+                } else {
+                    renderNotFoundView('Report Not Found', 'This report may have been deleted, or it was created on another device.');
+                }
+                break;
+            }
+            case 'history':
+                await renderHistoryView(route.query, route.status);
+                break;
+            case 'pipeline':
+                await renderPipelineView();
+                break;
+            case 'templates':
+                await renderTemplatesView();
+                break;
+            case 'newTemplate':
+                renderTemplateEditorView();
+                break;
+            case 'editTemplate': {
+                const template = await storage.getTemplate(route.templateId);
+                if (template) {
+                    renderTemplateEditorView(template);
+                } else {
+                    renderNotFoundView('Template Not Found', 'This template may have been deleted.');
+                }
+                break;
+            }
+            case 'customers':
+                await renderCustomersView();
+                break;
+            case 'newCustomer':
+                await renderCustomerView();
+                break;
+            case 'customer': {
+                const customer = await storage.getCustomer(route.customerId);
+                if (customer) {
+                    await renderCustomerView(customer);
+                } else {
+                    renderNotFoundView('Customer Not Found', 'This customer may have been deleted.');
+                }
+                break;
+            }
+            case 'profile':
+                await renderProfileView();
+                break;
+            case 'settings':
+                renderSettingsView();
+                break;
+            case 'share':
+                // Shared links open straight into the read-only report
+                decodeSharedReport(route.payload)
+                    .then(renderSharedReportView)
+                    .catch(error => {
+                        console.error('Failed to open shared report:', error);
+                        renderSharedReportError(error instanceof ShareLinkError ? error.message : 'This report could not be opened.');
+                    });
+                break;
+            case 'notFound':
+                renderNotFoundView('Page Not Found', `Nothing lives at "${route.path}".`);
+                break;
+        }
+    } catch (error) {
+        console.error('Failed to render view:', error);
+        renderNotFoundView('Something Went Wrong', error instanceof StorageQuotaError || error instanceof StorageError
+            ? error.message
+            : 'This page could not be loaded. Please try again.');
     }
 }
 
 /**
  * Initializes the application, sets up static event listeners.
  */
-function init() {
+async function init() {
     // Main navigation
     logoLink.addEventListener('click', (e) => {
         e.preventDefault();
-        renderLandingPage();
+        navigate({ name: 'landing' });
     });
     historyNavLink.addEventListener('click', (e) => {
         e.preventDefault();
-        renderHistoryView();
+        navigate({ name: 'history', query: '' });
+    });
+    pipelineNavLink.addEventListener('click', (e) => {
+        e.preventDefault();
+        navigate({ name: 'pipeline' });
+    });
+    customersNavLink.addEventListener('click', (e) => {
+        e.preventDefault();
+        navigate({ name: 'customers' });
     });
     templatesNavLink.addEventListener('click', (e) => {
         e.preventDefault();
-        renderTemplatesView();
+        navigate({ name: 'templates' });
     });
     profileNavLink.addEventListener('click', (e) => {
         e.preventDefault();
-        renderProfileView();
+        navigate({ name: 'profile' });
+    });
+    settingsNavLink.addEventListener('click', (e) => {
+        e.preventDefault();
+        navigate({ name: 'settings' });
     });
 
     // Modal and signup flow
@@ -1406,9 +5129,27 @@ function init() {
         }
     });
     signUpForm.addEventListener('submit', handleSignUpFormSubmit);
+
+    // Share dialog
+    copyLinkBtn.addEventListener('click', handleCopyShareLink);
+    shareModalOverlay.querySelector('.modal-close-btn')?.addEventListener('click', () => shareModalOverlay.classList.add('hidden'));
+    shareModalOverlay.addEventListener('click', (e) => {
+        if (e.target === shareModalOverlay) {
+            shareModalOverlay.classList.add('hidden');
+        }
+    });
+
+    // Back/forward and edited URLs
+    window.addEventListener('hashchange', () => renderRoute(parseRoute(location.hash)));
     
-    // Initial render
-    renderLandingPage();
+    try {
+        await storage.initStorage();
+    } catch (error) {
+        alertStorageError(error, 'load your saved reports');
+    }
+
+    // Initial render, restoring whatever view the URL points at
+    renderRoute(parseRoute(location.hash));
 }
 
 // Start the app
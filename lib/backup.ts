@@ -0,0 +1,346 @@
+import type { ClaimCodeBook, Customer, MaterialSettings, PriceBook, Profile, Report, ReportRevision, Template } from "../types";
+import { isCustomSection } from "./sections";
+import { isJobStatus } from "./pipeline";
+import { isReportVariantId } from "./variants";
+import { isRoofType } from "./roofModel";
+import { isShingleType } from "./waste";
+
+// --- WORKSPACE BACKUP ---
+
+export const BACKUP_FORMAT = 'contractorflow-backup';
+export const BACKUP_VERSION = 3; // 2 added customers, 3 added report revisions
+
+/**
+ * Everything in a workspace as one file. Images are embedded as data URLs so the
+ * file is complete on its own.
+ */
+export type WorkspaceBackup = {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    exportedAt: string;
+    reports: Report[];
+    templates: Template[];
+    customers: Customer[];
+    revisions: ReportRevision[];
+    profile: Profile | null;
+    materialSettings: MaterialSettings | null;
+    priceBook: PriceBook | null;
+    claimCodeBook: ClaimCodeBook | null;
+};
+
+export type RestoreMode = 'merge' | 'replace';
+
+/**
+ * The data already on this computer that a restore is planned against.
+ */
+export type ExistingWorkspace = {
+    reports: Report[];
+    templates: Template[];
+    customers: Customer[];
+    revisions: ReportRevision[];
+    profile: Profile | null;
+};
+
+/**
+ * What a restore will write. A null profile or setting means "leave the current one alone",
+ * except that a replace clears the old profile first.
+ */
+export type RestorePlan = {
+    mode: RestoreMode;
+    reports: Report[];
+    templates: Template[];
+    customers: Customer[];
+    revisions: ReportRevision[];
+    profile: Profile | null;
+    materialSettings: MaterialSettings | null;
+    priceBook: PriceBook | null;
+    claimCodeBook: ClaimCodeBook | null;
+    /** Items already present with identical content, so not imported again. */
+    duplicates: number;
+    /** Items given a new ID because theirs was taken by something different. */
+    renumbered: number;
+};
+
+/**
+ * Thrown when a file isn't a usable backup.
+ */
+export class BackupError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'BackupError';
+    }
+}
+
+/**
+ * Builds the backup file contents.
+ */
+export function createBackup(data: Omit<WorkspaceBackup, 'format' | 'version' | 'exportedAt'>): string {
+    const backup: WorkspaceBackup = {
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        exportedAt: new Date().toISOString(),
+        ...data,
+    };
+    return JSON.stringify(backup);
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+const isId = (value: unknown) => typeof value === 'number' && Number.isSafeInteger(value) && value > 0;
+
+/**
+ * JSON with object keys sorted, so equal content compares equal regardless of key order.
+ */
+function canonicalJson(value: unknown): string {
+    return JSON.stringify(value, (_key, v) => (isObject(v)
+        ? Object.fromEntries(Object.keys(v).sort().map(k => [k, v[k]]))
+        : v));
+}
+
+function isSectionList(sections: unknown): boolean {
+    return Array.isArray(sections) && sections.every(isCustomSection);
+}
+
+function validateTemplate(template: unknown, index: number): Template {
+    const label = `Template ${index + 1}`;
+    if (!isObject(template) || !isId(template.id)) throw new BackupError(`${label} has no valid ID.`);
+    if (typeof template.name !== 'string') throw new BackupError(`${label} has no name.`);
+    if (!isSectionList(template.customSections)) {
+        throw new BackupError(`${label} ("${template.name}") has unreadable sections.`);
+    }
+    // Older backups predate template versions
+    if ((template.version !== undefined && !isId(template.version))
+        || (template.previousVersions !== undefined && !(Array.isArray(template.previousVersions)
+            && template.previousVersions.every(version => isObject(version) && isId(version.version)
+                && typeof version.name === 'string' && isSectionList(version.customSections))))) {
+        throw new BackupError(`${label} ("${template.name}") has an unreadable version history.`);
+    }
+    if (template.defaultVariant !== undefined && !isReportVariantId(template.defaultVariant)) {
+        throw new BackupError(`${label} ("${template.name}") has an unknown default PDF version.`);
+    }
+    return template as Template;
+}
+
+function validateCustomer(customer: unknown, index: number): Customer {
+    const label = `Customer ${index + 1}`;
+    if (!isObject(customer) || !isId(customer.id)) throw new BackupError(`${label} has no valid ID.`);
+    if (typeof customer.name !== 'string') throw new BackupError(`${label} has no name.`);
+    const fields = ['phone', 'email', 'address', 'insuranceCarrier', 'claimNumber', 'notes', 'createdAt'] as const;
+    if (!fields.every(field => typeof customer[field] === 'string')) {
+        throw new BackupError(`${label} ("${customer.name}") has unreadable contact details.`);
+    }
+    return customer as Customer;
+}
+
+function validateRevision(revision: unknown, index: number): ReportRevision {
+    const label = `Revision ${index + 1}`;
+    if (!isObject(revision) || !isId(revision.id) || !isId(revision.reportId)) throw new BackupError(`${label} has no valid ID.`);
+    if (typeof revision.savedAt !== 'string' || typeof revision.label !== 'string' || !Array.isArray(revision.changedFields)
+        || !isObject(revision.snapshot) || !isObject(revision.snapshot.measurements)) {
+        throw new BackupError(`${label} is unreadable.`);
+    }
+    return revision as ReportRevision;
+}
+
+function validateReport(report: unknown, index: number): Report {
+    const label = `Report ${index + 1}`;
+    if (!isObject(report) || !isId(report.id)) throw new BackupError(`${label} has no valid ID.`);
+    if (typeof report.address !== 'string') throw new BackupError(`${label} has no address.`);
+    const name = `${label} (${report.address})`;
+    if (typeof report.imageUrl !== 'string') throw new BackupError(`${name} has no image.`);
+    if (typeof report.timestamp !== 'string' || Number.isNaN(Date.parse(report.timestamp))) {
+        throw new BackupError(`${name} has no valid date.`);
+    }
+    if (!isObject(report.measurements)) throw new BackupError(`${name} has no measurements.`);
+    if (report.facets !== undefined && !Array.isArray(report.facets)) throw new BackupError(`${name} has unreadable facets.`);
+    if (report.templateId !== undefined && !isId(report.templateId)) throw new BackupError(`${name} has an invalid template link.`);
+    if (report.roofType !== undefined && !isRoofType(report.roofType)) throw new BackupError(`${name} has an unknown roof type.`);
+    if (report.shingleType !== undefined && !isShingleType(report.shingleType)) throw new BackupError(`${name} has an unknown roofing product.`);
+    if (report.wasteOverride !== undefined && !(isObject(report.wasteOverride)
+        && typeof report.wasteOverride.percent === 'number' && typeof report.wasteOverride.reason === 'string')) {
+        throw new BackupError(`${name} has an unreadable waste factor override.`);
+    }
+    if (report.acceptedWarnings !== undefined && !(Array.isArray(report.acceptedWarnings)
+        && report.acceptedWarnings.every((id: unknown) => typeof id === 'string'))) {
+        throw new BackupError(`${name} has unreadable measurement checks.`);
+    }
+    if (report.viewAngle !== undefined && !(isObject(report.viewAngle)
+        && ['yaw', 'tilt', 'zoom'].every(key => typeof report.viewAngle[key] === 'number'))) {
+        throw new BackupError(`${name} has an unreadable 3D view.`);
+    }
+    if (report.customerId !== undefined && !isId(report.customerId)) throw new BackupError(`${name} has an invalid customer link.`);
+    if (report.status !== undefined && !isJobStatus(report.status)) throw new BackupError(`${name} has an unknown job status.`);
+    if (report.customData !== undefined && !isObject(report.customData)) throw new BackupError(`${name} has unreadable notes.`);
+    if (report.estimate !== undefined && !(isObject(report.estimate) && Array.isArray(report.estimate.lines))) {
+        throw new BackupError(`${name} has an unreadable estimate.`);
+    }
+    if (report.accessNotes !== undefined && typeof report.accessNotes !== 'string') throw new BackupError(`${name} has unreadable access notes.`);
+    if (report.photos !== undefined && (!Array.isArray(report.photos) || !report.photos.every(photo =>
+        isObject(photo) && typeof photo.id === 'string' && typeof photo.dataUrl === 'string' && photo.dataUrl.startsWith('data:image/')))) {
+        throw new BackupError(`${name} has unreadable photos.`);
+    }
+    return report as Report;
+}
+
+/**
+ * Reads and validates a backup file.
+ * @param text The file contents.
+ * @returns The backup, with every report and template checked for the fields the app relies on.
+ * @throws BackupError describing the first problem found.
+ */
+export function parseBackup(text: string): WorkspaceBackup {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new BackupError('This file is not a backup: it could not be read as JSON.');
+    }
+    if (!isObject(data) || data.format !== BACKUP_FORMAT) {
+        throw new BackupError('This file is not a ContractorFlow backup.');
+    }
+    if (typeof data.version !== 'number' || data.version > BACKUP_VERSION) {
+        throw new BackupError('This backup was made by a newer version of the app. Update the app and try again.');
+    }
+    if (!Array.isArray(data.reports) || !Array.isArray(data.templates)) {
+        throw new BackupError('This backup is incomplete: its reports or templates are missing.');
+    }
+    if (data.customers !== undefined && !Array.isArray(data.customers)) {
+        throw new BackupError('This backup is incomplete: its customers are unreadable.');
+    }
+    if (data.revisions !== undefined && !Array.isArray(data.revisions)) {
+        throw new BackupError('This backup is incomplete: its report revisions are unreadable.');
+    }
+    const reports = data.reports.map(validateReport);
+    const templates = data.templates.map(validateTemplate);
+    // Older backups predate customers and revisions
+    const customers = (Array.isArray(data.customers) ? data.customers : []).map(validateCustomer);
+    const revisions = (Array.isArray(data.revisions) ? data.revisions : []).map(validateRevision);
+    ([[reports, 'reports'], [templates, 'templates'], [customers, 'customers'], [revisions, 'revisions']] as const).forEach(([items, kind]) => {
+        const ids = new Set(items.map(item => item.id));
+        if (ids.size !== items.length) {
+            throw new BackupError(`This backup contains two ${kind} with the same ID.`);
+        }
+    });
+    if (data.profile !== null && data.profile !== undefined
+        && !(isObject(data.profile) && typeof data.profile.companyName === 'string')) {
+        throw new BackupError('The company profile in this backup is unreadable.');
+    }
+
+    return {
+        format: BACKUP_FORMAT,
+        version: data.version,
+        exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+        reports,
+        templates,
+        customers,
+        revisions,
+        profile: (data.profile as Profile | undefined) || null,
+        materialSettings: isObject(data.materialSettings) ? data.materialSettings as MaterialSettings : null,
+        priceBook: isObject(data.priceBook) ? data.priceBook as PriceBook : null,
+        claimCodeBook: isObject(data.claimCodeBook) ? data.claimCodeBook as ClaimCodeBook : null,
+    };
+}
+
+/**
+ * Works out what restoring a backup will write.
+ *
+ * Replace takes the backup as-is. Merge keeps everything already here: incoming items identical
+ * to an existing one are skipped, and incoming items whose ID is taken by something different
+ * get a fresh ID. Reports are relinked to their template's and customer's new IDs, so template
+ * notes and customer details survive, and revisions follow their report to its new ID.
+ * @param existing The current workspace.
+ * @param backup The validated backup.
+ * @param mode Whether to merge into or replace the current workspace.
+ */
+export function planRestore(
+    existing: ExistingWorkspace,
+    backup: WorkspaceBackup,
+    mode: RestoreMode,
+): RestorePlan {
+    if (mode === 'replace') {
+        return {
+            mode,
+            reports: backup.reports,
+            templates: backup.templates,
+            customers: backup.customers,
+            revisions: backup.revisions,
+            profile: backup.profile,
+            materialSettings: backup.materialSettings,
+            priceBook: backup.priceBook,
+            claimCodeBook: backup.claimCodeBook,
+            duplicates: 0,
+            renumbered: 0,
+        };
+    }
+
+    const allIds = [
+        ...existing.reports, ...existing.templates, ...existing.customers, ...existing.revisions,
+        ...backup.reports, ...backup.templates, ...backup.customers, ...backup.revisions,
+    ].map(item => item.id);
+    let nextId = Math.max(Date.now(), ...allIds) + 1;
+    let duplicates = 0;
+    let renumbered = 0;
+
+    /**
+     * Splits incoming items into new ones (renumbered where needed) and duplicates,
+     * returning the items to write and a map from each incoming ID to its final ID.
+     */
+    const mergeItems = <T extends { id: number }>(current: T[], incoming: T[]) => {
+        const byId = new Map(current.map(item => [item.id, item]));
+        const idMap = new Map<number, number>();
+        const toWrite: T[] = [];
+        incoming.forEach(item => {
+            const clash = byId.get(item.id);
+            if (!clash) {
+                idMap.set(item.id, item.id);
+                toWrite.push(item);
+            } else if (canonicalJson(clash) === canonicalJson(item)) {
+                idMap.set(item.id, item.id);
+                duplicates++;
+            } else {
+                const id = nextId++;
+                idMap.set(item.id, id);
+                toWrite.push({ ...item, id });
+                renumbered++;
+            }
+        });
+        return { toWrite, idMap };
+    };
+
+    const templates = mergeItems(existing.templates, backup.templates);
+    const customers = mergeItems(existing.customers, backup.customers);
+    const relinked = backup.reports.map(report => {
+        const linked = { ...report };
+        if (report.templateId !== undefined && templates.idMap.has(report.templateId)) {
+            linked.templateId = templates.idMap.get(report.templateId);
+        }
+        if (report.customerId !== undefined && customers.idMap.has(report.customerId)) {
+            linked.customerId = customers.idMap.get(report.customerId);
+        }
+        return linked;
+    });
+    const reports = mergeItems(existing.reports, relinked);
+    const revisions = mergeItems(existing.revisions, backup.revisions.map(revision => (reports.idMap.has(revision.reportId)
+        ? { ...revision, reportId: reports.idMap.get(revision.reportId)! }
+        : revision)));
+
+    return {
+        mode,
+        reports: reports.toWrite,
+        templates: templates.toWrite,
+        customers: customers.toWrite,
+        revisions: revisions.toWrite,
+        profile: existing.profile ? null : backup.profile,
+        materialSettings: null,
+        priceBook: null,
+        claimCodeBook: null,
+        duplicates,
+        renumbered,
+    };
+}
+
+/**
+ * A dated file name for a backup, e.g. "contractorflow-backup-2024-05-01.json".
+ */
+export function backupFileName(date = new Date()): string {
+    return `${BACKUP_FORMAT}-${date.toISOString().slice(0, 10)}.json`;
+}
@@ -0,0 +1,113 @@
+import type { MeasurementKey, Measurements, RawMeasurements, Report } from "../types";
+import { risePerTwelve, MEASUREMENT_LABELS } from "./measurements";
+import { pitchMultiplier } from "./facets";
+
+// --- MEASUREMENT CHECKS ---
+
+/**
+ * A measurement that doesn't sit right with the rest of the roof.
+ */
+export type MeasurementWarning = {
+    /**
+     * The rule and the values it was checked against, so accepting a warning only lasts until
+     * one of those values changes.
+     */
+    id: string;
+    key: MeasurementKey; // The measurement row the warning is shown on
+    message: string;
+};
+
+const MIN_SHINGLE_RISE = 2;
+const MAX_PLAUSIBLE_RISE = 18;
+const MAX_PLAUSIBLE_AREA = 30000;
+/** The longest footprint allowed for, as length to depth. */
+const MAX_ASPECT_RATIO = 10;
+/** Extra roof edge allowed on top of a plain rectangle, for wings, dormers and bump-outs. */
+const CUT_UP_ALLOWANCE = 1.5;
+
+const formatNumber = (value: number) => value.toLocaleString('en-US', { maximumFractionDigits: 0 });
+
+/**
+ * Checks a report's measurements against each other and against what a real roof could have:
+ * the roof edge length against the area, the pitch against plausible ranges, valleys with
+ * no ridges or hips for them to run between, and values that couldn't be read.
+ * @param measurements The measurements to check.
+ * @param unparsed Saved values that couldn't be read, if any.
+ * @returns One warning per problem found, in measurement order.
+ */
+export function checkMeasurements(measurements: Measurements, unparsed?: Partial<RawMeasurements>): MeasurementWarning[] {
+    const warnings: MeasurementWarning[] = [];
+    const warn = (rule: string, key: MeasurementKey, inputs: (string | number)[], message: string) =>
+        warnings.push({ id: `${rule}:${inputs.join('/')}`, key, message });
+
+    const area = measurements.totalArea.value;
+    const pitch = risePerTwelve(measurements.pitch);
+    const ridges = measurements.ridges.value;
+    const hips = measurements.hips.value;
+    const valleys = measurements.valleys.value;
+    const eaves = measurements.eaves.value;
+    const rakes = measurements.rakes.value;
+    // Unreadable values are zeroed, so rules that use them would only repeat the same problem
+    const readable = (...keys: MeasurementKey[]) => keys.every(key => unparsed?.[key] === undefined);
+
+    Object.entries(unparsed || {}).forEach(([key, text]) => {
+        const label = MEASUREMENT_LABELS[key as MeasurementKey].toLowerCase();
+        warn('unreadable', key as MeasurementKey, [key, text], text.trim()
+            ? `The saved ${label} "${text}" couldn't be read. Enter the correct value.`
+            : `No ${label} value was recorded. Enter the correct value.`);
+    });
+
+    if (area <= 0 && readable('totalArea')) {
+        warn('noArea', 'totalArea', [area], 'No roof area was recorded.');
+    } else if (area > MAX_PLAUSIBLE_AREA) {
+        warn('hugeArea', 'totalArea', [area], `${formatNumber(area)} sq ft is larger than almost any house roof. Check the units and the value.`);
+    }
+
+    if (readable('pitch')) {
+        if (pitch === 0 && ridges + hips > 0) {
+            warn('flatPitch', 'pitch', [pitch, ridges, hips], 'The pitch is flat, but the roof has ridges or hips. Check the pitch.');
+        } else if (pitch > 0 && pitch < MIN_SHINGLE_RISE) {
+            warn('lowPitch', 'pitch', [pitch], `Below ${MIN_SHINGLE_RISE}/12 is a low-slope roof that needs membrane, not shingles. Check the pitch.`);
+        } else if (pitch > MAX_PLAUSIBLE_RISE) {
+            warn('steepPitch', 'pitch', [pitch], `${formatNumber(pitch)}/12 is steeper than almost any pitched roof (${MAX_PLAUSIBLE_RISE}/12). Check the pitch.`);
+        }
+    }
+
+    if (valleys > 0 && ridges === 0 && hips === 0 && readable('ridges', 'hips')) {
+        warn('valleysAlone', 'valleys', [valleys, ridges, hips], 'There are valleys but no ridges or hips. Valleys form where two roofs meet, which always makes a ridge or hip.');
+    }
+
+    if (area > 0 && eaves === 0 && readable('eaves')) {
+        warn('noEaves', 'eaves', [area, eaves], 'No eaves were recorded. Nearly every roof has eaves along its lower edges.');
+    }
+
+    if (eaves > 0 && ridges > eaves) {
+        warn('longRidge', 'ridges', [ridges, eaves], `The ridges (${formatNumber(ridges)} ft) are longer than the eaves (${formatNumber(eaves)} ft). On most roofs they are about half the eave length or less.`);
+    }
+
+    // The eaves and the rakes (taken back to plan length) together run around the footprint
+    if (area > 0 && eaves > 0 && readable('rakes', 'pitch')) {
+        const footprint = area / pitchMultiplier(measurements.pitch);
+        const outline = eaves + rakes / pitchMultiplier(measurements.pitch);
+        const longest = 2 * (Math.sqrt(footprint * MAX_ASPECT_RATIO) + Math.sqrt(footprint / MAX_ASPECT_RATIO)) * CUT_UP_ALLOWANCE;
+        const shortest = 4 * Math.sqrt(footprint);
+        const inputs = [area, eaves, rakes, measurements.pitch.rise, measurements.pitch.run];
+        if (outline > longest) {
+            warn('longOutline', rakes > eaves ? 'rakes' : 'eaves', inputs,
+                `The eaves and rakes add up to ${formatNumber(eaves + rakes)} ft, more roof edge than a ${formatNumber(area)} sq ft roof could have (about ${formatNumber(longest)} ft at most). Check these lengths and the area.`);
+        } else if (outline < shortest * 0.9) {
+            warn('shortOutline', 'totalArea', inputs,
+                `The eaves and rakes add up to only ${formatNumber(eaves + rakes)} ft, but even a square roof of ${formatNumber(area)} sq ft has about ${formatNumber(shortest)} ft of edge. Check the area and these lengths.`);
+        }
+    }
+
+    return warnings;
+}
+
+/**
+ * The report's warnings that the estimator hasn't checked and accepted.
+ */
+export function unresolvedWarnings(report: Pick<Report, 'measurements' | 'unparsedMeasurements' | 'acceptedWarnings'>): MeasurementWarning[] {
+    const accepted = new Set(report.acceptedWarnings || []);
+    return checkMeasurements(report.measurements, report.unparsedMeasurements).filter(warning => !accepted.has(warning.id));
+}
@@ -0,0 +1,76 @@
+import type { Customer } from "../types";
+
+// --- CUSTOMERS ---
+
+/**
+ * The customer fields a customer form edits, in display order.
+ */
+export const CUSTOMER_FIELDS: { key: keyof Omit<Customer, 'id' | 'createdAt' | 'notes'>; label: string; type: string; placeholder: string }[] = [
+    { key: 'name', label: 'Name', type: 'text', placeholder: 'e.g., Jordan Smith' },
+    { key: 'phone', label: 'Phone', type: 'tel', placeholder: 'e.g., (555) 123-4567' },
+    { key: 'email', label: 'Email', type: 'email', placeholder: 'e.g., jordan@example.com' },
+    { key: 'address', label: 'Mailing Address', type: 'text', placeholder: 'If different from the property' },
+    { key: 'insuranceCarrier', label: 'Insurance Carrier', type: 'text', placeholder: 'e.g., State Farm' },
+    { key: 'claimNumber', label: 'Claim Number', type: 'text', placeholder: 'e.g., 12-3456-789' },
+];
+
+/**
+ * Thrown when a customer can't be saved as entered.
+ */
+export class CustomerValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CustomerValidationError';
+    }
+}
+
+/**
+ * Builds a customer from form values, trimming every field.
+ * @param fields The entered values; missing ones are treated as blank.
+ * @param existing The customer being edited, whose ID and creation date are kept.
+ * @throws CustomerValidationError if there is no name or the email is malformed.
+ */
+export function buildCustomer(fields: Partial<Record<keyof Customer, string>>, existing?: Customer): Customer {
+    const value = (key: keyof Customer) => (fields[key] || '').trim();
+    const customer: Customer = {
+        id: existing?.id ?? Date.now(),
+        name: value('name'),
+        phone: value('phone'),
+        email: value('email'),
+        address: value('address'),
+        insuranceCarrier: value('insuranceCarrier'),
+        claimNumber: value('claimNumber'),
+        notes: value('notes'),
+        createdAt: existing?.createdAt ?? new Date().toISOString(),
+    };
+    if (!customer.name) throw new CustomerValidationError('Please enter the customer\'s name.');
+    if (customer.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(customer.email)) {
+        throw new CustomerValidationError('Please enter a valid email address, or leave it blank.');
+    }
+    return customer;
+}
+
+/**
+ * Contact details as short lines, e.g. ["(555) 123-4567", "jordan@example.com"].
+ */
+export function customerContactLines(customer: Customer): string[] {
+    return [customer.phone, customer.email, customer.address].filter(Boolean);
+}
+
+/**
+ * The insurance line for reports, e.g. "State Farm, claim #12-3456-789", or '' if none.
+ */
+export function describeInsurance(customer: Customer): string {
+    if (!customer.insuranceCarrier && !customer.claimNumber) return '';
+    if (!customer.claimNumber) return customer.insuranceCarrier;
+    return `${customer.insuranceCarrier || 'Claim'}${customer.insuranceCarrier ? ', claim' : ''} #${customer.claimNumber}`;
+}
+
+/**
+ * All of a customer's searchable text in lower case, for matching history searches.
+ */
+export function customerSearchText(customer: Customer): string {
+    return [customer.name, customer.phone, customer.email, customer.address, customer.insuranceCarrier, customer.claimNumber]
+        .join(' ')
+        .toLowerCase();
+}
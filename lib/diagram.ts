@@ -0,0 +1,121 @@
+import type { Measurements, RoofType } from "../types";
+import { EDGE_COLORS, EDGE_KINDS, EDGE_LABELS, EDGE_MEASUREMENT_KEYS } from "./facets";
+import { buildRoofModel, distance3d, modelEdgeLength, roofTypeLabel, type ModelPoint } from "./roofModel";
+
+// --- ROOF DIAGRAM ---
+
+export type DiagramPoint = [number, number];
+
+/**
+ * One drawing instruction. Diagrams are built from these so the same drawing can be
+ * rendered as SVG on screen and as vector paths in the PDF.
+ */
+export type DiagramShape =
+    | { type: 'polygon'; points: DiagramPoint[]; fill: string; stroke: string; strokeWidth: number }
+    | { type: 'line'; from: DiagramPoint; to: DiagramPoint; stroke: string; strokeWidth: number; dashed?: boolean }
+    | {
+        type: 'text';
+        at: DiagramPoint;
+        text: string;
+        size: number;
+        bold?: boolean;
+        color: string;
+        anchor: 'start' | 'middle' | 'end';
+        vertical?: boolean; // Reads bottom to top
+    };
+
+export type RoofDiagram = {
+    width: number;
+    height: number;
+    title: string;
+    shapes: DiagramShape[];
+};
+
+const LABEL_COLOR = '#4a5568';
+const SHAPE_FILL = '#e2e8f0';
+const SHAPE_STROKE = '#a0aec0';
+
+const formatLength = (value: number) => (Number.isInteger(value) ? String(value) : value.toFixed(1));
+
+/**
+ * Builds a plan (top-down) diagram of the roof for its type, with every ridge, hip, valley,
+ * eave and rake drawn in its own color and labeled with its length, and a legend of the
+ * measured totals. Each line's label is its share of the measured total for its kind, so the
+ * labels add up to the report's figures even though the drawing is an idealised shape; kinds
+ * with no measured footage are drawn unlabelled.
+ * @param measurements The roof measurements.
+ * @param roofType The roof type; guessed from the measurements when not given.
+ */
+export function buildRoofDiagram(measurements: Measurements, roofType?: RoofType): RoofDiagram {
+    const model = buildRoofModel(measurements, roofType);
+    const width = 480;
+    const height = 300;
+    const plan = { left: 40, top: 50, width: 270, height: 220 };
+
+    // Fit the footprint (including any wing) into the plan area, centered
+    const xs = model.points.map(([x]) => x);
+    const ys = model.points.map(([, y]) => y);
+    const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+    const scale = Math.min(plan.width / (maxX - minX || 1), plan.height / (maxY - minY || 1));
+    const offsetX = plan.left + (plan.width - (maxX - minX) * scale) / 2;
+    const offsetY = plan.top + (plan.height - (maxY - minY) * scale) / 2;
+    // The front of the building (y = 0) is drawn at the bottom
+    const toDiagram = ([x, y]: ModelPoint): DiagramPoint => [offsetX + (x - minX) * scale, offsetY + (maxY - y) * scale];
+    const center: DiagramPoint = [plan.left + plan.width / 2, plan.top + plan.height / 2];
+
+    const shapes: DiagramShape[] = model.facets.map(facet => ({
+        type: 'polygon',
+        points: facet.points.map(index => toDiagram(model.points[index])),
+        fill: SHAPE_FILL, stroke: SHAPE_STROKE, strokeWidth: 1,
+    }));
+
+    EDGE_KINDS.forEach(kind => {
+        const edges = model.edges.filter(edge => edge.kind === kind);
+        const modelTotal = modelEdgeLength(model, kind);
+        const measured = measurements[EDGE_MEASUREMENT_KEYS[kind]].value;
+        edges.forEach(edge => {
+            const from = toDiagram(model.points[edge.from]);
+            const to = toDiagram(model.points[edge.to]);
+            shapes.push({ type: 'line', from, to, stroke: EDGE_COLORS[kind], strokeWidth: 3 });
+            const drawnLength = Math.hypot(to[0] - from[0], to[1] - from[1]);
+            if (drawnLength < 28 || measured <= 0 || modelTotal <= 0) return;
+            const length = distance3d(model.points[edge.from], model.points[edge.to]);
+            const labelled = (length / modelTotal) * measured;
+            // Nudge the label off the line, away from the middle of the roof
+            const middle: DiagramPoint = [(from[0] + to[0]) / 2, (from[1] + to[1]) / 2];
+            let [nx, ny] = [(from[1] - to[1]) / drawnLength, (to[0] - from[0]) / drawnLength];
+            if (nx * (middle[0] - center[0]) + ny * (middle[1] - center[1]) < 0) [nx, ny] = [-nx, -ny];
+            shapes.push({
+                type: 'text',
+                at: [middle[0] + nx * 9, middle[1] + ny * 9 + 3],
+                text: `${Math.round(labelled)}'`,
+                size: 10,
+                bold: true,
+                color: EDGE_COLORS[kind],
+                anchor: Math.abs(nx) > 0.7 ? (nx > 0 ? 'start' : 'end') : 'middle',
+            });
+        });
+    });
+
+    // Legend of measured totals
+    const legendX = 335;
+    const { rise, run } = measurements.pitch;
+    shapes.push({ type: 'text', at: [legendX, plan.top + 4], text: roofTypeLabel(model.roofType), size: 13, bold: true, color: '#1a202c', anchor: 'start' });
+    shapes.push({ type: 'text', at: [legendX, plan.top + 22], text: `Pitch ${rise}/${run}`, size: 11, color: LABEL_COLOR, anchor: 'start' });
+    EDGE_KINDS.forEach((kind, index) => {
+        const y = plan.top + 48 + index * 22;
+        shapes.push({ type: 'line', from: [legendX, y - 4], to: [legendX + 18, y - 4], stroke: EDGE_COLORS[kind], strokeWidth: 3 });
+        shapes.push({
+            type: 'text',
+            at: [legendX + 24, y],
+            text: `${EDGE_LABELS[kind]}s: ${formatLength(measurements[EDGE_MEASUREMENT_KEYS[kind]].value)} ft`,
+            size: 11,
+            color: LABEL_COLOR,
+            anchor: 'start',
+        });
+    });
+    shapes.push({ type: 'text', at: [legendX, plan.top + 170], text: 'Plan view, front at bottom.', size: 9, color: LABEL_COLOR, anchor: 'start' });
+    shapes.push({ type: 'text', at: [legendX, plan.top + 182], text: 'Not to exact scale.', size: 9, color: LABEL_COLOR, anchor: 'start' });
+
+    return { width, height, title: 'Roof Diagram', shapes };
+}
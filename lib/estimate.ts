@@ -0,0 +1,266 @@
+import type {
+    ClaimCode, ClaimCodeBook, ClaimQuantityBasis, EstimateLine, InsuranceEstimate, Measurements, RoofFacet,
+} from "../types";
+import { risePerTwelve } from "./measurements";
+import { slopedArea } from "./facets";
+
+// --- INSURANCE LINE-ITEM ESTIMATE ---
+
+export const CLAIM_BASIS_LABELS: Record<ClaimQuantityBasis, string> = {
+    squares: 'Roof squares',
+    squaresWithWaste: 'Roof squares + waste',
+    eaves: 'Eaves (LF)',
+    rakes: 'Rakes (LF)',
+    eavesAndRakes: 'Eaves + rakes (LF)',
+    ridgesAndHips: 'Ridges + hips (LF)',
+    valleys: 'Valleys (LF)',
+    steepSquares: 'Squares in a pitch range',
+    highSquares: 'Roof squares, 2+ stories',
+    each: 'One per job',
+};
+
+export const CLAIM_UNITS: ClaimCode['unit'][] = ['SQ', 'LF', 'EA'];
+
+/**
+ * Starting line codes, in the style of common claim estimating software. Codes, descriptions
+ * and prices are all editable in Settings to match the carrier's price list.
+ */
+export const DEFAULT_CLAIM_CODE_BOOK: ClaimCodeBook = {
+    codes: [
+        { code: 'RFG ARMV', description: 'Remove laminated comp. shingle roofing', unit: 'SQ', basis: 'squares', unitPrice: 68.5 },
+        { code: 'RFG 300S', description: 'Laminated comp. shingle roofing - w/out felt', unit: 'SQ', basis: 'squaresWithWaste', unitPrice: 289.75 },
+        { code: 'RFG FELT15', description: 'Roofing felt - 15 lb.', unit: 'SQ', basis: 'squares', unitPrice: 38.9 },
+        { code: 'RFG ASTR', description: 'Asphalt starter - universal starter course', unit: 'LF', basis: 'eavesAndRakes', unitPrice: 2.15 },
+        { code: 'RFG DRIP', description: 'Drip edge', unit: 'LF', basis: 'eavesAndRakes', unitPrice: 3.2 },
+        { code: 'RFG RIDGC', description: 'Hip / Ridge cap - standard profile - composition shingles', unit: 'LF', basis: 'ridgesAndHips', unitPrice: 7.45 },
+        { code: 'RFG VMTL', description: 'Valley metal', unit: 'LF', basis: 'valleys', unitPrice: 6.8 },
+        { code: 'RFG STEEP', description: 'Additional charge for steep roof - 7/12 to under 10/12 slope', unit: 'SQ', basis: 'steepSquares', unitPrice: 58.4, minPitch: 7, maxPitch: 10 },
+        { code: 'RFG STEEP+', description: 'Additional charge for steep roof - 10/12 to under 13/12 slope', unit: 'SQ', basis: 'steepSquares', unitPrice: 92.1, minPitch: 10, maxPitch: 13 },
+        { code: 'RFG STEEP++', description: 'Additional charge for steep roof - 13/12 slope and steeper', unit: 'SQ', basis: 'steepSquares', unitPrice: 131.6, minPitch: 13 },
+        { code: 'RFG HIGH', description: 'Additional charge for high roof (2 stories or greater)', unit: 'SQ', basis: 'highSquares', unitPrice: 24.3 },
+    ],
+    depreciationPercent: 0,
+    overheadPercent: 10,
+    profitPercent: 10,
+    taxPercent: 7,
+};
+
+const roundQuantity = (value: number, unit: ClaimCode['unit']) => (unit === 'LF' ? Math.ceil(value) : Math.round(value * 100) / 100);
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Steep-charge bands as first shipped, when a range included its upper pitch, with the
+ * half-open band each became. A 9.5/12 facet fell between the old bands.
+ */
+const LEGACY_STEEP_BANDS: { code: string; minPitch: number; maxPitch: number; description: string }[] = [
+    { code: 'RFG STEEP', minPitch: 7, maxPitch: 9, description: 'Additional charge for steep roof - 7/12 to 9/12 slope' },
+    { code: 'RFG STEEP+', minPitch: 10, maxPitch: 12, description: 'Additional charge for steep roof - 10/12 - 12/12 slope' },
+];
+
+/**
+ * Moves a saved code's steep band from the old inclusive defaults to the current ones. Bands
+ * the estimator set themselves are left alone, and the band above 12/12 isn't added to a
+ * saved code book; add it in Settings.
+ */
+function migrateSteepBand(code: ClaimCode): ClaimCode {
+    const legacy = LEGACY_STEEP_BANDS.find(band => band.code === code.code && band.minPitch === code.minPitch && band.maxPitch === code.maxPitch);
+    const current = DEFAULT_CLAIM_CODE_BOOK.codes.find(c => c.code === code.code);
+    if (!legacy || !current || code.basis !== 'steepSquares') return code;
+    return {
+        ...code,
+        maxPitch: current.maxPitch,
+        description: code.description === legacy.description ? current.description : code.description,
+    };
+}
+
+/**
+ * Merges a stored (possibly partial or outdated) code book over the defaults.
+ */
+export function resolveClaimCodeBook(stored?: Partial<ClaimCodeBook> | null): ClaimCodeBook {
+    return { ...DEFAULT_CLAIM_CODE_BOOK, ...stored, codes: stored?.codes?.map(migrateSteepBand) || DEFAULT_CLAIM_CODE_BOOK.codes };
+}
+
+/**
+ * The quantity of a code for a roof, in the code's unit.
+ * @param code The line code.
+ * @param measurements The report's measurements.
+ * @param facets The report's facets, for pitch-range charges.
+ * @param stories How many stories the building has.
+ */
+export function claimQuantity(code: ClaimCode, measurements: Measurements, facets: RoofFacet[], stories: number): number {
+    const squares = measurements.totalArea.value / 100;
+    const quantity = (() => {
+        switch (code.basis) {
+            case 'squares': return squares;
+            case 'squaresWithWaste': return squares * (1 + measurements.wasteFactor.value / 100);
+            case 'eaves': return measurements.eaves.value;
+            case 'rakes': return measurements.rakes.value;
+            case 'eavesAndRakes': return measurements.eaves.value + measurements.rakes.value;
+            case 'ridgesAndHips': return measurements.ridges.value + measurements.hips.value;
+            case 'valleys': return measurements.valleys.value;
+            case 'steepSquares':
+                return facets
+                    .filter(facet => {
+                        const pitch = risePerTwelve(facet.pitch);
+                        // Half-open, so neighbouring bands meet without a gap: 7–10 then 10–13
+                        return pitch >= (code.minPitch ?? 0) && pitch < (code.maxPitch ?? Infinity);
+                    })
+                    .reduce((sum, facet) => sum + slopedArea(facet) / 100, 0);
+            case 'highSquares': return stories >= 2 ? squares : 0;
+            case 'each': return 1;
+        }
+    })();
+    return roundQuantity(quantity, code.unit);
+}
+
+/**
+ * Turns a code into an estimate line with the quantity the measurements give.
+ */
+function generatedLine(code: ClaimCode, quantity: number): EstimateLine {
+    return {
+        id: `line_${code.code.replace(/\W+/g, '_')}`,
+        code: code.code,
+        description: code.description,
+        quantity,
+        unit: code.unit,
+        unitPrice: code.unitPrice,
+        calculatedQuantity: quantity,
+    };
+}
+
+/**
+ * Builds an estimate from the code book, with one line per code that applies to the roof.
+ * Regenerating keeps the lines the estimator added by hand and the percentages already set.
+ * @param measurements The report's measurements.
+ * @param facets The report's facets.
+ * @param codeBook The configured line codes and default percentages.
+ * @param stories How many stories the building has.
+ * @param previous The estimate being regenerated, if any.
+ */
+export function generateEstimate(
+    measurements: Measurements,
+    facets: RoofFacet[],
+    codeBook: ClaimCodeBook,
+    stories: number,
+    previous?: InsuranceEstimate,
+): InsuranceEstimate {
+    const lines = codeBook.codes
+        .map(code => generatedLine(code, claimQuantity(code, measurements, facets, stories)))
+        .filter(line => line.quantity > 0);
+    const manualLines = previous?.lines.filter(line => line.calculatedQuantity === undefined) || [];
+    return {
+        createdAt: new Date().toISOString(),
+        stories,
+        lines: [...lines, ...manualLines],
+        depreciationPercent: previous?.depreciationPercent ?? codeBook.depreciationPercent,
+        applyOverheadAndProfit: previous?.applyOverheadAndProfit ?? true,
+        overheadPercent: previous?.overheadPercent ?? codeBook.overheadPercent,
+        profitPercent: previous?.profitPercent ?? codeBook.profitPercent,
+        taxPercent: previous?.taxPercent ?? codeBook.taxPercent,
+    };
+}
+
+/**
+ * Brings an estimate's generated quantities up to date after the measurements change.
+ * Unlike regenerating, quantities the estimator overrode, prices, lines added by hand and
+ * lines removed all stay as they are.
+ * @param estimate The saved estimate.
+ * @param measurements The report's current measurements.
+ * @param facets The report's current facets.
+ * @param codeBook The configured line codes, for how each generated line is measured.
+ */
+export function refreshEstimateQuantities(
+    estimate: InsuranceEstimate,
+    measurements: Measurements,
+    facets: RoofFacet[],
+    codeBook: ClaimCodeBook,
+): InsuranceEstimate {
+    const lines = estimate.lines.map(line => {
+        const code = codeBook.codes.find(c => c.code === line.code);
+        if (line.calculatedQuantity === undefined || !code) return line;
+        const calculatedQuantity = claimQuantity(code, measurements, facets, estimate.stories);
+        return { ...line, quantity: isOverridden(line) ? line.quantity : calculatedQuantity, calculatedQuantity };
+    });
+    return { ...estimate, lines };
+}
+
+/**
+ * A line added by hand, from a code in the code book or typed in.
+ */
+export function manualLine(line: Omit<EstimateLine, 'id' | 'calculatedQuantity'>, id = `line_${Date.now()}`): EstimateLine {
+    return { ...line, id };
+}
+
+export function lineTotal(line: EstimateLine): number {
+    return roundCents(line.quantity * line.unitPrice);
+}
+
+/**
+ * Whether the estimator changed a generated line's quantity.
+ */
+export function isOverridden(line: EstimateLine): boolean {
+    return line.calculatedQuantity !== undefined && line.quantity !== line.calculatedQuantity;
+}
+
+export type EstimateTotals = {
+    lineItems: number;
+    tax: number;
+    overheadAndProfit: number;
+    replacementCost: number; // RCV
+    depreciation: number;
+    actualCashValue: number; // ACV
+};
+
+/**
+ * Totals an estimate the way carriers do: tax on the line items, O&P on line items and tax,
+ * and depreciation taken from the replacement cost before O&P.
+ */
+export function estimateTotals(estimate: InsuranceEstimate): EstimateTotals {
+    const lineItems = roundCents(estimate.lines.reduce((sum, line) => sum + lineTotal(line), 0));
+    const tax = roundCents(lineItems * estimate.taxPercent / 100);
+    const overheadAndProfit = estimate.applyOverheadAndProfit
+        ? roundCents((lineItems + tax) * (estimate.overheadPercent + estimate.profitPercent) / 100)
+        : 0;
+    const replacementCost = roundCents(lineItems + tax + overheadAndProfit);
+    const depreciation = roundCents((lineItems + tax) * estimate.depreciationPercent / 100);
+    return { lineItems, tax, overheadAndProfit, replacementCost, depreciation, actualCashValue: roundCents(replacementCost - depreciation) };
+}
+
+/**
+ * Labels and amounts of the estimate's summary rows, in the order they're shown.
+ */
+export function estimateSummaryRows(estimate: InsuranceEstimate): [string, number][] {
+    const totals = estimateTotals(estimate);
+    return [
+        ['Line Item Total', totals.lineItems],
+        [`Sales Tax (${estimate.taxPercent}%)`, totals.tax],
+        ...(estimate.applyOverheadAndProfit
+            ? [[`Overhead & Profit (${estimate.overheadPercent}% + ${estimate.profitPercent}%)`, totals.overheadAndProfit] as [string, number]]
+            : []),
+        ['Replacement Cost Value (RCV)', totals.replacementCost],
+        [`Less Depreciation (${estimate.depreciationPercent}%)`, -totals.depreciation],
+        ['Actual Cash Value (ACV)', totals.actualCashValue],
+    ];
+}
+
+const csvCell = (value: string | number) => {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * The estimate as CSV, one row per line item followed by the summary rows.
+ * @param estimate The estimate.
+ * @param heading Rows of claim details written above the line items, e.g. [["Claim Number", "123"]].
+ */
+export function estimateToCsv(estimate: InsuranceEstimate, heading: [string, string][]): string {
+    const rows: (string | number)[][] = [
+        ...heading,
+        [],
+        ['Code', 'Description', 'Quantity', 'Unit', 'Unit Price', 'Total'],
+        ...estimate.lines.map(line => [line.code, line.description, line.quantity, line.unit, line.unitPrice.toFixed(2), lineTotal(line).toFixed(2)]),
+        [],
+        ...estimateSummaryRows(estimate).map(([label, amount]) => ['', label, '', '', '', amount.toFixed(2)]),
+    ];
+    return rows.map(row => row.map(csvCell).join(',')).join('\r\n');
+}
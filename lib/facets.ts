@@ -0,0 +1,130 @@
+import type { EdgeKind, Measurements, Pitch, RoofFacet } from "../types";
+
+// --- ROOF FACETS ---
+
+export const EDGE_KINDS: EdgeKind[] = ['ridge', 'hip', 'valley', 'eave', 'rake'];
+
+export const EDGE_LABELS: Record<EdgeKind, string> = {
+    ridge: 'Ridge',
+    hip: 'Hip',
+    valley: 'Valley',
+    eave: 'Eave',
+    rake: 'Rake',
+};
+
+export const EDGE_COLORS: Record<EdgeKind, string> = {
+    ridge: '#E53E3E',
+    hip: '#DD6B20',
+    valley: '#3182CE',
+    eave: '#38A169',
+    rake: '#805AD5',
+};
+
+/**
+ * Maps each edge type to the rolled-up measurement it contributes to.
+ */
+export const EDGE_MEASUREMENT_KEYS = {
+    ridge: 'ridges',
+    hip: 'hips',
+    valley: 'valleys',
+    eave: 'eaves',
+    rake: 'rakes',
+} as const satisfies Record<EdgeKind, keyof Measurements>;
+
+/**
+ * The factor that converts a plan (footprint) area to the sloped roof surface.
+ * @param pitch The facet pitch.
+ * @returns sqrt(1 + (rise/run)²), e.g. 1.118 for 6/12.
+ */
+export function pitchMultiplier(pitch: Pitch): number {
+    const slope = pitch.run > 0 ? pitch.rise / pitch.run : 0;
+    return Math.sqrt(1 + slope * slope);
+}
+
+/**
+ * The factor that converts the plan length of a hip or valley to its true length, for one
+ * running at 45° in plan between two facets of the same pitch.
+ * @param pitch The pitch of the facets either side.
+ * @returns sqrt(1 + rise² / (2 × run²)), e.g. 1.061 for 6/12.
+ */
+export function hipValleyMultiplier(pitch: Pitch): number {
+    const slope = pitch.run > 0 ? pitch.rise / pitch.run : 0;
+    return Math.sqrt(1 + (slope * slope) / 2);
+}
+
+/**
+ * The sloped surface area of a facet in sq ft.
+ */
+export function slopedArea(facet: RoofFacet): number {
+    return facet.planArea * pitchMultiplier(facet.pitch);
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Creates an empty facet with a unique ID.
+ * @param name Display name for the facet.
+ * @param pitch Starting pitch, usually the report's primary pitch.
+ */
+export function createFacet(name: string, pitch: Pitch): RoofFacet {
+    return {
+        id: `f_${Date.now()}_${Math.random().toString(36).substring(2, 7)}`,
+        name,
+        planArea: 0,
+        pitch: { ...pitch },
+        edges: { ridge: 0, hip: 0, valley: 0, eave: 0, rake: 0 },
+    };
+}
+
+/**
+ * Builds a single facet holding a whole roof's totals, for reports that only have
+ * rolled-up measurements (model output and reports saved before facets existed).
+ * @param measurements The rolled-up measurements; totalArea is treated as sloped area.
+ */
+export function createFacetFromMeasurements(measurements: Measurements): RoofFacet {
+    const facet = createFacet('Main Roof', measurements.pitch);
+    facet.planArea = measurements.totalArea.value / pitchMultiplier(measurements.pitch);
+    EDGE_KINDS.forEach(kind => {
+        facet.edges[kind] = measurements[EDGE_MEASUREMENT_KEYS[kind]].value;
+    });
+    return facet;
+}
+
+/**
+ * The pitch covering the most sloped area, used as the report's primary pitch.
+ */
+export function predominantPitch(facets: RoofFacet[]): Pitch | null {
+    const areaByPitch = new Map<string, { pitch: Pitch; area: number }>();
+    facets.forEach(facet => {
+        const key = `${facet.pitch.rise}/${facet.pitch.run}`;
+        const entry = areaByPitch.get(key) || { pitch: facet.pitch, area: 0 };
+        entry.area += slopedArea(facet);
+        areaByPitch.set(key, entry);
+    });
+    const entries = [...areaByPitch.values()];
+    if (entries.length === 0) return null;
+    const best = entries.reduce((a, b) => (b.area > a.area ? b : a));
+    return { ...best.pitch };
+}
+
+/**
+ * Rolls facets up into report totals: sloped area, predominant pitch and summed edge lengths.
+ * @param facets The roof facets.
+ * @param current The report's current measurements; the waste factor (and the pitch, when there
+ *                are no facets) is carried over from here.
+ * @returns The derived measurements.
+ */
+export function deriveMeasurementsFromFacets(facets: RoofFacet[], current: Measurements): Measurements {
+    const derived: Measurements = {
+        ...current,
+        totalArea: { value: round1(facets.reduce((sum, facet) => sum + slopedArea(facet), 0)), unit: 'sq ft' },
+        pitch: predominantPitch(facets) || current.pitch,
+    };
+    EDGE_KINDS.forEach(kind => {
+        derived[EDGE_MEASUREMENT_KEYS[kind]] = {
+            value: round1(facets.reduce((sum, facet) => sum + facet.edges[kind], 0)),
+            unit: 'ft',
+        };
+    });
+    return derived;
+}
@@ -0,0 +1,112 @@
+import type { MaterialKey, MaterialLine, MaterialSettings, MaterialTakeoff, Measurements } from "../types";
+import { risePerTwelve } from "./measurements";
+
+// --- MATERIAL TAKEOFF ---
+
+/**
+ * Coverage units for each product, used for labels in the settings form.
+ */
+export const MATERIAL_COVERAGE_UNITS: Record<MaterialKey, { coverage: string; purchase: string }> = {
+    shingles: { coverage: 'sq ft per bundle', purchase: 'bundles' },
+    underlayment: { coverage: 'sq ft per roll', purchase: 'rolls' },
+    starterStrip: { coverage: 'linear ft per bundle', purchase: 'bundles' },
+    ridgeCap: { coverage: 'linear ft per bundle', purchase: 'bundles' },
+    dripEdge: { coverage: 'linear ft per piece', purchase: 'pieces' },
+    iceAndWater: { coverage: 'sq ft per roll', purchase: 'rolls' },
+    valleyMetal: { coverage: 'linear ft per piece', purchase: 'pieces' },
+    nails: { coverage: 'squares per box', purchase: 'boxes' },
+};
+
+/**
+ * Display order of products in the takeoff table and settings form.
+ */
+export const MATERIAL_KEYS: MaterialKey[] = [
+    'shingles', 'underlayment', 'starterStrip', 'ridgeCap', 'dripEdge', 'iceAndWater', 'valleyMetal', 'nails',
+];
+
+export const DEFAULT_MATERIAL_SETTINGS: MaterialSettings = {
+    products: {
+        shingles: { name: 'Architectural Shingles', coverage: 33.3 },
+        underlayment: { name: 'Synthetic Underlayment', coverage: 1000 },
+        starterStrip: { name: 'Starter Strip', coverage: 120 },
+        ridgeCap: { name: 'Hip & Ridge Cap', coverage: 33 },
+        dripEdge: { name: 'Drip Edge (10 ft)', coverage: 10 },
+        iceAndWater: { name: 'Ice & Water Shield', coverage: 200 },
+        valleyMetal: { name: 'Valley Metal (10 ft)', coverage: 10 },
+        nails: { name: 'Coil Roofing Nails', coverage: 16 },
+    },
+    iceAndWaterEaveWidth: 3,
+    iceAndWaterValleyWidth: 6, // 3 ft either side of the valley line
+};
+
+/** Pitches below this rise (per 12 run) need a double layer of underlayment. */
+const LOW_SLOPE_RISE = 4;
+
+const formatNumber = (value: number) => value.toLocaleString('en-US', { maximumFractionDigits: 1 });
+
+/**
+ * Merges stored (possibly partial or outdated) settings over the defaults.
+ * @param stored Settings previously saved by the user, if any.
+ * @returns A complete settings object.
+ */
+export function resolveMaterialSettings(stored?: Partial<MaterialSettings> | null): MaterialSettings {
+    const products = { ...DEFAULT_MATERIAL_SETTINGS.products };
+    MATERIAL_KEYS.forEach(key => {
+        const product = stored?.products?.[key];
+        if (product && product.coverage > 0) {
+            products[key] = { name: product.name || products[key].name, coverage: product.coverage };
+        }
+    });
+    return {
+        products,
+        iceAndWaterEaveWidth: stored?.iceAndWaterEaveWidth ?? DEFAULT_MATERIAL_SETTINGS.iceAndWaterEaveWidth,
+        iceAndWaterValleyWidth: stored?.iceAndWaterValleyWidth ?? DEFAULT_MATERIAL_SETTINGS.iceAndWaterValleyWidth,
+    };
+}
+
+/**
+ * Calculates the material quantities needed for a roof.
+ * @param measurements The roof measurements from the report.
+ * @param settings Product names and coverage rates to calculate against.
+ * @returns The number of squares (with waste) and one line per product.
+ */
+export function calculateMaterialTakeoff(measurements: Measurements, settings: MaterialSettings): MaterialTakeoff {
+    const area = measurements.totalArea.value;
+    const ridges = measurements.ridges.value + measurements.hips.value;
+    const valleys = measurements.valleys.value;
+    const eaves = measurements.eaves.value;
+    const rakes = measurements.rakes.value;
+    const wastePercent = measurements.wasteFactor.value;
+    const isLowSlope = risePerTwelve(measurements.pitch) < LOW_SLOPE_RISE;
+
+    const areaWithWaste = area * (1 + wastePercent / 100);
+    const squares = areaWithWaste / 100;
+    const { products } = settings;
+
+    const line = (key: MaterialKey, needed: number, basis: string): MaterialLine => ({
+        key,
+        product: products[key].name,
+        quantity: needed > 0 ? Math.ceil(needed / products[key].coverage) : 0,
+        unit: MATERIAL_COVERAGE_UNITS[key].purchase,
+        basis,
+    });
+
+    const underlaymentLayers = isLowSlope ? 2 : 1;
+    const iceAndWaterArea = eaves * settings.iceAndWaterEaveWidth + valleys * settings.iceAndWaterValleyWidth;
+
+    const lines: MaterialLine[] = [
+        line('shingles', areaWithWaste,
+            `${formatNumber(squares)} squares (${formatNumber(area)} sq ft + ${formatNumber(wastePercent)}% waste)`),
+        line('underlayment', area * underlaymentLayers,
+            isLowSlope ? `${formatNumber(area)} sq ft, double layer for low slope` : `${formatNumber(area)} sq ft`),
+        line('starterStrip', eaves + rakes, `${formatNumber(eaves + rakes)} ft of eaves and rakes`),
+        line('ridgeCap', ridges, `${formatNumber(ridges)} ft of ridges and hips`),
+        line('dripEdge', eaves + rakes, `${formatNumber(eaves + rakes)} ft of eaves and rakes`),
+        line('iceAndWater', iceAndWaterArea,
+            `${formatNumber(iceAndWaterArea)} sq ft (${formatNumber(settings.iceAndWaterEaveWidth)} ft at eaves, ${formatNumber(settings.iceAndWaterValleyWidth)} ft in valleys)`),
+        line('valleyMetal', valleys, `${formatNumber(valleys)} ft of valleys`),
+        line('nails', squares, `${formatNumber(squares)} squares`),
+    ];
+
+    return { squares, lines };
+}
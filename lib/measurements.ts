@@ -0,0 +1,219 @@
+import type { Measurements, MeasurementKey, Pitch, Quantity, RawMeasurements } from "../types";
+
+// --- MEASUREMENT MODEL ---
+
+/**
+ * Thrown when a single measurement string can't be understood.
+ */
+export class MeasurementParseError extends Error {
+    constructor(public readonly key: MeasurementKey, public readonly input: string, message: string) {
+        super(message);
+        this.name = 'MeasurementParseError';
+    }
+}
+
+export const MEASUREMENT_KEYS: MeasurementKey[] = [
+    'totalArea', 'pitch', 'ridges', 'hips', 'valleys', 'eaves', 'rakes', 'wasteFactor',
+];
+
+export const MEASUREMENT_LABELS: Record<MeasurementKey, string> = {
+    totalArea: 'Total Area',
+    pitch: 'Primary Pitch',
+    ridges: 'Ridges',
+    hips: 'Hips',
+    valleys: 'Valleys',
+    eaves: 'Eaves',
+    rakes: 'Rakes',
+    wasteFactor: 'Waste Factor',
+};
+
+const SQ_FT_PER_SQ_M = 10.7639;
+const FT_PER_M = 3.28084;
+const MAX_RISE = 24;
+export const MAX_WASTE_PERCENT = 50;
+
+/**
+ * Splits a string like "2,450 sq ft" into its number and the trailing unit text.
+ * @returns The number and lower-cased unit, or null if there is no leading number.
+ */
+function splitNumberAndUnit(input: string): { value: number; unit: string } | null {
+    const match = input.trim().replace(/,/g, '').match(/^(-?\d*\.?\d+)\s*(.*)$/);
+    if (!match) return null;
+    return { value: parseFloat(match[1]), unit: match[2].trim().toLowerCase().replace(/\.$/, '') };
+}
+
+function parseArea(key: MeasurementKey, input: string): Quantity<'sq ft'> {
+    const parsed = splitNumberAndUnit(input);
+    if (!parsed) throw new MeasurementParseError(key, input, 'Enter an area such as "2,450 sq ft".');
+    let { value } = parsed;
+    const { unit } = parsed;
+    if (['', 'sq ft', 'sqft', 'sq. ft', 'sq.ft', 'ft²', 'ft2', 'sf', 'square feet', 'square foot'].includes(unit)) {
+        // Already square feet
+    } else if (['squares', 'square', 'sq', 'sqs'].includes(unit)) {
+        value *= 100;
+    } else if (['m²', 'm2', 'sq m', 'sqm', 'square meters', 'square metres'].includes(unit)) {
+        value *= SQ_FT_PER_SQ_M;
+    } else {
+        throw new MeasurementParseError(key, input, `Unknown area unit "${unit}". Use sq ft, squares or m².`);
+    }
+    if (value <= 0) throw new MeasurementParseError(key, input, 'Area must be greater than zero.');
+    return { value: Math.round(value * 10) / 10, unit: 'sq ft' };
+}
+
+function parseLength(key: MeasurementKey, input: string): Quantity<'ft'> {
+    const parsed = splitNumberAndUnit(input);
+    if (!parsed) throw new MeasurementParseError(key, input, 'Enter a length such as "120 ft".');
+    let { value } = parsed;
+    const { unit } = parsed;
+    if (['', 'ft', 'feet', 'foot', "'", 'lf', 'linear ft', 'linear feet', 'ft linear'].includes(unit)) {
+        // Already feet
+    } else if (['m', 'meters', 'metres', 'meter', 'metre'].includes(unit)) {
+        value *= FT_PER_M;
+    } else {
+        throw new MeasurementParseError(key, input, `Unknown length unit "${unit}". Use ft or m.`);
+    }
+    if (value < 0) throw new MeasurementParseError(key, input, 'Length cannot be negative.');
+    return { value: Math.round(value * 10) / 10, unit: 'ft' };
+}
+
+function parsePitch(input: string): Pitch {
+    const text = input.trim().toLowerCase();
+    let pitch: Pitch | null = null;
+
+    const ratio = text.match(/^(\d*\.?\d+)\s*(?:\/|:|-?in-?|\s)\s*(\d*\.?\d+)$/);
+    const degrees = text.match(/^(\d*\.?\d+)\s*(?:°|deg|degrees?)$/);
+    const riseOnly = text.match(/^(\d*\.?\d+)$/);
+    if (ratio) {
+        pitch = { rise: parseFloat(ratio[1]), run: parseFloat(ratio[2]) };
+    } else if (degrees) {
+        const angle = parseFloat(degrees[1]);
+        if (angle >= 90) throw new MeasurementParseError('pitch', input, 'A pitch angle must be under 90°.');
+        pitch = { rise: Math.round(Math.tan(angle * Math.PI / 180) * 12 * 10) / 10, run: 12 };
+    } else if (riseOnly) {
+        pitch = { rise: parseFloat(riseOnly[1]), run: 12 };
+    }
+
+    if (!pitch) throw new MeasurementParseError('pitch', input, 'Enter a pitch such as "6/12".');
+    if (pitch.run <= 0) throw new MeasurementParseError('pitch', input, 'The run of a pitch must be greater than zero.');
+    if ((pitch.rise / pitch.run) * 12 > MAX_RISE) {
+        throw new MeasurementParseError('pitch', input, `Pitch is steeper than ${MAX_RISE}/12.`);
+    }
+    return pitch;
+}
+
+function parsePercent(input: string): Quantity<'%'> {
+    const parsed = splitNumberAndUnit(input);
+    if (!parsed || !['', '%', 'percent', 'pct'].includes(parsed.unit)) {
+        throw new MeasurementParseError('wasteFactor', input, 'Enter a percentage such as "15%".');
+    }
+    if (parsed.value < 0 || parsed.value > MAX_WASTE_PERCENT) {
+        throw new MeasurementParseError('wasteFactor', input, `Waste factor must be between 0% and ${MAX_WASTE_PERCENT}%.`);
+    }
+    return { value: parsed.value, unit: '%' };
+}
+
+/**
+ * Parses one measurement string into its typed value.
+ * @param key Which measurement the string belongs to.
+ * @param input The text, e.g. "2,450 sq ft" or "6/12".
+ * @returns The typed value for that field.
+ * @throws MeasurementParseError if the text can't be understood.
+ */
+export function parseMeasurementValue<K extends MeasurementKey>(key: K, input: string): Measurements[K] {
+    if (!input || !input.trim()) {
+        throw new MeasurementParseError(key, input, `${MEASUREMENT_LABELS[key]} is required.`);
+    }
+    switch (key) {
+        case 'totalArea': return parseArea(key, input) as Measurements[K];
+        case 'pitch': return parsePitch(input) as Measurements[K];
+        case 'wasteFactor': return parsePercent(input) as Measurements[K];
+        default: return parseLength(key, input) as Measurements[K];
+    }
+}
+
+/**
+ * Formats a typed measurement for display, e.g. "2,450 sq ft" or "6/12".
+ */
+export function formatMeasurement<K extends MeasurementKey>(key: K, value: Measurements[K]): string {
+    if (key === 'pitch') {
+        const { rise, run } = value as Pitch;
+        return `${rise}/${run}`;
+    }
+    const quantity = value as Quantity<string>;
+    const number = quantity.value.toLocaleString('en-US', { maximumFractionDigits: 1 });
+    return quantity.unit === '%' ? `${number}%` : `${number} ${quantity.unit}`;
+}
+
+/**
+ * Normalises a pitch to its rise per 12 inches of run.
+ */
+export function risePerTwelve(pitch: Pitch): number {
+    return (pitch.rise / pitch.run) * 12;
+}
+
+/**
+ * Converts measurements saved by older versions (plain strings) into the typed model.
+ * Fields that can't be read are zeroed and their original text is returned so it isn't lost.
+ * Fields missing entirely are zeroed without being reported.
+ * @param stored The measurements object as found in storage.
+ * @returns The typed measurements and the original text of any unreadable fields.
+ */
+export function migrateMeasurements(stored: Measurements | Partial<RawMeasurements>): {
+    measurements: Measurements;
+    unparsed: Partial<RawMeasurements>;
+} {
+    const fallback: Measurements = {
+        totalArea: { value: 0, unit: 'sq ft' },
+        pitch: { rise: 0, run: 12 },
+        ridges: { value: 0, unit: 'ft' },
+        hips: { value: 0, unit: 'ft' },
+        valleys: { value: 0, unit: 'ft' },
+        eaves: { value: 0, unit: 'ft' },
+        rakes: { value: 0, unit: 'ft' },
+        wasteFactor: { value: 0, unit: '%' },
+    };
+    const measurements = { ...fallback };
+    const unparsed: Partial<RawMeasurements> = {};
+
+    MEASUREMENT_KEYS.forEach(key => {
+        const value = (stored as Record<MeasurementKey, unknown>)[key];
+        if (value && typeof value === 'object') {
+            (measurements as Record<MeasurementKey, unknown>)[key] = value;
+            return;
+        }
+        if (value === undefined) {
+            // Fields added after the report was saved (e.g. hips) start at zero
+            return;
+        }
+        try {
+            (measurements as Record<MeasurementKey, unknown>)[key] = parseMeasurementValue(key, String(value ?? ''));
+        } catch (error) {
+            if (!(error instanceof MeasurementParseError)) throw error;
+            unparsed[key] = String(value ?? '');
+        }
+    });
+    return { measurements, unparsed };
+}
+
+/**
+ * Reads a set of string measurements from an outside source without failing on bad fields,
+ * so one unreadable value doesn't lose the rest. Unlike migrating saved reports, a missing
+ * field counts as unreadable.
+ * @param raw The string measurements, e.g. from a measurement provider.
+ * @returns The typed measurements, with unreadable fields zeroed, and the text of those fields.
+ */
+export function readMeasurements(raw: Partial<RawMeasurements>): {
+    measurements: Measurements;
+    unparsed: Partial<RawMeasurements>;
+} {
+    const complete = Object.fromEntries(MEASUREMENT_KEYS.map(key => [key, raw[key] ?? ''])) as RawMeasurements;
+    return migrateMeasurements(complete);
+}
+
+/**
+ * Whether a stored measurements object still uses the old string format.
+ */
+export function isLegacyMeasurements(stored: unknown): boolean {
+    return !!stored && typeof stored === 'object'
+        && MEASUREMENT_KEYS.some(key => typeof (stored as Record<string, unknown>)[key] !== 'object');
+}
@@ -0,0 +1,305 @@
+import type { RoofDiagram } from "./diagram";
+
+// --- PDF LAYOUT ---
+
+/**
+ * A jsPDF document with the autotable plugin. jsPDF is loaded from a CDN script, so it has no types here.
+ */
+export type PdfDocument = any;
+
+/**
+ * The company details drawn in the running header.
+ */
+export type PdfBranding = {
+    companyName: string;
+    companyAddress: string;
+    logoDataUrl: string; // Empty when there is no logo
+};
+
+export type PdfLayoutOptions = {
+    branding: PdfBranding;
+    footerText: string; // Shown at the bottom left of every page after the cover
+    hasCover: boolean; // The first page is a cover, which gets no header, footer or page number
+};
+
+type ContentsEntry = { title: string; page: number };
+
+export const PDF_MARGIN = 40;
+const HEADER_HEIGHT = 36;
+const FOOTER_HEIGHT = 24;
+const LINE_HEIGHT = 15;
+export const PDF_ACCENT: [number, number, number] = [217, 4, 41];
+
+/**
+ * Flows content down the pages of a PDF. Callers say how much room a piece of content needs and
+ * the layout starts a new page when it won't fit, so headings stay with what follows them.
+ * Headings are collected for the table of contents, and the running header, footer and page
+ * numbers are drawn once every page exists.
+ * @param doc A new jsPDF document, in px units.
+ * @param options Branding, footer text and whether page one is a cover.
+ */
+export function createPdfLayout(doc: PdfDocument, options: PdfLayoutOptions) {
+    const pageWidth: number = doc.internal.pageSize.getWidth();
+    const pageHeight: number = doc.internal.pageSize.getHeight();
+    const contentTop = PDF_MARGIN + HEADER_HEIGHT;
+    const contentBottom = pageHeight - PDF_MARGIN - FOOTER_HEIGHT;
+    const contents: ContentsEntry[] = [];
+
+    const layout = {
+        doc,
+        pageWidth,
+        pageHeight,
+        contentWidth: pageWidth - PDF_MARGIN * 2,
+        contentBottom,
+        /** Where the next content goes on the current page. */
+        cursorY: options.hasCover ? PDF_MARGIN : contentTop,
+
+        newPage() {
+            doc.addPage();
+            layout.cursorY = contentTop;
+        },
+
+        /**
+         * Starts a new page unless nothing has been drawn on the current one yet.
+         */
+        pageBreak() {
+            if (layout.cursorY > contentTop) layout.newPage();
+        },
+
+        /**
+         * Starts a new page unless the current one has `height` left.
+         */
+        ensureSpace(height: number) {
+            if (layout.cursorY + height > contentBottom) layout.newPage();
+        },
+
+        /**
+         * Adds vertical space, without carrying it over to the top of a new page.
+         */
+        space(height: number) {
+            layout.cursorY = Math.min(layout.cursorY + height, contentBottom);
+        },
+
+        /**
+         * Draws a section heading and lists it in the table of contents.
+         * @param title The heading text.
+         * @param keepWith Height of the content that must follow on the same page.
+         */
+        heading(title: string, keepWith = 60) {
+            layout.ensureSpace(48 + keepWith);
+            if (layout.cursorY > contentTop) layout.cursorY += 16;
+            layout.cursorY += 16;
+            doc.setFontSize(16);
+            doc.setFont(undefined, 'bold');
+            doc.setTextColor(0, 0, 0);
+            doc.text(title, PDF_MARGIN, layout.cursorY);
+            contents.push({ title, page: doc.getCurrentPageInfo().pageNumber });
+            layout.cursorY += 16;
+        },
+
+        /**
+         * Draws a smaller heading that isn't listed in the table of contents.
+         */
+        subheading(title: string, keepWith = LINE_HEIGHT * 2) {
+            layout.ensureSpace(LINE_HEIGHT + keepWith);
+            doc.setFontSize(12);
+            doc.setFont(undefined, 'bold');
+            doc.text(title, PDF_MARGIN, layout.cursorY);
+            layout.cursorY += LINE_HEIGHT;
+        },
+
+        /**
+         * Writes wrapped text, continuing on the next page when it runs out of room.
+         */
+        paragraph(text: string, style: { fontSize?: number; bold?: boolean; color?: [number, number, number] } = {}) {
+            doc.setFontSize(style.fontSize || 11);
+            doc.setFont(undefined, style.bold ? 'bold' : 'normal');
+            doc.setTextColor(...(style.color || [0, 0, 0]));
+            const lineHeight = (style.fontSize || 11) * 1.35;
+            (doc.splitTextToSize(text, layout.contentWidth) as string[]).forEach(line => {
+                layout.ensureSpace(lineHeight);
+                doc.text(line, PDF_MARGIN, layout.cursorY);
+                layout.cursorY += lineHeight;
+            });
+            doc.setTextColor(0, 0, 0);
+            doc.setFont(undefined, 'normal');
+        },
+
+        /**
+         * Draws content of a known height, on a new page if it doesn't fit on this one.
+         * @param height The content's height.
+         * @param draw Draws the content with its top edge at `y`.
+         */
+        block(height: number, draw: (y: number) => void) {
+            layout.ensureSpace(height);
+            draw(layout.cursorY);
+            layout.cursorY += height;
+        },
+
+        /**
+         * Draws an autotable at the cursor. Rows that spill onto new pages start below the running header.
+         * @param tableOptions Options for jsPDF-AutoTable; position and margins are filled in.
+         */
+        table(tableOptions: Record<string, unknown>) {
+            doc.autoTable({
+                theme: 'grid',
+                headStyles: { fillColor: PDF_ACCENT },
+                footStyles: { fillColor: [237, 242, 247], textColor: 20 },
+                rowPageBreak: 'avoid',
+                ...tableOptions,
+                startY: layout.cursorY,
+                margin: { left: PDF_MARGIN, right: PDF_MARGIN, top: contentTop, bottom: pageHeight - contentBottom },
+            });
+            layout.cursorY = doc.lastAutoTable.finalY + 10;
+        },
+
+        /**
+         * Inserts the table of contents after the cover, then draws the running header and
+         * footer on every page but the cover. Call once all content is laid out.
+         * @param includeContents Whether to add the table of contents.
+         */
+        finish(includeContents: boolean) {
+            if (includeContents && contents.length > 0) insertContents();
+            drawRunningHeaderAndFooter();
+        },
+    };
+
+    /**
+     * Adds as many contents pages as the headings need, right after the cover, and links
+     * each entry to its page.
+     */
+    const insertContents = () => {
+        const entryHeight = 22;
+        const perPage = Math.floor((contentBottom - contentTop - 40) / entryHeight);
+        const contentsPages = Math.ceil(contents.length / perPage);
+        const firstPage = options.hasCover ? 2 : 1;
+        for (let i = 0; i < contentsPages; i++) doc.insertPage(firstPage + i);
+
+        contents.forEach((entry, index) => {
+            const page = entry.page + contentsPages;
+            const pageIndex = Math.floor(index / perPage);
+            doc.setPage(firstPage + pageIndex);
+            if (index % perPage === 0) {
+                doc.setFontSize(22);
+                doc.setFont(undefined, 'bold');
+                doc.text(pageIndex === 0 ? 'Contents' : 'Contents (continued)', PDF_MARGIN, contentTop + 16);
+            }
+            const y = contentTop + 56 + (index % perPage) * entryHeight;
+            doc.setFontSize(12);
+            doc.setFont(undefined, 'normal');
+            doc.text(entry.title, PDF_MARGIN, y);
+            doc.text(String(page), pageWidth - PDF_MARGIN, y, { align: 'right' });
+            // Dotted leader between the title and the page number
+            const leaderStart = PDF_MARGIN + doc.getTextWidth(entry.title) + 8;
+            const leaderEnd = pageWidth - PDF_MARGIN - doc.getTextWidth(String(page)) - 8;
+            doc.setDrawColor(160, 174, 192);
+            doc.setLineDashPattern([1, 3], 0);
+            if (leaderEnd > leaderStart) doc.line(leaderStart, y, leaderEnd, y);
+            doc.setLineDashPattern([], 0);
+            doc.link(PDF_MARGIN, y - 12, layout.contentWidth, 16, { pageNumber: page });
+        });
+    };
+
+    const drawRunningHeaderAndFooter = () => {
+        const pageCount: number = doc.getNumberOfPages();
+        const { companyName, companyAddress, logoDataUrl } = options.branding;
+        let logo: { format: string; width: number; height: number } | null = null;
+        if (logoDataUrl.startsWith('data:image')) {
+            try {
+                const properties = doc.getImageProperties(logoDataUrl);
+                logo = { format: properties.fileType, width: properties.width * (24 / properties.height), height: 24 };
+            } catch (error) {
+                console.error('Could not read the profile logo for the PDF:', error);
+            }
+        }
+
+        for (let page = options.hasCover ? 2 : 1; page <= pageCount; page++) {
+            doc.setPage(page);
+            if (logo) doc.addImage(logoDataUrl, logo.format, PDF_MARGIN, PDF_MARGIN - 12, logo.width, logo.height);
+            doc.setFontSize(9);
+            doc.setTextColor(74, 85, 104);
+            doc.setFont(undefined, 'bold');
+            doc.text(companyName, pageWidth - PDF_MARGIN, PDF_MARGIN - 2, { align: 'right' });
+            doc.setFont(undefined, 'normal');
+            doc.text(companyAddress.split('\n')[0] || '', pageWidth - PDF_MARGIN, PDF_MARGIN + 9, { align: 'right' });
+            doc.setDrawColor(226, 232, 240);
+            doc.line(PDF_MARGIN, PDF_MARGIN + 18, pageWidth - PDF_MARGIN, PDF_MARGIN + 18);
+
+            const footerY = pageHeight - PDF_MARGIN + 4;
+            doc.line(PDF_MARGIN, footerY - 12, pageWidth - PDF_MARGIN, footerY - 12);
+            doc.setFontSize(8);
+            doc.text(doc.splitTextToSize(options.footerText, layout.contentWidth - 80)[0] || '', PDF_MARGIN, footerY);
+            doc.text(`Page ${page} of ${pageCount}`, pageWidth - PDF_MARGIN, footerY, { align: 'right' });
+            doc.setTextColor(0, 0, 0);
+            doc.setDrawColor(0, 0, 0);
+        }
+    };
+
+    return layout;
+}
+
+export type PdfLayout = ReturnType<typeof createPdfLayout>;
+
+/**
+ * Draws a roof diagram as vector shapes, scaled to the given width.
+ * @param doc The jsPDF document.
+ * @param diagram The diagram to draw.
+ * @param x Left edge on the page.
+ * @param y Top edge on the page.
+ * @param width Drawn width; the height keeps the diagram's proportions.
+ * @returns The drawn height.
+ */
+export function drawDiagramOnPdf(doc: PdfDocument, diagram: RoofDiagram, x: number, y: number, width: number): number {
+    const scale = width / diagram.width;
+    const toPage = ([px, py]: [number, number]) => [x + px * scale, y + py * scale];
+
+    diagram.shapes.forEach(shape => {
+        switch (shape.type) {
+            case 'polygon': {
+                const [startX, startY] = toPage(shape.points[0]);
+                const deltas = shape.points.slice(1).map((point, i) => {
+                    const [px, py] = toPage(point);
+                    const [prevX, prevY] = toPage(shape.points[i]);
+                    return [px - prevX, py - prevY];
+                });
+                doc.setFillColor(shape.fill);
+                doc.setDrawColor(shape.stroke);
+                doc.setLineWidth(shape.strokeWidth * scale);
+                doc.lines(deltas, startX, startY, [1, 1], shape.fill === 'none' ? 'S' : 'FD', true);
+                break;
+            }
+            case 'line': {
+                const [x1, y1] = toPage(shape.from);
+                const [x2, y2] = toPage(shape.to);
+                doc.setDrawColor(shape.stroke);
+                doc.setLineWidth(shape.strokeWidth * scale);
+                if (shape.dashed) doc.setLineDashPattern([2 * scale, 2 * scale], 0);
+                doc.line(x1, y1, x2, y2);
+                doc.setLineDashPattern([], 0);
+                break;
+            }
+            case 'text': {
+                const [tx, ty] = toPage(shape.at);
+                const fontSize = shape.size * scale;
+                doc.setFontSize(fontSize);
+                doc.setFont(undefined, shape.bold ? 'bold' : 'normal');
+                doc.setTextColor(shape.color);
+                if (shape.vertical) {
+                    // Rotated text ignores `align`, so shift the start along the text instead
+                    const textWidth = doc.getTextWidth(shape.text);
+                    const offset = shape.anchor === 'middle' ? textWidth / 2 : shape.anchor === 'end' ? textWidth : 0;
+                    doc.text(shape.text, tx + fontSize * 0.35, ty + offset, { angle: 90 });
+                } else {
+                    const align = shape.anchor === 'start' ? 'left' : shape.anchor === 'end' ? 'right' : 'center';
+                    doc.text(shape.text, tx, ty, { align });
+                }
+                break;
+            }
+        }
+    });
+    doc.setTextColor(0, 0, 0);
+    doc.setDrawColor(0, 0, 0);
+    doc.setFont(undefined, 'normal');
+    doc.setLineWidth(1);
+    return diagram.height * scale;
+}
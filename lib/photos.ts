@@ -0,0 +1,55 @@
+import type { PhotoCategory, ReportPhoto } from "../types";
+
+// --- PHOTO LOG ---
+
+export const PHOTO_CATEGORIES: PhotoCategory[] = ['overview', 'damage', 'decking', 'flashing', 'gutters', 'ventilation', 'interior', 'other'];
+
+export const PHOTO_CATEGORY_LABELS: Record<PhotoCategory, string> = {
+    overview: 'Overview',
+    damage: 'Damage',
+    decking: 'Decking',
+    flashing: 'Flashing',
+    gutters: 'Gutters',
+    ventilation: 'Ventilation',
+    interior: 'Interior',
+    other: 'Other',
+};
+
+/**
+ * Creates a photo log entry with an empty caption.
+ * @param dataUrl The (already downsized) image.
+ * @param source Whether it was chosen from files or taken with the camera.
+ * @param takenAt When the photo was taken, as best known.
+ */
+export function createPhoto(dataUrl: string, source: ReportPhoto['source'], takenAt: Date): ReportPhoto {
+    return {
+        id: `p_${Date.now()}_${Math.random().toString(36).substring(2, 7)}`,
+        dataUrl,
+        caption: '',
+        category: 'overview',
+        takenAt: takenAt.toISOString(),
+        source,
+    };
+}
+
+/**
+ * Moves a photo to a new position in the log.
+ * @param photos The photos in their current order.
+ * @param photoId The photo to move.
+ * @param toIndex Its new position; clamped to the ends of the list.
+ * @returns A new array; the input is left unchanged.
+ */
+export function movePhoto(photos: ReportPhoto[], photoId: string, toIndex: number): ReportPhoto[] {
+    const fromIndex = photos.findIndex(photo => photo.id === photoId);
+    if (fromIndex === -1) return photos;
+    const reordered = photos.filter(photo => photo.id !== photoId);
+    reordered.splice(Math.max(0, Math.min(toIndex, reordered.length)), 0, photos[fromIndex]);
+    return reordered;
+}
+
+/**
+ * A one-line description of a photo for galleries and print, e.g. "Damage · 3/14/2025, 10:02 AM".
+ */
+export function describePhoto(photo: ReportPhoto): string {
+    return `${PHOTO_CATEGORY_LABELS[photo.category] || PHOTO_CATEGORY_LABELS.other} · ${new Date(photo.takenAt).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}`;
+}
@@ -0,0 +1,52 @@
+import type { JobStatus, Report } from "../types";
+
+// --- JOB PIPELINE ---
+
+/**
+ * Job statuses in pipeline order; "lost" comes last because a job can be lost at any stage.
+ */
+export const JOB_STATUSES: JobStatus[] = ['lead', 'inspected', 'quoted', 'sold', 'installed', 'lost'];
+
+export const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+    lead: 'Lead',
+    inspected: 'Inspected',
+    quoted: 'Quoted',
+    sold: 'Sold',
+    installed: 'Installed',
+    lost: 'Lost',
+};
+
+export function isJobStatus(value: unknown): value is JobStatus {
+    return JOB_STATUSES.includes(value as JobStatus);
+}
+
+/**
+ * The report's current status. Reports made before statuses existed count as leads.
+ */
+export function reportStatus(report: Report): JobStatus {
+    return report.status || 'lead';
+}
+
+/**
+ * When the report entered its current status, or when it was created if it never changed.
+ */
+export function statusSince(report: Report): string {
+    return report.statusHistory?.[report.statusHistory.length - 1]?.changedAt || report.timestamp;
+}
+
+/**
+ * Moves a report to a new status and records the date of the change.
+ * @param report The report to update.
+ * @param status The new status.
+ * @param changedAt When it changed; defaults to now.
+ * @returns A new report, or the same one if it already had that status.
+ */
+export function withStatus(report: Report, status: JobStatus, changedAt = new Date()): Report {
+    if (reportStatus(report) === status) return report;
+    const history = report.statusHistory || (report.status ? [] : [{ status: 'lead' as JobStatus, changedAt: report.timestamp }]);
+    return {
+        ...report,
+        status,
+        statusHistory: [...history, { status, changedAt: changedAt.toISOString() }],
+    };
+}
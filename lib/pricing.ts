@@ -0,0 +1,166 @@
+import type { MaterialTakeoff, Measurements, PriceBook, Quote, QuoteLine, QuoteOptions, RoofFacet, SurchargeTier } from "../types";
+import { MATERIAL_KEYS } from "./materials";
+import { risePerTwelve } from "./measurements";
+import { slopedArea } from "./facets";
+
+// --- PRICING & QUOTES ---
+
+export const DEFAULT_PRICE_BOOK: PriceBook = {
+    materialPrices: {
+        shingles: 42,
+        underlayment: 95,
+        starterStrip: 55,
+        ridgeCap: 68,
+        dripEdge: 9.5,
+        iceAndWater: 120,
+        valleyMetal: 24,
+        nails: 75,
+    },
+    installRatePerSquare: 110,
+    tearOffRatePerSquare: 45,
+    pitchSurcharges: [
+        { threshold: 8, ratePerSquare: 15 },
+        { threshold: 10, ratePerSquare: 35 },
+        { threshold: 13, ratePerSquare: 60 },
+    ],
+    storySurcharges: [
+        { threshold: 2, ratePerSquare: 10 },
+        { threshold: 3, ratePerSquare: 25 },
+    ],
+    overheadPercent: 10,
+    markupPercent: 20,
+    taxPercent: 7,
+};
+
+export const DEFAULT_QUOTE_OPTIONS: QuoteOptions = { stories: 1, tearOffLayers: 1 };
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Merges a stored (possibly partial or outdated) price book over the defaults.
+ * @param stored The price book previously saved by the user, if any.
+ * @returns A complete price book.
+ */
+export function resolvePriceBook(stored?: Partial<PriceBook> | null): PriceBook {
+    return {
+        ...DEFAULT_PRICE_BOOK,
+        ...stored,
+        materialPrices: { ...DEFAULT_PRICE_BOOK.materialPrices, ...stored?.materialPrices },
+        pitchSurcharges: stored?.pitchSurcharges || DEFAULT_PRICE_BOOK.pitchSurcharges,
+        storySurcharges: stored?.storySurcharges || DEFAULT_PRICE_BOOK.storySurcharges,
+    };
+}
+
+/**
+ * The highest tier whose threshold the value reaches, if any.
+ */
+function matchingTier(tiers: SurchargeTier[], value: number): SurchargeTier | null {
+    return [...tiers]
+        .sort((a, b) => b.threshold - a.threshold)
+        .find(tier => value >= tier.threshold) || null;
+}
+
+const line = (category: QuoteLine['category'], description: string, quantity: number, unit: string, unitPrice: number): QuoteLine => ({
+    category,
+    description,
+    quantity: roundCents(quantity),
+    unit,
+    unitPrice,
+    total: roundCents(quantity * unitPrice),
+});
+
+/**
+ * Prices a roof from its measurements, facets and material takeoff.
+ * Steep-pitch surcharges are charged per facet, so only the steep squares pay them.
+ * @param measurements The report's rolled-up measurements.
+ * @param facets The report's facets.
+ * @param takeoff The material takeoff for the report.
+ * @param priceBook Material prices, labor rates, surcharges and percentages.
+ * @param options Job details that affect price but aren't measured.
+ * @returns The priced quote with line items and totals.
+ */
+export function calculateQuote(
+    measurements: Measurements,
+    facets: RoofFacet[],
+    takeoff: MaterialTakeoff,
+    priceBook: PriceBook,
+    options: QuoteOptions,
+): Quote {
+    const lines: QuoteLine[] = [];
+    const netSquares = measurements.totalArea.value / 100;
+
+    MATERIAL_KEYS.forEach(key => {
+        const material = takeoff.lines.find(l => l.key === key);
+        if (material && material.quantity > 0) {
+            lines.push(line('material', material.product, material.quantity, material.unit, priceBook.materialPrices[key]));
+        }
+    });
+
+    if (options.tearOffLayers > 0) {
+        lines.push(line('labor', `Tear-off (${options.tearOffLayers} layer${options.tearOffLayers > 1 ? 's' : ''})`,
+            netSquares * options.tearOffLayers, 'squares', priceBook.tearOffRatePerSquare));
+    }
+    lines.push(line('labor', 'Installation', netSquares, 'squares', priceBook.installRatePerSquare));
+
+    const steepSquares = new Map<SurchargeTier, number>();
+    facets.forEach(facet => {
+        const tier = matchingTier(priceBook.pitchSurcharges, risePerTwelve(facet.pitch));
+        if (tier) steepSquares.set(tier, (steepSquares.get(tier) || 0) + slopedArea(facet) / 100);
+    });
+    [...steepSquares.entries()]
+        .sort(([a], [b]) => a.threshold - b.threshold)
+        .forEach(([tier, squares]) => {
+            lines.push(line('surcharge', `Steep pitch (${tier.threshold}/12 and up)`, squares, 'squares', tier.ratePerSquare));
+        });
+
+    const storyTier = matchingTier(priceBook.storySurcharges, options.stories);
+    if (storyTier) {
+        lines.push(line('surcharge', `${options.stories}-story access`, netSquares, 'squares', storyTier.ratePerSquare));
+    }
+
+    const sum = (category: QuoteLine['category']) =>
+        roundCents(lines.filter(l => l.category === category).reduce((total, l) => total + l.total, 0));
+    const materialsTotal = sum('material');
+    const laborTotal = sum('labor');
+    const surchargeTotal = sum('surcharge');
+    const cost = materialsTotal + laborTotal + surchargeTotal;
+    const overhead = roundCents(cost * priceBook.overheadPercent / 100);
+    const markup = roundCents((cost + overhead) * priceBook.markupPercent / 100);
+    const tax = roundCents(materialsTotal * priceBook.taxPercent / 100);
+
+    return {
+        createdAt: new Date().toISOString(),
+        options: { ...options },
+        lines,
+        materialsTotal,
+        laborTotal,
+        surchargeTotal,
+        overhead,
+        markup,
+        tax,
+        total: roundCents(cost + overhead + markup + tax),
+    };
+}
+
+/**
+ * Customer-facing line items with overhead and markup spread proportionally into each price,
+ * so a proposal shows selling prices rather than internal costs. Tax is left separate.
+ * @param quote The calculated quote.
+ * @returns Lines whose totals add up to the quote total before tax.
+ */
+export function sellPriceLines(quote: Quote): QuoteLine[] {
+    const cost = quote.materialsTotal + quote.laborTotal + quote.surchargeTotal;
+    const factor = cost > 0 ? (cost + quote.overhead + quote.markup) / cost : 1;
+    return quote.lines.map(l => ({
+        ...l,
+        unitPrice: roundCents(l.unitPrice * factor),
+        total: roundCents(l.total * factor),
+    }));
+}
+
+/**
+ * Formats an amount as US dollars, e.g. "$12,345.67".
+ */
+export function formatCurrency(amount: number): string {
+    return amount.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+}
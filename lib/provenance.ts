@@ -0,0 +1,42 @@
+import type { Report, ReportSource } from "../types";
+
+// --- REPORT PROVENANCE ---
+
+/**
+ * Reports saved before sources were recorded all came from Gemini and Imagen.
+ */
+const LEGACY_REPORT_SOURCE: ReportSource = { measurements: 'provider', image: 'synthetic', providerName: 'Gemini AI' };
+
+export const SYNTHETIC_IMAGE_NOTICE = 'Illustration only: this image was generated and is not a photo of the property.';
+
+/**
+ * Where a report's data came from, with a safe default for older reports.
+ */
+export function reportSource(report: Pick<Report, 'source'>): ReportSource {
+    return report.source || LEGACY_REPORT_SOURCE;
+}
+
+export function isSyntheticImage(source: ReportSource): boolean {
+    return source.image === 'synthetic';
+}
+
+/**
+ * A short description of where the measurements came from, e.g. "Entered manually".
+ */
+export function describeMeasurementSource(source: ReportSource): string {
+    return source.measurements === 'manual'
+        ? 'Entered manually by the estimator'
+        : `Estimated by ${source.providerName || 'a measurement provider'}`;
+}
+
+/**
+ * A short description of where the image came from. Generated images always say so.
+ */
+export function describeImageSource(source: ReportSource): string {
+    switch (source.image) {
+        case 'uploaded': return 'Uploaded by the estimator';
+        case 'aerial': return `Aerial imagery from ${source.providerName || 'a measurement provider'}`;
+        case 'synthetic': return `Generated illustration${source.providerName ? ` (${source.providerName})` : ''}, not a photo of the property`;
+        case 'none': return 'No image';
+    }
+}
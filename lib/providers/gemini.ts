@@ -0,0 +1,74 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import type { MeasurementProvider } from "../../types";
+import { readMeasurements } from "../measurements";
+
+// --- GEMINI MEASUREMENT PROVIDER ---
+
+let ai: GoogleGenAI | null = null;
+
+/**
+ * Generates measurements with Gemini and an aerial image with Imagen.
+ */
+export const geminiProvider: MeasurementProvider = {
+    id: 'gemini',
+    name: 'Gemini AI',
+    description: 'Estimates measurements with Google Gemini and generates an illustrative image of the house. Needs an API key and a network connection.',
+    imagery: 'synthetic',
+    isAvailable: () => !!process.env.API_KEY,
+
+    async getRoofReport(address: string) {
+        if (!ai) {
+            ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
+        }
+
+        // Define the schema for the measurement data
+        const measurementSchema = {
+            type: Type.OBJECT,
+            properties: {
+                totalArea: { type: Type.STRING, description: 'Total roof area in square feet (e.g., "2,450 sq ft")' },
+                pitch: { type: Type.STRING, description: 'The primary pitch of the roof (e.g., "6/12")' },
+                ridges: { type: Type.STRING, description: 'Total length of all ridges in linear feet (e.g., "120 ft")' },
+                hips: { type: Type.STRING, description: 'Total length of all hips in linear feet, "0 ft" for a gable roof (e.g., "40 ft")' },
+                valleys: { type: Type.STRING, description: 'Total length of all valleys in linear feet (e.g., "65 ft")' },
+                eaves: { type: Type.STRING, description: 'Total length of all eaves in linear feet (e.g., "180 ft")' },
+                rakes: { type: Type.STRING, description: 'Total length of all rakes in linear feet (e.g., "90 ft")' },
+                wasteFactor: { type: Type.STRING, description: 'Suggested waste factor percentage (e.g., "15%")' },
+            },
+            required: ['totalArea', 'pitch', 'ridges', 'hips', 'valleys', 'eaves', 'rakes', 'wasteFactor']
+        };
+
+        // --- API Call for Measurements ---
+        const measurementsPromise = ai.models.generateContent({
+            model: 'gemini-2.5-flash',
+            contents: `Generate a realistic set of roof measurements for a typical single-family home at the address: ${address}.`,
+            config: {
+                responseMimeType: 'application/json',
+                responseSchema: measurementSchema,
+            },
+        });
+
+        // --- API Call for Satellite Image ---
+        const imagePromise = ai.models.generateImages({
+            model: 'imagen-4.0-generate-001',
+            prompt: `A high-resolution, top-down satellite image of a suburban house at ${address}. The roof should be clearly visible. Sunny day, no clouds or shadows obscuring the roof.`,
+            config: {
+                numberOfImages: 1,
+                outputMimeType: 'image/jpeg',
+                aspectRatio: '1:1',
+            },
+        });
+
+        // Await both promises
+        const [measurementResponse, imageResponse] = await Promise.all([measurementsPromise, imagePromise]);
+
+        // Process measurement response; values the model got wrong (e.g. a pitch of "N/A") are kept
+        // as unparsed text and flagged on the report rather than failing the whole report
+        const { measurements, unparsed } = readMeasurements(JSON.parse(measurementResponse.text));
+
+        // Process image response
+        const base64ImageBytes = imageResponse.generatedImages[0].image.imageBytes;
+        const imageUrl = `data:image/jpeg;base64,${base64ImageBytes}`;
+
+        return { imageUrl, measurements, unparsedMeasurements: Object.keys(unparsed).length > 0 ? unparsed : undefined };
+    },
+};
@@ -0,0 +1,22 @@
+import type { MeasurementProvider } from "../../types";
+import { geminiProvider } from "./gemini";
+import { mockProvider } from "./mock";
+
+// --- MEASUREMENT PROVIDERS ---
+
+/**
+ * Every provider the app can use, in the order shown in settings.
+ * A new measurement source only needs to be added here.
+ */
+export const MEASUREMENT_PROVIDERS: MeasurementProvider[] = [geminiProvider, mockProvider];
+
+/**
+ * The provider with the given ID, falling back to the first available one when the ID is
+ * unknown or that provider can't be used (e.g. Gemini without an API key).
+ * @param id The saved provider ID, if any.
+ */
+export function resolveProvider(id?: string | null): MeasurementProvider {
+    const chosen = MEASUREMENT_PROVIDERS.find(provider => provider.id === id);
+    if (chosen && chosen.isAvailable()) return chosen;
+    return MEASUREMENT_PROVIDERS.find(provider => provider.isAvailable()) || mockProvider;
+}
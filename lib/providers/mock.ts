@@ -0,0 +1,203 @@
+import type { Measurements, MeasurementProvider } from "../../types";
+
+// --- OFFLINE SAMPLE PROVIDER ---
+
+const IMAGE_SIZE = 1024;
+const PIXELS_PER_FOOT = 6;
+const SHINGLE_COLORS = ['#5b5b5b', '#6b4f3a', '#3f4a55', '#7a6a58', '#4a4036'];
+
+/**
+ * FNV-1a hash of a string, used to seed the generator from the address.
+ */
+function hashString(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Small seeded PRNG (mulberry32) returning floats in [0, 1).
+ */
+function createRandom(seed: number): () => number {
+    let state = seed;
+    return () => {
+        state = (state + 0x6d2b79f5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * The house the sample measurements and image are both drawn from, in feet.
+ * The wing is a gable that projects from the front of the main roof.
+ */
+type SampleHouse = {
+    style: 'gable' | 'hip';
+    width: number;
+    depth: number;
+    rise: number;
+    wing: { width: number; length: number; offset: number } | null;
+    color: string;
+};
+
+function createSampleHouse(random: () => number): SampleHouse {
+    const between = (min: number, max: number) => Math.round(min + random() * (max - min));
+    const width = between(38, 64);
+    const depth = between(26, Math.min(40, width - 6));
+    const hasWing = random() < 0.5;
+    const wingWidth = between(14, 22);
+    return {
+        style: random() < 0.5 ? 'gable' : 'hip',
+        width,
+        depth,
+        rise: between(4, 10),
+        wing: hasWing ? { width: wingWidth, length: between(12, 20), offset: between(2, width - wingWidth - 2) } : null,
+        color: SHINGLE_COLORS[Math.floor(random() * SHINGLE_COLORS.length)],
+    };
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Measures the sample house the same way a roofer would: sloped area plus edge lengths.
+ */
+function measureSampleHouse(house: SampleHouse): Measurements {
+    const slope = house.rise / 12;
+    const multiplier = Math.sqrt(1 + slope * slope);
+    const run = house.depth / 2;
+
+    let planArea = house.width * house.depth;
+    let ridges = house.style === 'gable' ? house.width : house.width - house.depth;
+    // A hip runs diagonally over one run in each direction while climbing one rise
+    let hips = house.style === 'hip' ? 4 * Math.sqrt(2 * run * run + (run * slope) ** 2) : 0;
+    let valleys = 0;
+    let eaves = house.style === 'gable' ? 2 * house.width : 2 * (house.width + house.depth);
+    let rakes = house.style === 'gable' ? 2 * house.depth * multiplier : 0;
+
+    if (house.wing) {
+        const wingRun = house.wing.width / 2;
+        planArea += house.wing.width * house.wing.length + wingRun * wingRun;
+        ridges += house.wing.length + wingRun;
+        valleys += 2 * Math.sqrt(2 * wingRun * wingRun + (wingRun * slope) ** 2);
+        eaves += 2 * house.wing.length - house.wing.width;
+        rakes += house.wing.width * multiplier;
+    }
+
+    return {
+        totalArea: { value: round1(planArea * multiplier), unit: 'sq ft' },
+        pitch: { rise: house.rise, run: 12 },
+        ridges: { value: round1(ridges), unit: 'ft' },
+        hips: { value: round1(hips), unit: 'ft' },
+        valleys: { value: round1(valleys), unit: 'ft' },
+        eaves: { value: round1(eaves), unit: 'ft' },
+        rakes: { value: round1(rakes), unit: 'ft' },
+        wasteFactor: { value: (house.style === 'hip' ? 15 : 10) + (house.wing ? 3 : 0), unit: '%' },
+    };
+}
+
+/**
+ * Paints a top-down picture of the sample house on a lawn, clearly marked as sample imagery.
+ */
+function drawSampleImage(house: SampleHouse, random: () => number): string {
+    const canvas = document.createElement('canvas');
+    canvas.width = IMAGE_SIZE;
+    canvas.height = IMAGE_SIZE;
+    const ctx = canvas.getContext('2d')!;
+    const ft = (feet: number) => feet * PIXELS_PER_FOOT;
+
+    // Lawn with a little texture
+    ctx.fillStyle = '#5f8540';
+    ctx.fillRect(0, 0, IMAGE_SIZE, IMAGE_SIZE);
+    for (let i = 0; i < 1500; i++) {
+        ctx.fillStyle = random() < 0.5 ? 'rgba(40, 70, 25, 0.25)' : 'rgba(140, 170, 90, 0.2)';
+        ctx.fillRect(random() * IMAGE_SIZE, random() * IMAGE_SIZE, 3, 3);
+    }
+
+    const left = (IMAGE_SIZE - ft(house.width)) / 2;
+    const top = (IMAGE_SIZE - ft(house.depth)) / 2 - ft(8);
+    const right = left + ft(house.width);
+    const bottom = top + ft(house.depth);
+    const midY = (top + bottom) / 2;
+
+    // Driveway and a few trees
+    ctx.fillStyle = '#b9b4aa';
+    ctx.fillRect(right - ft(18), bottom, ft(16), IMAGE_SIZE - bottom);
+    for (let i = 0; i < 6; i++) {
+        const x = random() < 0.5 ? random() * (left - ft(6)) : right + ft(6) + random() * (IMAGE_SIZE - right - ft(6));
+        const y = random() * IMAGE_SIZE;
+        ctx.fillStyle = '#2f5222';
+        ctx.beginPath();
+        ctx.arc(x, y, ft(4 + random() * 5), 0, Math.PI * 2);
+        ctx.fill();
+    }
+
+    const facet = (points: [number, number][], shade: number) => {
+        ctx.beginPath();
+        points.forEach(([x, y], i) => (i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y)));
+        ctx.closePath();
+        ctx.fillStyle = house.color;
+        ctx.fill();
+        ctx.fillStyle = shade > 0 ? `rgba(255, 255, 255, ${shade})` : `rgba(0, 0, 0, ${-shade})`;
+        ctx.fill();
+        ctx.strokeStyle = 'rgba(0, 0, 0, 0.45)';
+        ctx.lineWidth = 2;
+        ctx.stroke();
+    };
+
+    if (house.style === 'gable') {
+        facet([[left, top], [right, top], [right, midY], [left, midY]], 0.12);
+        facet([[left, midY], [right, midY], [right, bottom], [left, bottom]], -0.15);
+    } else {
+        const inset = ft(house.depth / 2);
+        facet([[left, top], [right, top], [right - inset, midY], [left + inset, midY]], 0.12);
+        facet([[left + inset, midY], [right - inset, midY], [right, bottom], [left, bottom]], -0.15);
+        facet([[left, top], [left + inset, midY], [left, bottom]], 0.02);
+        facet([[right, top], [right, bottom], [right - inset, midY]], -0.05);
+    }
+
+    if (house.wing) {
+        const wingLeft = left + ft(house.wing.offset);
+        const wingRight = wingLeft + ft(house.wing.width);
+        const wingMid = (wingLeft + wingRight) / 2;
+        const wingBottom = bottom + ft(house.wing.length);
+        const ridgeTop = bottom - ft(house.wing.width / 2);
+        facet([[wingMid, ridgeTop], [wingMid, wingBottom], [wingLeft, wingBottom], [wingLeft, bottom]], 0.05);
+        facet([[wingMid, ridgeTop], [wingRight, bottom], [wingRight, wingBottom], [wingMid, wingBottom]], -0.1);
+    }
+
+    // Never let this be mistaken for a photo of the property
+    const label = 'SAMPLE IMAGERY - NOT A PHOTO OF THIS PROPERTY';
+    ctx.font = 'bold 22px sans-serif';
+    const labelWidth = ctx.measureText(label).width;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.fillRect(16, IMAGE_SIZE - 56, labelWidth + 24, 40);
+    ctx.fillStyle = '#fff';
+    ctx.fillText(label, 28, IMAGE_SIZE - 28);
+
+    return canvas.toDataURL('image/jpeg', 0.85);
+}
+
+/**
+ * Produces a made-up but geometrically consistent house for any address, entirely offline.
+ * The same address always gives the same image and measurements, so demos are repeatable.
+ */
+export const mockProvider: MeasurementProvider = {
+    id: 'offline-sample',
+    name: 'Offline Sample Data',
+    description: 'Generates repeatable sample imagery and measurements for any address without a network connection. For demos and training only.',
+    imagery: 'synthetic',
+    isAvailable: () => true,
+
+    async getRoofReport(address: string) {
+        const random = createRandom(hashString(address.trim().toLowerCase()));
+        const house = createSampleHouse(random);
+        return {
+            imageUrl: drawSampleImage(house, random),
+            measurements: measureSampleHouse(house),
+        };
+    },
+};
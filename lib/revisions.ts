@@ -0,0 +1,72 @@
+import type { Report, ReportRevision, RevisionSnapshot } from "../types";
+import { MEASUREMENT_KEYS, MEASUREMENT_LABELS } from "./measurements";
+
+// --- REPORT REVISIONS ---
+
+/**
+ * The parts of a report that revisions track. Images, photos and the quote are left out
+ * to keep revisions small; the quote is recalculated from the measurements anyway.
+ */
+export function revisionSnapshot(report: Report): RevisionSnapshot {
+    // A deep copy, so later edits to the report can't reach into stored revisions
+    return JSON.parse(JSON.stringify({
+        measurements: report.measurements,
+        facets: report.facets,
+        customData: report.customData || {},
+        unparsedMeasurements: report.unparsedMeasurements,
+    }));
+}
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Lists the fields that differ between two snapshots.
+ * @returns Paths such as "measurements.pitch", "facets" or "customData.s_123", in display order.
+ */
+export function changedFields(before: RevisionSnapshot, after: RevisionSnapshot): string[] {
+    const changed: string[] = [];
+    MEASUREMENT_KEYS.forEach(key => {
+        if (!sameValue(before.measurements[key], after.measurements[key])
+            || !sameValue(before.unparsedMeasurements?.[key], after.unparsedMeasurements?.[key])) {
+            changed.push(`measurements.${key}`);
+        }
+    });
+    if (!sameValue(before.facets, after.facets)) changed.push('facets');
+    const sectionIds = new Set([...Object.keys(before.customData || {}), ...Object.keys(after.customData || {})]);
+    sectionIds.forEach(id => {
+        if (!sameValue(before.customData?.[id], after.customData?.[id])) changed.push(`customData.${id}`);
+    });
+    return changed;
+}
+
+/**
+ * Creates a revision recording a report as saved.
+ * @param report The report after the save.
+ * @param previous The report before the save, or null for the original version.
+ * @param label What the save was.
+ * @param savedAt When it was saved.
+ * @param id The revision's ID; revisions saved together need distinct IDs.
+ */
+export function createRevision(report: Report, previous: Report | null, label: string, savedAt: Date, id = savedAt.getTime()): ReportRevision {
+    const snapshot = revisionSnapshot(report);
+    return {
+        id,
+        reportId: report.id,
+        savedAt: savedAt.toISOString(),
+        label,
+        changedFields: previous ? changedFields(revisionSnapshot(previous), snapshot) : [],
+        snapshot,
+    };
+}
+
+/**
+ * A readable name for a changed-field path.
+ * @param field A path from changedFields.
+ * @param sectionTitles Custom section titles by ID, from the report's template.
+ */
+export function describeField(field: string, sectionTitles: Record<string, string> = {}): string {
+    const [group, key] = field.split('.');
+    if (group === 'measurements') return MEASUREMENT_LABELS[key as keyof typeof MEASUREMENT_LABELS] || key;
+    if (group === 'facets') return 'Roof facets';
+    return sectionTitles[key] || 'Removed note';
+}
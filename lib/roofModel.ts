@@ -0,0 +1,287 @@
+import type { EdgeKind, Measurements, RoofType } from "../types";
+
+// --- ROOF MODEL ---
+
+/**
+ * A point on the roof in feet: x along the building's length, y across its depth and
+ * z up from the eaves.
+ */
+export type ModelPoint = [number, number, number];
+
+export type ModelFacet = {
+    points: number[]; // Indexes into RoofModel.points, in order around the facet
+    risePerTwelve: number;
+};
+
+export type ModelEdge = {
+    kind: EdgeKind;
+    from: number; // Index into RoofModel.points
+    to: number;
+};
+
+/**
+ * An idealised 3D roof of a given type, sized to the report's measurements.
+ */
+export type RoofModel = {
+    roofType: RoofType;
+    length: number; // Footprint size in feet, before any wing
+    depth: number;
+    points: ModelPoint[];
+    facets: ModelFacet[];
+    edges: ModelEdge[];
+    outline: number[]; // The eave-level outline of the building, in order around it
+    walls: number[][]; // Vertical faces above the eaves, such as gable ends
+};
+
+export const ROOF_TYPES: { id: RoofType; label: string }[] = [
+    { id: 'gable', label: 'Gable' },
+    { id: 'hip', label: 'Hip' },
+    { id: 'dutchHip', label: 'Dutch Hip' },
+    { id: 'mansard', label: 'Mansard' },
+    { id: 'shed', label: 'Shed' },
+    { id: 'combination', label: 'Combination (cross gable)' },
+];
+
+export function isRoofType(value: unknown): value is RoofType {
+    return ROOF_TYPES.some(type => type.id === value);
+}
+
+export function roofTypeLabel(roofType: RoofType): string {
+    return ROOF_TYPES.find(type => type.id === roofType)?.label || roofType;
+}
+
+/**
+ * A best guess at the roof type for reports that haven't had one chosen: valleys mean
+ * intersecting roofs, hips without valleys a hip roof, and rakes with no ridge a shed.
+ */
+export function inferRoofType(measurements: Measurements): RoofType {
+    if (measurements.valleys.value > 0) return 'combination';
+    if (measurements.hips.value > 0) return 'hip';
+    if (measurements.ridges.value === 0 && measurements.rakes.value > 0) return 'shed';
+    return 'gable';
+}
+
+/** Pitch of a mansard's upper, nearly flat roof. */
+const MANSARD_UPPER_RISE = 2;
+/** How far a Dutch hip's or mansard's break sits in from the eaves, as a share of the depth. */
+const INSET_SHARE = 0.25;
+/** Width and projection of a combination roof's cross gable, as a share of the main depth. */
+const WING_SHARE = 0.6;
+
+/**
+ * Builds the roof of a type on a length × depth footprint.
+ */
+function buildShape(roofType: RoofType, length: number, depth: number, rise: number): Omit<RoofModel, 'roofType' | 'length' | 'depth'> {
+    const slope = rise / 12;
+    const L = length;
+    const W = depth;
+    const points: ModelPoint[] = [];
+    const facets: ModelFacet[] = [];
+    const edges: ModelEdge[] = [];
+    let outline: number[] = [];
+    const walls: number[][] = [];
+    const point = (x: number, y: number, z: number) => points.push([x, y, z]) - 1;
+    const facet = (indexes: number[], facetRise = rise) => facets.push({ points: indexes, risePerTwelve: facetRise });
+    const edge = (kind: EdgeKind, ...indexes: number[]) => {
+        for (let i = 0; i < indexes.length - 1; i++) edges.push({ kind, from: indexes[i], to: indexes[i + 1] });
+    };
+
+    switch (roofType) {
+        case 'gable': {
+            const h = (slope * W) / 2;
+            const [c0, c1, c2, c3] = [point(0, 0, 0), point(L, 0, 0), point(L, W, 0), point(0, W, 0)];
+            const [r0, r1] = [point(0, W / 2, h), point(L, W / 2, h)];
+            facet([c0, c1, r1, r0]);
+            facet([c3, r0, r1, c2]);
+            edge('eave', c0, c1);
+            edge('eave', c3, c2);
+            edge('rake', c0, r0, c3);
+            edge('rake', c1, r1, c2);
+            edge('ridge', r0, r1);
+            outline = [c0, c1, c2, c3];
+            walls.push([c0, r0, c3], [c1, r1, c2]);
+            break;
+        }
+        case 'hip': {
+            const h = (slope * W) / 2;
+            const [c0, c1, c2, c3] = [point(0, 0, 0), point(L, 0, 0), point(L, W, 0), point(0, W, 0)];
+            const [r0, r1] = [point(W / 2, W / 2, h), point(L - W / 2, W / 2, h)];
+            facet([c0, c1, r1, r0]);
+            facet([c1, c2, r1]);
+            facet([c2, c3, r0, r1]);
+            facet([c3, c0, r0]);
+            edge('eave', c0, c1, c2, c3, c0);
+            edge('hip', c0, r0);
+            edge('hip', c3, r0);
+            edge('hip', c1, r1);
+            edge('hip', c2, r1);
+            if (L > W) edge('ridge', r0, r1);
+            outline = [c0, c1, c2, c3];
+            break;
+        }
+        case 'dutchHip': {
+            // A hip roof whose ends stop short of the ridge, leaving a small gable (gablet) at each end
+            const d = W * INSET_SHARE;
+            const h = (slope * W) / 2;
+            const [c0, c1, c2, c3] = [point(0, 0, 0), point(L, 0, 0), point(L, W, 0), point(0, W, 0)];
+            const [a0, a1, a2, a3] = [point(d, d, slope * d), point(L - d, d, slope * d), point(L - d, W - d, slope * d), point(d, W - d, slope * d)];
+            const [r0, r1] = [point(d, W / 2, h), point(L - d, W / 2, h)];
+            facet([c0, c1, a1, r1, r0, a0]);
+            facet([c2, c3, a3, r0, r1, a2]);
+            facet([c1, c2, a2, a1]);
+            facet([c3, c0, a0, a3]);
+            edge('eave', c0, c1, c2, c3, c0);
+            edge('hip', c0, a0);
+            edge('hip', c1, a1);
+            edge('hip', c2, a2);
+            edge('hip', c3, a3);
+            edge('rake', a0, r0, a3);
+            edge('rake', a1, r1, a2);
+            edge('ridge', r0, r1);
+            outline = [c0, c1, c2, c3];
+            walls.push([a0, r0, a3], [a1, r1, a2]);
+            break;
+        }
+        case 'mansard': {
+            // Steep lower slopes on every side, topped by a low-pitch hip roof
+            const d = W * INSET_SHARE;
+            const hb = slope * d;
+            const upperSlope = MANSARD_UPPER_RISE / 12;
+            const innerW = W - 2 * d;
+            const h = hb + (upperSlope * innerW) / 2;
+            const [c0, c1, c2, c3] = [point(0, 0, 0), point(L, 0, 0), point(L, W, 0), point(0, W, 0)];
+            const [a0, a1, a2, a3] = [point(d, d, hb), point(L - d, d, hb), point(L - d, W - d, hb), point(d, W - d, hb)];
+            const [r0, r1] = [point(d + innerW / 2, W / 2, h), point(L - d - innerW / 2, W / 2, h)];
+            facet([c0, c1, a1, a0]);
+            facet([c1, c2, a2, a1]);
+            facet([c2, c3, a3, a2]);
+            facet([c3, c0, a0, a3]);
+            facet([a0, a1, r1, r0], MANSARD_UPPER_RISE);
+            facet([a1, a2, r1], MANSARD_UPPER_RISE);
+            facet([a2, a3, r0, r1], MANSARD_UPPER_RISE);
+            facet([a3, a0, r0], MANSARD_UPPER_RISE);
+            edge('eave', c0, c1, c2, c3, c0);
+            edge('hip', c0, a0);
+            edge('hip', c1, a1);
+            edge('hip', c2, a2);
+            edge('hip', c3, a3);
+            edge('hip', a0, r0);
+            edge('hip', a3, r0);
+            edge('hip', a1, r1);
+            edge('hip', a2, r1);
+            if (L - 2 * d > innerW) edge('ridge', r0, r1);
+            outline = [c0, c1, c2, c3];
+            break;
+        }
+        case 'shed': {
+            // One plane rising from the front eave to the back wall
+            const h = slope * W;
+            const [c0, c1, c2, c3] = [point(0, 0, 0), point(L, 0, 0), point(L, W, h), point(0, W, h)];
+            const [b2, b3] = [point(L, W, 0), point(0, W, 0)];
+            facet([c0, c1, c2, c3]);
+            edge('eave', c0, c1);
+            edge('rake', c0, c3);
+            edge('rake', c1, c2);
+            outline = [c0, c1, b2, b3];
+            walls.push([c0, c3, b3], [c1, c2, b2], [b3, b2, c2, c3]);
+            break;
+        }
+        case 'combination': {
+            // A gable with a cross gable wing off the middle of the front, meeting it in two valleys
+            const h = (slope * W) / 2;
+            const wingWidth = W * WING_SHARE;
+            const wingLength = W * WING_SHARE;
+            const hw = (slope * wingWidth) / 2;
+            const left = (L - wingWidth) / 2;
+            const right = left + wingWidth;
+            const [c0, c1, c2, c3] = [point(0, 0, 0), point(L, 0, 0), point(L, W, 0), point(0, W, 0)];
+            const [r0, r1] = [point(0, W / 2, h), point(L, W / 2, h)];
+            const [wl, wr] = [point(left, 0, 0), point(right, 0, 0)];
+            const [fl, fr] = [point(left, -wingLength, 0), point(right, -wingLength, 0)];
+            const [wf, wv] = [point(L / 2, -wingLength, hw), point(L / 2, wingWidth / 2, hw)];
+            facet([c0, wl, wv, wr, c1, r1, r0]);
+            facet([c3, r0, r1, c2]);
+            facet([fl, wl, wv, wf]);
+            facet([fr, wf, wv, wr]);
+            edge('eave', c0, wl);
+            edge('eave', wr, c1);
+            edge('eave', c3, c2);
+            edge('eave', wl, fl);
+            edge('eave', wr, fr);
+            edge('rake', c0, r0, c3);
+            edge('rake', c1, r1, c2);
+            edge('rake', fl, wf, fr);
+            edge('ridge', r0, r1);
+            edge('ridge', wf, wv);
+            edge('valley', wl, wv);
+            edge('valley', wr, wv);
+            outline = [c0, wl, fl, fr, wr, c1, c2, c3];
+            walls.push([c0, r0, c3], [c1, r1, c2], [fl, wf, fr]);
+            break;
+        }
+    }
+    return { points, facets, edges, outline, walls };
+}
+
+export function distance3d([x1, y1, z1]: ModelPoint, [x2, y2, z2]: ModelPoint): number {
+    return Math.hypot(x2 - x1, y2 - y1, z2 - z1);
+}
+
+/**
+ * The sloped area of a flat polygon in 3D (Newell's method).
+ */
+function polygonArea(points: ModelPoint[]): number {
+    let [nx, ny, nz] = [0, 0, 0];
+    points.forEach(([x1, y1, z1], i) => {
+        const [x2, y2, z2] = points[(i + 1) % points.length];
+        nx += (y1 - y2) * (z1 + z2);
+        ny += (z1 - z2) * (x1 + x2);
+        nz += (x1 - x2) * (y1 + y2);
+    });
+    return Math.hypot(nx, ny, nz) / 2;
+}
+
+export function modelArea(model: Pick<RoofModel, 'points' | 'facets'>): number {
+    return model.facets.reduce((sum, facet) => sum + polygonArea(facet.points.map(index => model.points[index])), 0);
+}
+
+/**
+ * Total length of the model's edges of one kind.
+ */
+export function modelEdgeLength(model: Pick<RoofModel, 'points' | 'edges'>, kind: EdgeKind): number {
+    return model.edges
+        .filter(edge => edge.kind === kind)
+        .reduce((sum, edge) => sum + distance3d(model.points[edge.from], model.points[edge.to]), 0);
+}
+
+/**
+ * Builds a 3D model of the roof sized to its measurements. The footprint is chosen so the
+ * model's roof area matches the measured area, with the length-to-depth ratio that brings
+ * the eave length closest to the measured eaves. Lengths on the model are therefore close
+ * to, but not exactly, the measured ones.
+ * @param measurements The roof measurements.
+ * @param roofType The roof type; guessed from the measurements when not given.
+ */
+export function buildRoofModel(measurements: Measurements, roofType: RoofType = inferRoofType(measurements)): RoofModel {
+    const { rise, run } = measurements.pitch;
+    const risePer12 = run > 0 ? (rise / run) * 12 : 0;
+    const area = measurements.totalArea.value;
+    const eaves = measurements.eaves.value;
+
+    // Area grows with the square of the size, so size a unit-depth shape to the measured area
+    const sized = (ratio: number) => {
+        const unit = buildShape(roofType, ratio, 1, risePer12);
+        const depth = area > 0 ? Math.sqrt(area / modelArea(unit)) : 30;
+        return { ratio, depth, shape: buildShape(roofType, ratio * depth, depth, risePer12) };
+    };
+    let best = sized(1.6);
+    if (area > 0 && eaves > 0) {
+        for (let ratio = 1; ratio <= 6; ratio += 0.05) {
+            const candidate = sized(ratio);
+            if (Math.abs(modelEdgeLength(candidate.shape, 'eave') - eaves) < Math.abs(modelEdgeLength(best.shape, 'eave') - eaves)) {
+                best = candidate;
+            }
+        }
+    }
+    return { roofType, length: best.ratio * best.depth, depth: best.depth, ...best.shape };
+}
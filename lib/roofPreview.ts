@@ -0,0 +1,179 @@
+import type { RoofViewAngle } from "../types";
+import type { ModelPoint, RoofModel } from "./roofModel";
+
+// --- 3D ROOF PREVIEW ---
+
+export const DEFAULT_VIEW_ANGLE: RoofViewAngle = { yaw: -35, tilt: 30, zoom: 1 };
+
+const WALL_HEIGHT_PER_STORY = 9;
+const WALL_COLOR: [number, number, number] = [226, 232, 240];
+const BACKGROUND_COLOR = '#ffffff';
+const GROUND_COLOR = '#edf2f7';
+const EDGE_STROKE = 'rgba(26, 32, 44, 0.55)';
+const LIGHT: ModelPoint = normalize([-0.4, -0.6, 0.7]);
+
+function normalize([x, y, z]: ModelPoint): ModelPoint {
+    const length = Math.hypot(x, y, z) || 1;
+    return [x / length, y / length, z / length];
+}
+
+const dot = (a: ModelPoint, b: ModelPoint) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+/**
+ * Keeps a view angle within its limits: tilt between near-level and straight down, zoom
+ * between a distant overview and a close look.
+ */
+export function clampViewAngle(angle: RoofViewAngle): RoofViewAngle {
+    return {
+        yaw: ((angle.yaw % 360) + 540) % 360 - 180,
+        tilt: Math.min(Math.max(angle.tilt, 5), 90),
+        zoom: Math.min(Math.max(angle.zoom, 0.5), 4),
+    };
+}
+
+/**
+ * The fill color for a facet of the given pitch: green for low slopes through to red at 12/12 and steeper.
+ * @param risePerTwelve The facet's pitch.
+ * @param light How brightly the facet is lit, from 0 to 1.
+ */
+export function pitchColor(risePerTwelve: number, light = 1): string {
+    const hue = 120 - (Math.min(Math.max(risePerTwelve, 0), 12) / 12) * 120;
+    return `hsl(${hue.toFixed(0)}, 60%, ${(25 + 35 * light).toFixed(0)}%)`;
+}
+
+/**
+ * The distinct pitches on the model, lowest first, for a color legend.
+ */
+export function modelPitches(model: RoofModel): number[] {
+    return [...new Set(model.facets.map(facet => Math.round(facet.risePerTwelve * 10) / 10))].sort((a, b) => a - b);
+}
+
+type Face = { points: ModelPoint[]; fill: (light: number) => string; outline: boolean };
+
+/**
+ * The faces to draw: the roof facets, the model's walls above the eaves, and walls from
+ * the eave-level outline down to the ground.
+ */
+function modelFaces(model: RoofModel, stories: number): Face[] {
+    const ground = -WALL_HEIGHT_PER_STORY * Math.max(stories, 1);
+    const wallFill = (light: number) => `rgb(${WALL_COLOR.map(channel => Math.round(channel * (0.7 + 0.3 * light))).join(', ')})`;
+    const faces: Face[] = model.facets.map(facet => ({
+        points: facet.points.map(index => model.points[index]),
+        fill: light => pitchColor(facet.risePerTwelve, light),
+        outline: true,
+    }));
+    model.walls.forEach(wall => faces.push({ points: wall.map(index => model.points[index]), fill: wallFill, outline: false }));
+    model.outline.forEach((index, i) => {
+        const a = model.points[index];
+        const b = model.points[model.outline[(i + 1) % model.outline.length]];
+        faces.push({ points: [a, b, [b[0], b[1], ground], [a[0], a[1], ground]], fill: wallFill, outline: false });
+    });
+    return faces;
+}
+
+/**
+ * Draws the roof model on a canvas from the given angle, with facets colored by pitch and
+ * shaded by a fixed light. Faces are painted back to front.
+ * @param context The canvas to draw on; it is painted over entirely.
+ * @param model The roof model.
+ * @param angle The camera angle.
+ * @param stories How many stories of wall to draw below the eaves.
+ */
+export function drawRoofPreview(context: CanvasRenderingContext2D, model: RoofModel, angle: RoofViewAngle, stories = 1) {
+    const { width, height } = context.canvas;
+    const faces = modelFaces(model, stories);
+    const ground = -WALL_HEIGHT_PER_STORY * Math.max(stories, 1);
+
+    // Center the building, including its walls, on the origin
+    const all = faces.flatMap(face => face.points);
+    const extent = (axis: number) => [Math.min(...all.map(point => point[axis])), Math.max(...all.map(point => point[axis]))];
+    const [[minX, maxX], [minY, maxY], [minZ, maxZ]] = [extent(0), extent(1), extent(2)];
+    const center: ModelPoint = [(minX + maxX) / 2, (minY + maxY) / 2, (minZ + maxZ) / 2];
+    const radius = Math.hypot(maxX - minX, maxY - minY, maxZ - minZ) / 2 || 1;
+    const scale = (Math.min(width, height) / (2 * radius)) * 0.95 * angle.zoom;
+
+    const yaw = (angle.yaw * Math.PI) / 180;
+    const tilt = (angle.tilt * Math.PI) / 180;
+    const rotate = ([x, y, z]: ModelPoint): ModelPoint => [x * Math.cos(yaw) - y * Math.sin(yaw), x * Math.sin(yaw) + y * Math.cos(yaw), z];
+    const toViewer: ModelPoint = [0, -Math.cos(tilt), Math.sin(tilt)];
+    /** Screen position and distance toward the viewer of a model point. */
+    const project = (point: ModelPoint) => {
+        const [x, y, z] = rotate([point[0] - center[0], point[1] - center[1], point[2] - center[2]]);
+        return {
+            x: width / 2 + x * scale,
+            y: height / 2 - (z * Math.cos(tilt) + y * Math.sin(tilt)) * scale,
+            depth: dot([x, y, z], toViewer),
+        };
+    };
+
+    context.fillStyle = BACKGROUND_COLOR;
+    context.fillRect(0, 0, width, height);
+
+    // Ground under the footprint
+    context.fillStyle = GROUND_COLOR;
+    context.beginPath();
+    [[minX, minY], [maxX, minY], [maxX, maxY], [minX, maxY]].forEach(([x, y], i) => {
+        const margin = radius * 0.15;
+        const point = project([x + (x === minX ? -margin : margin), y + (y === minY ? -margin : margin), ground]);
+        if (i === 0) context.moveTo(point.x, point.y); else context.lineTo(point.x, point.y);
+    });
+    context.closePath();
+    context.fill();
+
+    faces
+        .map(face => {
+            // Newell normal, turned to face outward from the building's middle
+            let normal: ModelPoint = [0, 0, 0];
+            face.points.forEach((a, i) => {
+                const b = face.points[(i + 1) % face.points.length];
+                normal = [
+                    normal[0] + (a[1] - b[1]) * (a[2] + b[2]),
+                    normal[1] + (a[2] - b[2]) * (a[0] + b[0]),
+                    normal[2] + (a[0] - b[0]) * (a[1] + b[1]),
+                ];
+            });
+            normal = normalize(normal);
+            const middle = face.points.reduce<ModelPoint>((sum, p) => [sum[0] + p[0] / face.points.length, sum[1] + p[1] / face.points.length, sum[2] + p[2] / face.points.length], [0, 0, 0]);
+            const outward: ModelPoint = [middle[0] - center[0], middle[1] - center[1], face.outline ? 1 : 0];
+            if (dot(normal, outward) < 0) normal = [-normal[0], -normal[1], -normal[2]];
+            const projected = face.points.map(project);
+            return {
+                face,
+                projected,
+                depth: projected.reduce((sum, point) => sum + point.depth, 0) / projected.length,
+                facing: dot(rotate(normal), toViewer),
+                light: Math.max(dot(normal, LIGHT), 0),
+            };
+        })
+        .filter(item => item.facing > -0.01 || item.face.outline)
+        .sort((a, b) => a.depth - b.depth)
+        .forEach(({ face, projected, light }) => {
+            context.beginPath();
+            projected.forEach((point, i) => (i === 0 ? context.moveTo(point.x, point.y) : context.lineTo(point.x, point.y)));
+            context.closePath();
+            context.fillStyle = face.fill(0.35 + 0.65 * light);
+            context.fill();
+            context.strokeStyle = face.outline ? EDGE_STROKE : 'rgba(160, 174, 192, 0.8)';
+            context.lineWidth = Math.max(1, Math.min(width, height) / 400);
+            context.stroke();
+        });
+}
+
+/**
+ * Renders the roof preview to a PNG, for the PDF.
+ * @param model The roof model.
+ * @param angle The camera angle.
+ * @param stories How many stories of wall to draw.
+ * @param width Image width in pixels.
+ * @param height Image height in pixels.
+ * @returns A PNG data URL.
+ */
+export function renderRoofPreviewImage(model: RoofModel, angle: RoofViewAngle, stories: number, width: number, height: number): string {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) return '';
+    drawRoofPreview(context, model, angle, stories);
+    return canvas.toDataURL('image/png');
+}
@@ -0,0 +1,114 @@
+import type { JobStatus } from "../types";
+import { isJobStatus } from "./pipeline";
+
+// --- HASH ROUTES ---
+
+/**
+ * Every view the app can show, as addressed by the URL fragment.
+ */
+export type Route =
+    | { name: 'landing' }
+    | { name: 'newReport' }
+    | { name: 'newManualReport' }
+    | { name: 'report'; reportId: number }
+    | { name: 'reportRevisions'; reportId: number; revisionId?: number }
+    | { name: 'history'; query: string; status?: JobStatus }
+    | { name: 'pipeline' }
+    | { name: 'templates' }
+    | { name: 'newTemplate' }
+    | { name: 'editTemplate'; templateId: number }
+    | { name: 'customers' }
+    | { name: 'newCustomer' }
+    | { name: 'customer'; customerId: number }
+    | { name: 'profile' }
+    | { name: 'settings' }
+    | { name: 'share'; payload: string }
+    | { name: 'notFound'; path: string };
+
+/**
+ * Parses a location hash such as "#/reports/123" or "#/history?q=maple&status=sold" into a route.
+ * @param hash The hash, with or without its leading "#".
+ * @returns The matching route, or a notFound route naming the unmatched path.
+ */
+export function parseRoute(hash: string): Route {
+    const fragment = hash.replace(/^#/, '');
+    const queryStart = fragment.indexOf('?');
+    const path = queryStart === -1 ? fragment : fragment.slice(0, queryStart);
+    const params = new URLSearchParams(queryStart === -1 ? '' : fragment.slice(queryStart + 1));
+    const segments = path.split('/').filter(Boolean);
+    const id = (segment: string | undefined) => (segment && /^\d+$/.test(segment) ? Number(segment) : null);
+
+    if (segments[0] === 'share' && segments.length === 2) {
+        // Payloads are base64url, so they never contain "/" or "?"
+        return { name: 'share', payload: segments[1] };
+    }
+
+    const [first, second, third, fourth] = segments;
+    switch (segments.length) {
+        case 0:
+            return { name: 'landing' };
+        case 1:
+            if (first === 'new') return { name: 'newReport' };
+            if (first === 'history') {
+                const status = params.get('status');
+                return { name: 'history', query: params.get('q') || '', status: isJobStatus(status) ? status : undefined };
+            }
+            if (first === 'pipeline') return { name: 'pipeline' };
+            if (first === 'templates') return { name: 'templates' };
+            if (first === 'customers') return { name: 'customers' };
+            if (first === 'profile') return { name: 'profile' };
+            if (first === 'settings') return { name: 'settings' };
+            break;
+        case 2:
+            if (first === 'new' && second === 'manual') return { name: 'newManualReport' };
+            if (first === 'reports' && id(second) !== null) return { name: 'report', reportId: id(second)! };
+            if (first === 'templates' && second === 'new') return { name: 'newTemplate' };
+            if (first === 'customers' && second === 'new') return { name: 'newCustomer' };
+            if (first === 'customers' && id(second) !== null) return { name: 'customer', customerId: id(second)! };
+            break;
+        case 3:
+            if (first === 'templates' && id(second) !== null && third === 'edit') {
+                return { name: 'editTemplate', templateId: id(second)! };
+            }
+            if (first === 'reports' && id(second) !== null && third === 'revisions') {
+                return { name: 'reportRevisions', reportId: id(second)! };
+            }
+            break;
+        case 4:
+            if (first === 'reports' && id(second) !== null && third === 'revisions' && id(fourth) !== null) {
+                return { name: 'reportRevisions', reportId: id(second)!, revisionId: id(fourth)! };
+            }
+            break;
+    }
+    return { name: 'notFound', path };
+}
+
+/**
+ * Builds the location hash for a route; the inverse of parseRoute.
+ */
+export function routeToHash(route: Route): string {
+    switch (route.name) {
+        case 'landing': return '#/';
+        case 'newReport': return '#/new';
+        case 'newManualReport': return '#/new/manual';
+        case 'report': return `#/reports/${route.reportId}`;
+        case 'reportRevisions': return `#/reports/${route.reportId}/revisions${route.revisionId ? `/${route.revisionId}` : ''}`;
+        case 'history': {
+            const params = new URLSearchParams();
+            if (route.query) params.set('q', route.query);
+            if (route.status) params.set('status', route.status);
+            return params.toString() ? `#/history?${params}` : '#/history';
+        }
+        case 'pipeline': return '#/pipeline';
+        case 'templates': return '#/templates';
+        case 'newTemplate': return '#/templates/new';
+        case 'editTemplate': return `#/templates/${route.templateId}/edit`;
+        case 'customers': return '#/customers';
+        case 'newCustomer': return '#/customers/new';
+        case 'customer': return `#/customers/${route.customerId}`;
+        case 'profile': return '#/profile';
+        case 'settings': return '#/settings';
+        case 'share': return `#/share/${route.payload}`;
+        case 'notFound': return `#${route.path}`;
+    }
+}
@@ -0,0 +1,132 @@
+import type { CustomSection, SectionKind, SectionValue } from "../types";
+
+// --- CUSTOM SECTION KINDS ---
+
+export const SECTION_KINDS: SectionKind[] = ['longText', 'checklist', 'number', 'singleSelect', 'multiSelect', 'date', 'yesNo'];
+
+export const SECTION_KIND_LABELS: Record<SectionKind, string> = {
+    longText: 'Long Text',
+    checklist: 'Checklist',
+    number: 'Number',
+    singleSelect: 'Dropdown (pick one)',
+    multiSelect: 'Dropdown (pick several)',
+    date: 'Date',
+    yesNo: 'Yes / No',
+};
+
+/**
+ * Kinds whose choices are configured as a list of options in the template.
+ */
+export const OPTION_SECTION_KINDS: SectionKind[] = ['checklist', 'singleSelect', 'multiSelect'];
+
+/**
+ * Ready-made sections offered as quick-add pills in the template editor.
+ */
+export const QUICK_ADD_SECTIONS: { label: string; section: Omit<CustomSection, 'id'> }[] = [
+    { label: 'On-site Notes', section: { title: 'On-site Notes', kind: 'longText' } },
+    { label: 'Damage Assessment', section: { title: 'Damage Assessment', kind: 'longText' } },
+    {
+        label: 'Material Checklist',
+        section: {
+            title: 'Material Checklist',
+            kind: 'checklist',
+            options: ['Shingles', 'Underlayment', 'Starter strip', 'Ridge cap', 'Drip edge', 'Ice & water shield',
+                'Valley metal', 'Pipe boots', 'Roof vents', 'Nails'],
+        },
+    },
+    { label: 'Client Log', section: { title: 'Client Conversation Log', kind: 'longText' } },
+];
+
+export function sectionKind(section: Pick<CustomSection, 'kind'>): SectionKind {
+    return section.kind || 'longText';
+}
+
+/**
+ * The value a section starts with in a new report.
+ */
+export function emptySectionValue(section: CustomSection): SectionValue {
+    switch (sectionKind(section)) {
+        case 'checklist':
+        case 'multiSelect':
+            return [];
+        case 'number':
+        case 'yesNo':
+            return null;
+        default:
+            return '';
+    }
+}
+
+/**
+ * Reads a stored value as the section's current kind. Covers reports saved before the
+ * section had a kind (plain text) and sections whose kind or options changed since.
+ * @param section The section definition from the template.
+ * @param value The stored value, if any.
+ * @returns A value of the right shape; list values only keep items still offered.
+ */
+export function normalizeSectionValue(section: CustomSection, value: unknown): SectionValue {
+    const options = section.options || [];
+    const text = typeof value === 'string' ? value.trim() : '';
+    switch (sectionKind(section)) {
+        case 'longText':
+            return Array.isArray(value) ? value.join('\n') : value === null || value === undefined ? '' : String(value);
+        case 'checklist':
+        case 'multiSelect': {
+            const items = Array.isArray(value) ? value.map(String) : text.split(/\n|,/).map(item => item.trim());
+            return options.filter(option => items.includes(option));
+        }
+        case 'singleSelect':
+            return options.includes(text) ? text : '';
+        case 'number': {
+            const number = typeof value === 'number' ? value : parseFloat(text);
+            return Number.isFinite(number) ? number : null;
+        }
+        case 'date':
+            return /^\d{4}-\d{2}-\d{2}$/.test(text) ? text : '';
+        case 'yesNo':
+            if (typeof value === 'boolean') return value;
+            if (/^(yes|y|true)$/i.test(text)) return true;
+            if (/^(no|n|false)$/i.test(text)) return false;
+            return null;
+    }
+}
+
+/**
+ * Whether a value read from a file is a usable section definition.
+ */
+export function isCustomSection(section: unknown): section is CustomSection {
+    if (typeof section !== 'object' || section === null) return false;
+    const { id, title, kind, options, unit } = section as Record<string, unknown>;
+    return typeof id === 'string' && id !== '' && typeof title === 'string'
+        && (kind === undefined || SECTION_KINDS.includes(kind as SectionKind))
+        && (options === undefined || (Array.isArray(options) && options.every(option => typeof option === 'string')))
+        && (unit === undefined || typeof unit === 'string');
+}
+
+export function isSectionValueEmpty(value: SectionValue): boolean {
+    return value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * A section value as plain text, e.g. "24 sq ft", "Yes" or "Shingles, Nails".
+ * @returns The text, or an empty string when there is no value.
+ */
+export function formatSectionValue(section: CustomSection, value: SectionValue): string {
+    const normalized = normalizeSectionValue(section, value);
+    if (isSectionValueEmpty(normalized)) return '';
+    switch (sectionKind(section)) {
+        case 'number':
+            return `${(normalized as number).toLocaleString('en-US')}${section.unit ? ` ${section.unit}` : ''}`;
+        case 'yesNo':
+            return normalized ? 'Yes' : 'No';
+        case 'date': {
+            const [year, month, day] = (normalized as string).split('-').map(Number);
+            return new Date(year, month - 1, day).toLocaleDateString();
+        }
+        case 'checklist':
+        case 'multiSelect':
+            return (normalized as string[]).join(', ');
+        default:
+            return normalized as string;
+    }
+}
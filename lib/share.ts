@@ -0,0 +1,176 @@
+import type { EdgeKind, Measurements, ReportSource, RoofFacet, RoofTracing, RoofType, TracePoint } from "../types";
+import { MEASUREMENT_KEYS } from "./measurements";
+import { EDGE_KINDS } from "./facets";
+import { isRoofType } from "./roofModel";
+
+// --- SHARE LINKS ---
+
+export const SHARE_VERSION = 1;
+
+/**
+ * Everything a read-only shared report needs, with no reference to the sender's storage.
+ * Custom notes are flattened to titled sections since the recipient doesn't have the template.
+ */
+export type SharedReport = {
+    version: number;
+    address: string;
+    imageUrl: string;
+    timestamp: string;
+    measurements: Measurements;
+    facets: RoofFacet[];
+    roofType?: RoofType;
+    tracing?: RoofTracing;
+    source: ReportSource;
+    notes: { title: string; content: string }[];
+    company?: {
+        name: string;
+        address: string;
+        logoDataUrl: string;
+    };
+};
+
+/**
+ * Thrown when a share link can't be decoded into a report.
+ */
+export class ShareLinkError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ShareLinkError';
+    }
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+    let binary = '';
+    bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+async function pipeThrough(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+    const output = new Blob([bytes]).stream().pipeThrough(stream);
+    return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+/**
+ * Encodes a shared report for the URL fragment. The JSON is deflated when the browser
+ * supports CompressionStream; the first character records which form was used.
+ * @param shared The report data to share.
+ * @returns A URL-safe string.
+ */
+export async function encodeSharedReport(shared: SharedReport): Promise<string> {
+    const json = new TextEncoder().encode(JSON.stringify(shared));
+    if (typeof CompressionStream === 'undefined') {
+        return `j${toBase64Url(json)}`;
+    }
+    return `z${toBase64Url(await pipeThrough(json, new CompressionStream('deflate-raw')))}`;
+}
+
+const asString = (value: unknown) => (typeof value === 'string' ? value : '');
+const asNumber = (value: unknown) => {
+    const number = Number(value);
+    return Number.isFinite(number) ? number : 0;
+};
+const asPoint = (value: unknown): TracePoint => {
+    const point = (value || {}) as Record<string, unknown>;
+    return { x: asNumber(point.x), y: asNumber(point.y) };
+};
+const asImageDataUrl = (value: unknown) => {
+    const text = asString(value);
+    return /^data:image\/(png|jpe?g|webp);base64,[A-Za-z0-9+/=]+$/.test(text) ? text : '';
+};
+const asOneOf = <T extends string>(value: unknown, options: readonly T[], fallback: T): T =>
+    (options.includes(value as T) ? value as T : fallback);
+const asEdgeKind = (value: unknown): EdgeKind => asOneOf(value, EDGE_KINDS, 'eave');
+
+/**
+ * Rebuilds decoded link data field by field, so a hand-crafted link can only ever
+ * produce well-typed strings, numbers and image data URLs. IDs are generated afresh
+ * rather than taken from the link.
+ */
+function sanitizeSharedReport(data: Record<string, any>): SharedReport {
+    if (!data || data.version !== SHARE_VERSION || !data.measurements) {
+        throw new ShareLinkError('This share link is not a ContractorFlow report or was made by a newer version.');
+    }
+    const measurements = {} as Record<string, unknown>;
+    MEASUREMENT_KEYS.forEach(key => {
+        const value = data.measurements[key] || {};
+        measurements[key] = key === 'pitch'
+            ? { rise: asNumber(value.rise), run: asNumber(value.run) || 12 }
+            : { value: asNumber(value.value), unit: key === 'totalArea' ? 'sq ft' : key === 'wasteFactor' ? '%' : 'ft' };
+    });
+    const facets: RoofFacet[] = (Array.isArray(data.facets) ? data.facets : []).map((facet: any, index: number) => ({
+        id: `f_${index}`,
+        name: asString(facet?.name),
+        planArea: asNumber(facet?.planArea),
+        pitch: { rise: asNumber(facet?.pitch?.rise), run: asNumber(facet?.pitch?.run) || 12 },
+        edges: Object.fromEntries(EDGE_KINDS.map(kind => [kind, asNumber(facet?.edges?.[kind])])) as Record<EdgeKind, number>,
+    }));
+    const tracing: RoofTracing | undefined = data.tracing ? {
+        imageWidth: asNumber(data.tracing.imageWidth) || 1,
+        imageHeight: asNumber(data.tracing.imageHeight) || 1,
+        scale: data.tracing.scale
+            ? { from: asPoint(data.tracing.scale.from), to: asPoint(data.tracing.scale.to), feet: asNumber(data.tracing.scale.feet) }
+            : null,
+        polygons: (Array.isArray(data.tracing.polygons) ? data.tracing.polygons : []).map((polygon: any, index: number) => ({
+            id: `p_${index}`,
+            name: asString(polygon?.name),
+            points: (Array.isArray(polygon?.points) ? polygon.points : []).map(asPoint),
+            pitch: { rise: asNumber(polygon?.pitch?.rise), run: asNumber(polygon?.pitch?.run) || 12 },
+        })),
+        lines: (Array.isArray(data.tracing.lines) ? data.tracing.lines : []).map((line: any, index: number) => ({
+            id: `l_${index}`,
+            kind: asEdgeKind(line?.kind),
+            from: asPoint(line?.from),
+            to: asPoint(line?.to),
+        })),
+    } : undefined;
+
+    return {
+        version: SHARE_VERSION,
+        address: asString(data.address),
+        imageUrl: asImageDataUrl(data.imageUrl),
+        timestamp: asString(data.timestamp),
+        measurements: measurements as Measurements,
+        facets,
+        roofType: isRoofType(data.roofType) ? data.roofType : undefined,
+        tracing,
+        // Anything unrecognised is treated as a generated image, never as a photo
+        source: {
+            measurements: asOneOf(data.source?.measurements, ['manual', 'provider'] as const, 'provider'),
+            image: asOneOf(data.source?.image, ['uploaded', 'aerial', 'synthetic', 'none'] as const, 'synthetic'),
+            providerName: asString(data.source?.providerName) || undefined,
+        },
+        notes: (Array.isArray(data.notes) ? data.notes : []).map((note: any) => ({
+            title: asString(note?.title),
+            content: asString(note?.content),
+        })),
+        company: data.company ? {
+            name: asString(data.company.name),
+            address: asString(data.company.address),
+            logoDataUrl: asImageDataUrl(data.company.logoDataUrl),
+        } : undefined,
+    };
+}
+
+/**
+ * Decodes the fragment part of a share link back into a report.
+ * @param encoded The string produced by encodeSharedReport.
+ * @returns The validated shared report.
+ * @throws ShareLinkError if the link is damaged or not a report.
+ */
+export async function decodeSharedReport(encoded: string): Promise<SharedReport> {
+    try {
+        const bytes = fromBase64Url(encoded.slice(1));
+        const json = encoded[0] === 'z'
+            ? await pipeThrough(bytes, new DecompressionStream('deflate-raw'))
+            : bytes;
+        return sanitizeSharedReport(JSON.parse(new TextDecoder().decode(json)));
+    } catch (error) {
+        if (error instanceof ShareLinkError) throw error;
+        throw new ShareLinkError('This share link is incomplete or damaged. Ask for the link to be sent again.');
+    }
+}
@@ -0,0 +1,109 @@
+import type { Template } from "../types";
+import type { TemplateDefinition } from "./templates";
+
+// --- STARTER TEMPLATE LIBRARY ---
+
+export type StarterTemplate = TemplateDefinition & {
+    key: string;
+    description: string;
+};
+
+/**
+ * Ready-made templates bundled with the app. Section IDs are fixed so every workspace that
+ * starts from the same starter fills in the same fields.
+ */
+export const STARTER_TEMPLATES: StarterTemplate[] = [
+    {
+        key: 'insurance-claim',
+        name: 'Insurance Claim',
+        defaultVariant: 'insurance',
+        description: 'Storm details, adjuster meeting and damage findings for a carrier-backed replacement.',
+        customSections: [
+            { id: 'starter_claim_loss_date', title: 'Date of Loss', kind: 'date' },
+            { id: 'starter_claim_cause', title: 'Cause of Loss', kind: 'singleSelect', options: ['Hail', 'Wind', 'Fallen tree', 'Ice dam', 'Fire', 'Other'] },
+            { id: 'starter_claim_adjuster_meeting', title: 'Adjuster Meeting', kind: 'date' },
+            { id: 'starter_claim_test_square', title: 'Hits per Test Square', kind: 'number', unit: 'hits' },
+            {
+                id: 'starter_claim_damage',
+                title: 'Damage Found',
+                kind: 'checklist',
+                options: ['Hail bruising', 'Creased shingles', 'Missing shingles', 'Granule loss', 'Damaged vents', 'Damaged gutters',
+                    'Dented flashing', 'Interior leak'],
+            },
+            { id: 'starter_claim_code_upgrades', title: 'Code Upgrades Required', kind: 'yesNo' },
+            { id: 'starter_claim_notes', title: 'Adjuster Notes', kind: 'longText' },
+        ],
+    },
+    {
+        key: 'retail-estimate',
+        name: 'Retail Estimate',
+        defaultVariant: 'homeowner',
+        description: 'Product choices and scope for a homeowner paying directly.',
+        customSections: [
+            { id: 'starter_retail_product', title: 'Shingle Line', kind: 'singleSelect', options: ['3-tab', 'Architectural', 'Designer', 'Metal', 'Other'] },
+            { id: 'starter_retail_color', title: 'Color', kind: 'longText' },
+            { id: 'starter_retail_layers', title: 'Layers to Tear Off', kind: 'number', unit: 'layers' },
+            {
+                id: 'starter_retail_upgrades',
+                title: 'Upgrades',
+                kind: 'multiSelect',
+                options: ['Synthetic underlayment', 'Ice & water shield throughout', 'Ridge vent', 'New gutters', 'Skylight replacement'],
+            },
+            { id: 'starter_retail_financing', title: 'Financing Requested', kind: 'yesNo' },
+            { id: 'starter_retail_notes', title: 'Homeowner Notes', kind: 'longText' },
+        ],
+    },
+    {
+        key: 'inspection',
+        name: 'Roof Inspection',
+        defaultVariant: 'full',
+        description: 'Condition of each roof component, for maintenance visits and real estate inspections.',
+        customSections: [
+            { id: 'starter_inspection_age', title: 'Estimated Roof Age', kind: 'number', unit: 'years' },
+            { id: 'starter_inspection_condition', title: 'Overall Condition', kind: 'singleSelect', options: ['Good', 'Fair', 'Poor', 'Failed'] },
+            {
+                id: 'starter_inspection_checked',
+                title: 'Components Inspected',
+                kind: 'checklist',
+                options: ['Shingles', 'Flashing', 'Pipe boots', 'Vents', 'Gutters', 'Decking', 'Attic ventilation', 'Chimney'],
+            },
+            { id: 'starter_inspection_leaks', title: 'Active Leaks', kind: 'yesNo' },
+            { id: 'starter_inspection_life', title: 'Remaining Life', kind: 'number', unit: 'years' },
+            { id: 'starter_inspection_findings', title: 'Findings & Recommendations', kind: 'longText' },
+        ],
+    },
+    {
+        key: 'repair',
+        name: 'Repair',
+        defaultVariant: 'crew',
+        description: 'A targeted repair: what failed, where, and what it takes to fix.',
+        customSections: [
+            { id: 'starter_repair_issue', title: 'Reported Problem', kind: 'longText' },
+            { id: 'starter_repair_area', title: 'Repair Area', kind: 'number', unit: 'sq ft' },
+            {
+                id: 'starter_repair_work',
+                title: 'Work Needed',
+                kind: 'checklist',
+                options: ['Replace shingles', 'Reseal flashing', 'Replace pipe boot', 'Replace decking', 'Repair valley', 'Clear gutters'],
+            },
+            { id: 'starter_repair_urgency', title: 'Urgency', kind: 'singleSelect', options: ['Emergency', 'Within a week', 'Routine'] },
+            { id: 'starter_repair_tarp', title: 'Tarp Installed', kind: 'yesNo' },
+            { id: 'starter_repair_notes', title: 'Repair Notes', kind: 'longText' },
+        ],
+    },
+];
+
+/**
+ * A new workspace template made from a starter.
+ * @param starter The starter to copy.
+ * @param id The new template's ID.
+ */
+export function cloneStarterTemplate(starter: StarterTemplate, id: number): Template {
+    return {
+        id,
+        name: starter.name,
+        defaultVariant: starter.defaultVariant,
+        customSections: JSON.parse(JSON.stringify(starter.customSections)),
+        version: 1,
+    };
+}
@@ -0,0 +1,403 @@
+import type { Customer, Profile, Report, ReportPhoto, ReportRevision, Template } from "../types";
+
+// --- INDEXEDDB STORAGE ---
+
+const DB_NAME = 'contractorFlow';
+const DB_VERSION = 3;
+const PROFILE_KEY = 'profile';
+const PROFILE_LOGO_KEY = 'profile:logo';
+
+/**
+ * Keys the app used before storage moved to IndexedDB; their data is imported once and removed.
+ */
+const LEGACY_KEYS = {
+    reports: 'roofReportHistory',
+    templates: 'reportTemplates',
+    profile: 'contractorProfile',
+};
+
+/**
+ * Reports and the profile are stored without their images; the images live in the
+ * "images" store as Blobs under these keys.
+ */
+type StoredPhoto = Omit<ReportPhoto, 'dataUrl'> & { imageKey: string };
+type StoredReport = Omit<Report, 'imageUrl' | 'photos'> & { imageKey: string | null; photos?: StoredPhoto[] };
+type StoredImage = { key: string; blob: Blob };
+type StoredProfile = Omit<Profile, 'logoDataUrl'> & { logoKey: string | null };
+
+/**
+ * Thrown when the browser refuses a write because the site's storage is full.
+ */
+export class StorageQuotaError extends Error {
+    constructor() {
+        super('Your browser has run out of storage space for this app, so the change was not saved. '
+            + 'Free up disk space or clear data from other sites, then try again.');
+        this.name = 'StorageQuotaError';
+    }
+}
+
+/**
+ * Thrown for any other storage failure, e.g. IndexedDB being unavailable in private browsing.
+ */
+export class StorageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'StorageError';
+    }
+}
+
+function toStorageError(error: DOMException | null): Error {
+    if (error?.name === 'QuotaExceededError') return new StorageQuotaError();
+    return new StorageError(`Storage failed: ${error?.message || 'unknown error'}`);
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(toStorageError(request.error));
+    });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(toStorageError(transaction.error));
+        transaction.onabort = () => reject(toStorageError(transaction.error));
+    });
+}
+
+export async function dataUrlToBlob(dataUrl: string): Promise<Blob> {
+    return (await fetch(dataUrl)).blob();
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(new StorageError('Could not read a stored image.'));
+        reader.readAsDataURL(blob);
+    });
+}
+
+const imageBlob = (dataUrl: string) => (dataUrl.startsWith('data:') ? dataUrlToBlob(dataUrl) : Promise.resolve(null));
+const reportImageKey = (reportId: number) => `report:${reportId}`;
+const reportPhotoKey = (reportId: number, photoId: string) => `report:${reportId}:photo:${photoId}`;
+// Every photo key of a report; "report:1:photo:" never prefixes another report's keys
+const reportPhotoKeys = (reportId: number) => IDBKeyRange.bound(`report:${reportId}:photo:`, `report:${reportId}:photo:\uffff`);
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (!databasePromise) {
+        databasePromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new StorageError('This browser does not support offline storage.'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = event => {
+                const db = request.result;
+                // Each version only adds stores, so create whatever this database is missing
+                if (event.oldVersion < 1) {
+                    db.createObjectStore('reports', { keyPath: 'id' });
+                    db.createObjectStore('templates', { keyPath: 'id' });
+                    db.createObjectStore('profile');
+                    db.createObjectStore('images');
+                }
+                if (event.oldVersion < 2) {
+                    db.createObjectStore('customers', { keyPath: 'id' });
+                }
+                if (event.oldVersion < 3) {
+                    db.createObjectStore('revisions', { keyPath: 'id' }).createIndex('reportId', 'reportId');
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(toStorageError(request.error));
+            request.onblocked = () => reject(new StorageError('Close other tabs of this app and reload to finish updating storage.'));
+        });
+        // Let a later call try again rather than caching the failure
+        databasePromise.catch(() => { databasePromise = null; });
+    }
+    return databasePromise;
+}
+
+/**
+ * Splits a report into its record and the image Blobs stored next to it: the main image
+ * and one per photo log entry.
+ */
+async function toStoredReport(report: Report): Promise<{ record: StoredReport; images: StoredImage[] }> {
+    const { imageUrl, photos, ...rest } = report;
+    const images: StoredImage[] = [];
+    const image = await imageBlob(imageUrl);
+    if (image) images.push({ key: reportImageKey(report.id), blob: image });
+    const storedPhotos: StoredPhoto[] = [];
+    for (const { dataUrl, ...photo } of photos || []) {
+        const blob = await imageBlob(dataUrl);
+        if (!blob) continue;
+        const key = reportPhotoKey(report.id, photo.id);
+        images.push({ key, blob });
+        storedPhotos.push({ ...photo, imageKey: key });
+    }
+    const record: StoredReport = { ...rest, imageKey: image ? reportImageKey(report.id) : null };
+    if (storedPhotos.length > 0) record.photos = storedPhotos;
+    return { record, images };
+}
+
+/**
+ * Reads a report's image Blobs within the given transaction, keyed like the images store.
+ */
+async function readReportImages(transaction: IDBTransaction, record: StoredReport): Promise<Map<string, Blob>> {
+    const keys = [record.imageKey, ...(record.photos || []).map(photo => photo.imageKey)].filter((key): key is string => !!key);
+    const blobs: (Blob | undefined)[] = await Promise.all(keys.map(key => requestResult(transaction.objectStore('images').get(key))));
+    return new Map(keys.flatMap((key, i) => (blobs[i] ? [[key, blobs[i]!] as [string, Blob]] : [])));
+}
+
+async function fromStoredReport(record: StoredReport, images: Map<string, Blob>): Promise<Report> {
+    const { imageKey, photos, ...rest } = record;
+    const image = imageKey ? images.get(imageKey) : undefined;
+    const report: Report = { ...rest, imageUrl: image ? await blobToDataUrl(image) : '' };
+    if (photos) {
+        const restored: ReportPhoto[] = [];
+        for (const { imageKey: photoKey, ...photo } of photos) {
+            const blob = images.get(photoKey);
+            if (blob) restored.push({ ...photo, dataUrl: await blobToDataUrl(blob) });
+        }
+        report.photos = restored;
+    }
+    return report;
+}
+
+/**
+ * Queues a report and its images for writing, replacing any photos it no longer has.
+ */
+function writeStoredReport(transaction: IDBTransaction, { record, images }: { record: StoredReport; images: StoredImage[] }) {
+    transaction.objectStore('reports').put(record);
+    transaction.objectStore('images').delete(reportPhotoKeys(record.id));
+    images.forEach(({ key, blob }) => transaction.objectStore('images').put(blob, key));
+}
+
+async function toStoredProfile(profile: Profile): Promise<{ record: StoredProfile; logo: Blob | null }> {
+    const { logoDataUrl, ...rest } = profile;
+    const logo = await imageBlob(logoDataUrl);
+    return { record: { ...rest, logoKey: logo ? PROFILE_LOGO_KEY : null }, logo };
+}
+
+/**
+ * Imports reports, templates and the profile saved in localStorage by older versions.
+ * The old keys are only removed once the import has committed, so a failed import
+ * (e.g. a full disk) loses nothing and is retried on the next start.
+ */
+async function migrateLegacyStorage() {
+    const read = (key: string) => {
+        const json = localStorage.getItem(key);
+        return json ? JSON.parse(json) : null;
+    };
+    const reports: Report[] | null = read(LEGACY_KEYS.reports);
+    const templates: Template[] | null = read(LEGACY_KEYS.templates);
+    const profile: Profile | null = read(LEGACY_KEYS.profile);
+    if (!reports && !templates && !profile) return;
+
+    await importWorkspace({ reports: reports || [], templates: templates || [], profile }, false);
+    Object.values(LEGACY_KEYS).forEach(key => localStorage.removeItem(key));
+}
+
+/**
+ * Opens the database and imports any data left in localStorage. Call once before
+ * reading anything.
+ * @throws StorageQuotaError if the old data doesn't fit; it stays in localStorage.
+ */
+export async function initStorage() {
+    await openDatabase();
+    await migrateLegacyStorage();
+}
+
+/**
+ * All saved reports, newest first.
+ */
+export async function getReports(): Promise<Report[]> {
+    const db = await openDatabase();
+    const transaction = db.transaction(['reports', 'images'], 'readonly');
+    const records: StoredReport[] = await requestResult(transaction.objectStore('reports').getAll());
+    const images = await Promise.all(records.map(record => readReportImages(transaction, record)));
+    const reports = await Promise.all(records.map((record, i) => fromStoredReport(record, images[i])));
+    return reports.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+}
+
+export async function getReport(id: number): Promise<Report | null> {
+    const db = await openDatabase();
+    const transaction = db.transaction(['reports', 'images'], 'readonly');
+    const record: StoredReport | undefined = await requestResult(transaction.objectStore('reports').get(id));
+    if (!record) return null;
+    return fromStoredReport(record, await readReportImages(transaction, record));
+}
+
+export async function countReports(): Promise<number> {
+    const db = await openDatabase();
+    return requestResult(db.transaction('reports', 'readonly').objectStore('reports').count());
+}
+
+/**
+ * Creates or replaces a report; its image and photos are stored as Blobs alongside it.
+ * @param report The report to save.
+ * @param revisions Revisions recording this save, written in the same transaction.
+ */
+export async function putReport(report: Report, revisions: ReportRevision[] = []) {
+    const stored = await toStoredReport(report);
+    const db = await openDatabase();
+    const transaction = db.transaction(['reports', 'images', 'revisions'], 'readwrite');
+    writeStoredReport(transaction, stored);
+    revisions.forEach(revision => transaction.objectStore('revisions').put(revision));
+    await transactionDone(transaction);
+}
+
+/**
+ * Deletes a report with its images and revisions.
+ */
+export async function deleteReport(id: number) {
+    const db = await openDatabase();
+    const transaction = db.transaction(['reports', 'images', 'revisions'], 'readwrite');
+    transaction.objectStore('reports').delete(id);
+    transaction.objectStore('images').delete(reportImageKey(id));
+    transaction.objectStore('images').delete(reportPhotoKeys(id));
+    const revisions = transaction.objectStore('revisions');
+    const revisionIds: IDBValidKey[] = await requestResult(revisions.index('reportId').getAllKeys(id));
+    revisionIds.forEach(revisionId => revisions.delete(revisionId));
+    await transactionDone(transaction);
+}
+
+/**
+ * A report's revisions, newest first.
+ */
+export async function getRevisions(reportId: number): Promise<ReportRevision[]> {
+    const db = await openDatabase();
+    const revisions: ReportRevision[] = await requestResult(
+        db.transaction('revisions', 'readonly').objectStore('revisions').index('reportId').getAll(reportId));
+    return revisions.sort((a, b) => b.savedAt.localeCompare(a.savedAt) || b.id - a.id);
+}
+
+/**
+ * Every revision of every report, for backups.
+ */
+export async function getAllRevisions(): Promise<ReportRevision[]> {
+    const db = await openDatabase();
+    return requestResult(db.transaction('revisions', 'readonly').objectStore('revisions').getAll());
+}
+
+/**
+ * All saved templates, newest first.
+ */
+export async function getTemplates(): Promise<Template[]> {
+    const db = await openDatabase();
+    const templates: Template[] = await requestResult(db.transaction('templates', 'readonly').objectStore('templates').getAll());
+    return templates.sort((a, b) => b.id - a.id);
+}
+
+export async function getTemplate(id: number): Promise<Template | null> {
+    const db = await openDatabase();
+    return (await requestResult(db.transaction('templates', 'readonly').objectStore('templates').get(id))) || null;
+}
+
+export async function putTemplate(template: Template) {
+    const db = await openDatabase();
+    const transaction = db.transaction('templates', 'readwrite');
+    transaction.objectStore('templates').put(template);
+    await transactionDone(transaction);
+}
+
+export async function deleteTemplate(id: number) {
+    const db = await openDatabase();
+    const transaction = db.transaction('templates', 'readwrite');
+    transaction.objectStore('templates').delete(id);
+    await transactionDone(transaction);
+}
+
+/**
+ * All saved customers, sorted by name.
+ */
+export async function getCustomers(): Promise<Customer[]> {
+    const db = await openDatabase();
+    const customers: Customer[] = await requestResult(db.transaction('customers', 'readonly').objectStore('customers').getAll());
+    return customers.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getCustomer(id: number): Promise<Customer | null> {
+    const db = await openDatabase();
+    return (await requestResult(db.transaction('customers', 'readonly').objectStore('customers').get(id))) || null;
+}
+
+export async function putCustomer(customer: Customer) {
+    const db = await openDatabase();
+    const transaction = db.transaction('customers', 'readwrite');
+    transaction.objectStore('customers').put(customer);
+    await transactionDone(transaction);
+}
+
+/**
+ * Deletes a customer and unlinks their reports, which are kept.
+ */
+export async function deleteCustomer(id: number) {
+    const db = await openDatabase();
+    const transaction = db.transaction(['customers', 'reports'], 'readwrite');
+    transaction.objectStore('customers').delete(id);
+    const reports = transaction.objectStore('reports');
+    const records: StoredReport[] = await requestResult(reports.getAll());
+    records.filter(record => record.customerId === id).forEach(({ customerId, ...record }) => reports.put(record));
+    await transactionDone(transaction);
+}
+
+export async function getProfile(): Promise<Profile | null> {
+    const db = await openDatabase();
+    const transaction = db.transaction(['profile', 'images'], 'readonly');
+    const record: StoredProfile | undefined = await requestResult(transaction.objectStore('profile').get(PROFILE_KEY));
+    if (!record) return null;
+    const logo: Blob | undefined = record.logoKey
+        ? await requestResult(transaction.objectStore('images').get(record.logoKey))
+        : undefined;
+    const { logoKey, ...rest } = record;
+    return { ...rest, logoDataUrl: logo ? await blobToDataUrl(logo) : '' };
+}
+
+/**
+ * Saves the company profile; the logo is stored as a Blob.
+ */
+export async function putProfile(profile: Profile) {
+    const { record, logo } = await toStoredProfile(profile);
+    const db = await openDatabase();
+    const transaction = db.transaction(['profile', 'images'], 'readwrite');
+    transaction.objectStore('profile').put(record, PROFILE_KEY);
+    if (logo) {
+        transaction.objectStore('images').put(logo, PROFILE_LOGO_KEY);
+    } else {
+        transaction.objectStore('images').delete(PROFILE_LOGO_KEY);
+    }
+    await transactionDone(transaction);
+}
+
+/**
+ * Writes restored data in a single transaction, so a failed restore changes nothing.
+ * @param data The reports, templates, customers and revisions to write, and the profile if it should change.
+ * @param replace Clear all reports, templates, customers, revisions, images and the profile first.
+ */
+export async function importWorkspace(
+    data: { reports: Report[]; templates: Template[]; customers?: Customer[]; revisions?: ReportRevision[]; profile: Profile | null },
+    replace: boolean,
+) {
+    // Blobs are prepared first because a transaction closes while awaiting anything else
+    const storedReports = await Promise.all(data.reports.map(toStoredReport));
+    const storedProfile = data.profile ? await toStoredProfile(data.profile) : null;
+    const db = await openDatabase();
+    const stores = ['reports', 'templates', 'customers', 'revisions', 'profile', 'images'];
+    const transaction = db.transaction(stores, 'readwrite');
+    if (replace) {
+        stores.forEach(name => transaction.objectStore(name).clear());
+    }
+    storedReports.forEach(stored => writeStoredReport(transaction, stored));
+    data.templates.forEach(template => transaction.objectStore('templates').put(template));
+    (data.customers || []).forEach(customer => transaction.objectStore('customers').put(customer));
+    (data.revisions || []).forEach(revision => transaction.objectStore('revisions').put(revision));
+    if (storedProfile) {
+        transaction.objectStore('profile').put(storedProfile.record, PROFILE_KEY);
+        if (storedProfile.logo) transaction.objectStore('images').put(storedProfile.logo, PROFILE_LOGO_KEY);
+    }
+    await transactionDone(transaction);
+}
@@ -0,0 +1,205 @@
+import type { CustomSection, Report, ReportVariantId, Template, TemplateVersion } from "../types";
+import { isCustomSection, sectionKind, OPTION_SECTION_KINDS } from "./sections";
+import { isReportVariantId } from "./variants";
+
+// --- TEMPLATE VERSIONS ---
+
+/**
+ * The template's current version. Templates made before versioning are version 1.
+ */
+export function templateVersion(template: Template): number {
+    return template.version || 1;
+}
+
+/**
+ * Applies an edit to a template. When the name or sections change, the template moves to a
+ * new version and the old one is kept, so reports made with it keep their sections.
+ * @param existing The template as it is now.
+ * @param edit The edited name and sections.
+ * @param savedAt When the edit was saved.
+ * @returns The updated template, or the same object if nothing changed.
+ */
+export function reviseTemplate(existing: Template, edit: Pick<Template, 'name' | 'customSections'>, savedAt: Date): Template {
+    const unchanged = existing.name === edit.name
+        && JSON.stringify(existing.customSections) === JSON.stringify(edit.customSections);
+    if (unchanged) return existing;
+    const previous: TemplateVersion = {
+        version: templateVersion(existing),
+        name: existing.name,
+        customSections: existing.customSections,
+        savedAt: savedAt.toISOString(),
+    };
+    return {
+        ...existing,
+        ...edit,
+        version: previous.version + 1,
+        previousVersions: [...(existing.previousVersions || []), previous],
+    };
+}
+
+/**
+ * The template as a report made with it saw it: the report's recorded version if that is
+ * an older one, otherwise the current template. Reports made before versioning used version 1.
+ * @param template The template, as stored now.
+ * @param report The report whose version to use.
+ */
+export function templateForReport(template: Template, report: Pick<Report, 'templateVersion'>): Template {
+    const previous = template.previousVersions?.find(version => version.version === (report.templateVersion || 1));
+    if (!previous) return template;
+    return { ...template, name: previous.name, customSections: previous.customSections };
+}
+
+/**
+ * A copy of a template that starts its own version history.
+ * @param template The template to copy.
+ * @param id The new template's ID.
+ */
+export function duplicateTemplate(template: Template, id: number): Template {
+    return {
+        id,
+        name: `${template.name} (Copy)`,
+        customSections: template.customSections.map(section => ({ ...section })),
+        defaultVariant: template.defaultVariant,
+        version: 1,
+    };
+}
+
+/**
+ * How many reports were made with the template.
+ */
+export function countTemplateUsage(reports: Report[], templateId: number): number {
+    return reports.filter(report => report.templateId === templateId).length;
+}
+
+// --- TEMPLATE FILES ---
+
+export const TEMPLATE_FILE_FORMAT = 'contractorflow-templates';
+export const TEMPLATE_FILE_VERSION = 1;
+
+/**
+ * A template as shared between workspaces: its name and sections, with section IDs kept so
+ * copies of the same template fill in the same fields. IDs, versions and archive state stay behind.
+ */
+export type TemplateDefinition = {
+    name: string;
+    customSections: CustomSection[];
+    defaultVariant?: ReportVariantId;
+};
+
+/**
+ * One or more templates as a file.
+ */
+export type TemplateFile = {
+    format: typeof TEMPLATE_FILE_FORMAT;
+    version: number;
+    exportedAt: string;
+    templates: TemplateDefinition[];
+};
+
+/**
+ * Thrown when a file isn't a usable template file.
+ */
+export class TemplateFileError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TemplateFileError';
+    }
+}
+
+/**
+ * Builds the contents of a template file.
+ */
+export function createTemplateFile(templates: Template[]): string {
+    const file: TemplateFile = {
+        format: TEMPLATE_FILE_FORMAT,
+        version: TEMPLATE_FILE_VERSION,
+        exportedAt: new Date().toISOString(),
+        templates: templates.map(({ name, customSections, defaultVariant }) => ({ name, customSections, defaultVariant })),
+    };
+    return JSON.stringify(file, null, 2);
+}
+
+function validateDefinition(definition: unknown, index: number): TemplateDefinition {
+    const label = `Template ${index + 1}`;
+    if (typeof definition !== 'object' || definition === null) throw new TemplateFileError(`${label} is unreadable.`);
+    const { name, customSections, defaultVariant } = definition as Record<string, unknown>;
+    if (typeof name !== 'string' || !name.trim()) throw new TemplateFileError(`${label} has no name.`);
+    if (!Array.isArray(customSections)) throw new TemplateFileError(`"${name}" has no sections.`);
+    customSections.forEach((section, sectionIndex) => {
+        if (!isCustomSection(section) || !section.title.trim()) {
+            throw new TemplateFileError(`Section ${sectionIndex + 1} of "${name}" is unreadable.`);
+        }
+        if (OPTION_SECTION_KINDS.includes(sectionKind(section)) && !section.options?.length) {
+            throw new TemplateFileError(`"${section.title}" in "${name}" needs at least one option.`);
+        }
+    });
+    if (new Set(customSections.map(section => section.id)).size !== customSections.length) {
+        throw new TemplateFileError(`"${name}" has two sections with the same ID.`);
+    }
+    if (defaultVariant !== undefined && !isReportVariantId(defaultVariant)) {
+        throw new TemplateFileError(`"${name}" has an unknown default PDF version.`);
+    }
+    return { name: name.trim(), customSections: customSections as CustomSection[], defaultVariant: defaultVariant as ReportVariantId | undefined };
+}
+
+/**
+ * Reads and validates a template file.
+ * @param text The file contents.
+ * @returns The templates in the file.
+ * @throws TemplateFileError describing the first problem found.
+ */
+export function parseTemplateFile(text: string): TemplateDefinition[] {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new TemplateFileError('This file is not a template file: it could not be read as JSON.');
+    }
+    if (typeof data !== 'object' || data === null || (data as TemplateFile).format !== TEMPLATE_FILE_FORMAT) {
+        throw new TemplateFileError('This file is not a ContractorFlow template file.');
+    }
+    const { version, templates } = data as TemplateFile;
+    if (typeof version !== 'number' || version > TEMPLATE_FILE_VERSION) {
+        throw new TemplateFileError('This template file was made by a newer version of the app. Update the app and try again.');
+    }
+    if (!Array.isArray(templates) || templates.length === 0) {
+        throw new TemplateFileError('This template file has no templates in it.');
+    }
+    return templates.map(validateDefinition);
+}
+
+/**
+ * Turns imported definitions into new templates. Definitions identical to a template already
+ * here are skipped; one whose name is taken by a different template gets "(Imported)" added.
+ * @param definitions The templates read from the file.
+ * @param existing The templates already in the workspace.
+ * @param firstId The ID for the first new template; the rest count up from it.
+ * @returns The templates to save, and how many were skipped as duplicates.
+ */
+export function planTemplateImport(definitions: TemplateDefinition[], existing: Template[], firstId: number) {
+    const sameContent = (a: TemplateDefinition, b: TemplateDefinition) => a.name === b.name
+        && JSON.stringify(a.customSections) === JSON.stringify(b.customSections);
+    const names = new Set(existing.map(template => template.name));
+    const templates: Template[] = [];
+    let duplicates = 0;
+    definitions.forEach(definition => {
+        if ([...existing, ...templates].some(template => sameContent(template, definition))) {
+            duplicates++;
+            return;
+        }
+        const name = names.has(definition.name) ? `${definition.name} (Imported)` : definition.name;
+        names.add(name);
+        templates.push({ id: firstId + templates.length, name, customSections: definition.customSections, defaultVariant: definition.defaultVariant, version: 1 });
+    });
+    return { templates, duplicates };
+}
+
+/**
+ * A file name for exported templates, e.g. "insurance-claim.template.json".
+ */
+export function templateFileName(templates: Template[]): string {
+    const slug = templates.length === 1
+        ? templates[0].name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'template'
+        : 'templates';
+    return `${slug}.template.json`;
+}
@@ -0,0 +1,169 @@
+import type { EdgeKind, Pitch, RoofFacet, RoofTracing, TracePoint, TracedLine, TracedPolygon } from "../types";
+import { createFacet, hipValleyMultiplier, pitchMultiplier, EDGE_KINDS } from "./facets";
+
+// --- ROOF TRACING GEOMETRY ---
+
+/**
+ * Creates an empty tracing for an image of the given natural size.
+ */
+export function createTracing(imageWidth: number, imageHeight: number): RoofTracing {
+    return { imageWidth, imageHeight, scale: null, polygons: [], lines: [] };
+}
+
+export function distance(a: TracePoint, b: TracePoint): number {
+    return Math.hypot(b.x - a.x, b.y - a.y);
+}
+
+/**
+ * Feet per image pixel from the tracing's scale reference, or null if no scale is set.
+ */
+export function feetPerPixel(tracing: RoofTracing): number | null {
+    const { scale } = tracing;
+    if (!scale) return null;
+    const pixels = distance(scale.from, scale.to);
+    return pixels > 0 && scale.feet > 0 ? scale.feet / pixels : null;
+}
+
+/**
+ * Area of a polygon in square pixels (shoelace formula).
+ */
+export function polygonPixelArea(points: TracePoint[]): number {
+    let twiceArea = 0;
+    points.forEach((point, i) => {
+        const next = points[(i + 1) % points.length];
+        twiceArea += point.x * next.y - next.x * point.y;
+    });
+    return Math.abs(twiceArea) / 2;
+}
+
+export function polygonCentroid(points: TracePoint[]): TracePoint {
+    const sum = points.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 });
+    return { x: sum.x / points.length, y: sum.y / points.length };
+}
+
+/**
+ * Plan (footprint) area of a traced polygon in sq ft, or null if no scale is set.
+ */
+export function polygonPlanArea(polygon: TracedPolygon, tracing: RoofTracing): number | null {
+    const ratio = feetPerPixel(tracing);
+    return ratio === null ? null : polygonPixelArea(polygon.points) * ratio * ratio;
+}
+
+/**
+ * Shortest distance from a point to a line segment.
+ */
+function distanceToSegment(point: TracePoint, a: TracePoint, b: TracePoint): number {
+    const lengthSq = (b.x - a.x) ** 2 + (b.y - a.y) ** 2;
+    if (lengthSq === 0) return distance(point, a);
+    const t = Math.max(0, Math.min(1, ((point.x - a.x) * (b.x - a.x) + (point.y - a.y) * (b.y - a.y)) / lengthSq));
+    return distance(point, { x: a.x + t * (b.x - a.x), y: a.y + t * (b.y - a.y) });
+}
+
+/**
+ * Whether a point lies inside a polygon (ray casting).
+ */
+function isPointInPolygon(point: TracePoint, points: TracePoint[]): boolean {
+    let inside = false;
+    for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+        const a = points[i];
+        const b = points[j];
+        if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+            inside = !inside;
+        }
+    }
+    return inside;
+}
+
+/**
+ * Index of the polygon a traced line belongs to: the one containing its midpoint,
+ * otherwise the one whose outline passes closest to it.
+ */
+function owningPolygonIndex(from: TracePoint, to: TracePoint, polygons: TracedPolygon[]): number {
+    const midpoint = { x: (from.x + to.x) / 2, y: (from.y + to.y) / 2 };
+    let bestIndex = 0;
+    let bestDistance = Number.POSITIVE_INFINITY;
+    polygons.forEach((polygon, index) => {
+        const outlineDistance = Math.min(...polygon.points.map((point, i) =>
+            distanceToSegment(midpoint, point, polygon.points[(i + 1) % polygon.points.length])));
+        const score = isPointInPolygon(midpoint, polygon.points) ? 0 : outlineDistance;
+        if (score < bestDistance) {
+            bestDistance = score;
+            bestIndex = index;
+        }
+    });
+    return bestIndex;
+}
+
+/**
+ * The true length in feet of a traced line. The image is a plan view, so eaves and ridges
+ * (which run level) are measured as drawn, while rakes, hips and valleys climb the roof and
+ * are longer than they look.
+ * @param line The traced line.
+ * @param pitch The pitch of the facet the line belongs to.
+ * @param ratio Feet per image pixel.
+ */
+function trueLength(line: TracedLine, pitch: Pitch, ratio: number): number {
+    const planLength = distance(line.from, line.to) * ratio;
+    switch (line.kind) {
+        case 'rake': return planLength * pitchMultiplier(pitch);
+        case 'hip':
+        case 'valley': return planLength * hipValleyMultiplier(pitch);
+        default: return planLength;
+    }
+}
+
+/**
+ * The true length in feet of a line in a tracing, at the pitch of the facet it belongs to,
+ * or null until a scale is set. This is the footage the line adds to the facets.
+ */
+export function tracedLineLength(line: TracedLine, tracing: RoofTracing): number | null {
+    const ratio = feetPerPixel(tracing);
+    if (ratio === null) return null;
+    // Before any facet is drawn there's no pitch to go on, so lines count as drawn
+    const pitch = tracing.polygons.length > 0
+        ? tracing.polygons[owningPolygonIndex(line.from, line.to, tracing.polygons)].pitch
+        : { rise: 0, run: 12 };
+    return trueLength(line, pitch, ratio);
+}
+
+/**
+ * Totals of a tracing: plan area and linear feet per edge type. Lengths are null until a scale is set.
+ */
+export function summarizeTracing(tracing: RoofTracing): { planArea: number | null; lengths: Record<EdgeKind, number> | null } {
+    const ratio = feetPerPixel(tracing);
+    if (ratio === null) return { planArea: null, lengths: null };
+    const lengths = { ridge: 0, hip: 0, valley: 0, eave: 0, rake: 0 };
+    tracing.lines.forEach(line => {
+        lengths[line.kind] += tracedLineLength(line, tracing)!;
+    });
+    const planArea = tracing.polygons.reduce((sum, polygon) => sum + polygonPixelArea(polygon.points) * ratio * ratio, 0);
+    return { planArea, lengths };
+}
+
+/**
+ * Converts a scaled tracing into roof facets: one facet per polygon, with each traced
+ * line's footage assigned to a single facet so shared edges aren't counted twice.
+ * @param tracing The tracing to convert; must have a scale and at least one polygon.
+ * @returns The facets, or null if the tracing can't be measured yet.
+ */
+export function tracingToFacets(tracing: RoofTracing): RoofFacet[] | null {
+    const ratio = feetPerPixel(tracing);
+    if (ratio === null || tracing.polygons.length === 0) return null;
+    const round1 = (value: number) => Math.round(value * 10) / 10;
+
+    const facets = tracing.polygons.map(polygon => {
+        const facet = createFacet(polygon.name, polygon.pitch);
+        facet.planArea = round1(polygonPixelArea(polygon.points) * ratio * ratio);
+        return facet;
+    });
+    tracing.lines.forEach(line => {
+        const facet = facets[owningPolygonIndex(line.from, line.to, tracing.polygons)];
+        facet.edges[line.kind] += trueLength(line, facet.pitch, ratio);
+    });
+    facets.forEach(facet => {
+        EDGE_KINDS.forEach(kind => {
+            facet.edges[kind] = round1(facet.edges[kind]);
+        });
+    });
+    return facets;
+}
@@ -0,0 +1,84 @@
+import type { Report, ReportVariantId } from "../types";
+
+// --- REPORT VARIANTS ---
+
+/**
+ * The parts a report PDF can be built from.
+ */
+export type ReportPdfSection =
+    | 'scope' | 'pricing' | 'acceptance' | 'accessNotes' | 'diagram' | 'measurements' | 'facets' | 'materials' | 'estimate'
+    | 'customNotes' | 'photos';
+
+export type ReportVariant = {
+    id: ReportVariantId;
+    label: string;
+    title: string; // Shown on the cover page
+    description: string;
+    sections: ReportPdfSection[]; // In the order they appear
+};
+
+export const REPORT_VARIANTS: ReportVariant[] = [
+    {
+        id: 'full',
+        label: 'Complete Report',
+        title: 'Roof Measurement Report',
+        description: 'Everything in the report, for your own files.',
+        sections: ['diagram', 'measurements', 'facets', 'materials', 'pricing', 'estimate', 'accessNotes', 'customNotes', 'photos'],
+    },
+    {
+        id: 'homeowner',
+        label: 'Homeowner Proposal',
+        title: 'Roofing Proposal',
+        description: 'Scope of work, photos and price, without linear footage.',
+        sections: ['scope', 'photos', 'pricing', 'acceptance'],
+    },
+    {
+        id: 'crew',
+        label: 'Crew Work Order',
+        title: 'Crew Work Order',
+        description: 'Access notes, measurements and the material list, without prices.',
+        sections: ['accessNotes', 'measurements', 'diagram', 'facets', 'materials', 'customNotes'],
+    },
+    {
+        id: 'insurance',
+        label: 'Insurance Report',
+        title: 'Insurance Roof Report',
+        description: 'Measurements, the line-item estimate, damage notes and photos for the adjuster.',
+        sections: ['measurements', 'diagram', 'facets', 'estimate', 'customNotes', 'photos'],
+    },
+];
+
+export function isReportVariantId(value: unknown): value is ReportVariantId {
+    return REPORT_VARIANTS.some(variant => variant.id === value);
+}
+
+export function getReportVariant(id: ReportVariantId | undefined): ReportVariant {
+    return REPORT_VARIANTS.find(variant => variant.id === id) || REPORT_VARIANTS[0];
+}
+
+/**
+ * The variant's sections that have something to show for this report: pricing needs a saved
+ * quote, the estimate needs line items generated, photos need photos, and so on.
+ * @param variant The variant.
+ * @param report The report.
+ * @param hasTemplate Whether the report's template still exists, for its custom notes.
+ */
+export function variantSections(variant: ReportVariant, report: Report, hasTemplate: boolean): ReportPdfSection[] {
+    return variant.sections.filter(section => {
+        switch (section) {
+            case 'pricing':
+            case 'acceptance':
+                return !!report.quote;
+            case 'estimate':
+                return !!report.estimate;
+            case 'accessNotes':
+                return !!report.accessNotes?.trim();
+            case 'customNotes':
+                return hasTemplate;
+            case 'photos':
+                return !!report.photos?.length;
+            default:
+                return true;
+        }
+    });
+}
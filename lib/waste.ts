@@ -0,0 +1,105 @@
+import type { Measurements, Report, ShingleType } from "../types";
+import { risePerTwelve, MAX_WASTE_PERCENT } from "./measurements";
+
+// --- WASTE FACTOR ---
+
+export const SHINGLE_TYPES: { id: ShingleType; label: string; basePercent: number }[] = [
+    { id: 'threeTab', label: '3-tab shingles', basePercent: 10 },
+    { id: 'architectural', label: 'Architectural shingles', basePercent: 10 },
+    { id: 'designer', label: 'Designer shingles', basePercent: 13 },
+    { id: 'metal', label: 'Metal panels', basePercent: 5 },
+];
+
+export const DEFAULT_SHINGLE_TYPE: ShingleType = 'architectural';
+
+/** Extra waste for each foot of hip and valley per square of roof. */
+const CUT_LINE_PERCENT_PER_FOOT = 0.8;
+const MAX_CUT_LINE_PERCENT = 12;
+/** Facets beyond a simple four-sided roof each add this much for the extra starts and cuts. */
+const SIMPLE_FACET_COUNT = 4;
+const PERCENT_PER_EXTRA_FACET = 0.5;
+const MAX_FACET_PERCENT = 6;
+/** Steeper roofs lose more to breakage and handling: [lowest rise per 12, extra percent]. */
+const PITCH_STEPS: [number, number][] = [[13, 3], [10, 2], [8, 1]];
+
+export type WasteStep = {
+    label: string;
+    detail: string; // How the step's figure was reached
+    percent: number;
+};
+
+export type WasteCalculation = {
+    percent: number; // Rounded to a whole percent
+    steps: WasteStep[];
+};
+
+const formatNumber = (value: number) => value.toLocaleString('en-US', { maximumFractionDigits: 1 });
+
+export function isShingleType(value: unknown): value is ShingleType {
+    return SHINGLE_TYPES.some(type => type.id === value);
+}
+
+/**
+ * Works out the waste allowance from the roof's complexity: a base for the product, plus
+ * allowances for hip and valley cuts, the number of facets and a steep pitch.
+ * @param measurements The roof measurements; the waste factor in them is ignored.
+ * @param facetCount How many facets the roof has.
+ * @param shingleType The roof covering being installed.
+ */
+export function calculateWaste(measurements: Measurements, facetCount: number, shingleType: ShingleType = DEFAULT_SHINGLE_TYPE): WasteCalculation {
+    const product = SHINGLE_TYPES.find(type => type.id === shingleType) || SHINGLE_TYPES[1];
+    const squares = measurements.totalArea.value / 100;
+    const cutLines = measurements.hips.value + measurements.valleys.value;
+    const cutLinesPerSquare = squares > 0 ? cutLines / squares : 0;
+    const extraFacets = Math.max(facetCount - SIMPLE_FACET_COUNT, 0);
+    const pitch = risePerTwelve(measurements.pitch);
+    const pitchStep = PITCH_STEPS.find(([minimum]) => pitch >= minimum);
+
+    const steps: WasteStep[] = [
+        { label: 'Base', detail: product.label, percent: product.basePercent },
+        {
+            label: 'Hips & valleys',
+            detail: `${formatNumber(cutLines)} ft over ${formatNumber(squares)} squares = ${formatNumber(cutLinesPerSquare)} ft per square`,
+            percent: Math.min(cutLinesPerSquare * CUT_LINE_PERCENT_PER_FOOT, MAX_CUT_LINE_PERCENT),
+        },
+        {
+            label: 'Facets',
+            detail: extraFacets > 0
+                ? `${facetCount} facets, ${extraFacets} more than a simple roof`
+                : `${facetCount} ${facetCount === 1 ? 'facet' : 'facets'}`,
+            percent: Math.min(extraFacets * PERCENT_PER_EXTRA_FACET, MAX_FACET_PERCENT),
+        },
+        {
+            label: 'Pitch',
+            detail: pitchStep ? `${formatNumber(pitch)}/12 is ${pitchStep[0]}/12 or steeper` : `${formatNumber(pitch)}/12 needs no steep allowance`,
+            percent: pitchStep ? pitchStep[1] : 0,
+        },
+    ];
+    const total = steps.reduce((sum, step) => sum + step.percent, 0);
+    return { percent: Math.min(Math.round(total), MAX_WASTE_PERCENT), steps };
+}
+
+/**
+ * The report's waste calculation and the percentage in effect: the estimator's override if
+ * there is one, otherwise the calculated figure.
+ */
+export function reportWaste(report: Pick<Report, 'measurements' | 'facets' | 'shingleType' | 'wasteOverride'>) {
+    const calculation = calculateWaste(report.measurements, report.facets.length, report.shingleType);
+    return { calculation, percent: report.wasteOverride ? report.wasteOverride.percent : calculation.percent };
+}
+
+/**
+ * The report with its waste factor measurement set to the percentage in effect, so material
+ * quantities, quotes and estimates all use it.
+ * @returns The same report if the waste factor is already current.
+ */
+export function withWasteFactor<T extends Report>(report: T): T {
+    const { percent } = reportWaste(report);
+    if (report.measurements.wasteFactor.value === percent && report.unparsedMeasurements?.wasteFactor === undefined) return report;
+    const { wasteFactor: _unparsed, ...unparsedMeasurements } = report.unparsedMeasurements || {};
+    return {
+        ...report,
+        measurements: { ...report.measurements, wasteFactor: { value: percent, unit: '%' } },
+        unparsedMeasurements: Object.keys(unparsedMeasurements).length > 0 ? unparsedMeasurements : undefined,
+    };
+}
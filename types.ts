@@ -0,0 +1,398 @@
+// --- TYPE DEFINITIONS ---
+export type AreaUnit = 'sq ft';
+export type LengthUnit = 'ft';
+export type PercentUnit = '%';
+
+export type Quantity<U extends string> = {
+    value: number;
+    unit: U;
+};
+
+export type Pitch = {
+    rise: number;
+    run: number; // Inches of run, normally 12
+};
+
+export type Measurements = {
+    totalArea: Quantity<AreaUnit>;
+    pitch: Pitch;
+    ridges: Quantity<LengthUnit>;
+    hips: Quantity<LengthUnit>;
+    valleys: Quantity<LengthUnit>;
+    eaves: Quantity<LengthUnit>;
+    rakes: Quantity<LengthUnit>;
+    wasteFactor: Quantity<PercentUnit>;
+};
+
+export type MeasurementKey = keyof Measurements;
+
+/**
+ * The free-form string measurements stored by older versions of the app
+ * and still returned by the model in `getRoofReport`.
+ */
+export type RawMeasurements = Record<MeasurementKey, string>;
+
+export type EdgeKind = 'ridge' | 'hip' | 'valley' | 'eave' | 'rake';
+
+/**
+ * One plane of the roof. Edge lengths are the footage assigned to this facet;
+ * an edge shared by two facets (a ridge or valley) is recorded on one of them only.
+ */
+/**
+ * The overall shape of a roof, used to draw its plan view.
+ */
+export type RoofType = 'gable' | 'hip' | 'dutchHip' | 'mansard' | 'shed' | 'combination';
+
+/**
+ * The kind of roof covering, which sets the starting waste allowance.
+ */
+export type ShingleType = 'threeTab' | 'architectural' | 'designer' | 'metal';
+
+/**
+ * A waste factor set by the estimator in place of the calculated one.
+ */
+export type WasteOverride = {
+    percent: number;
+    reason: string;
+    overriddenAt: string; // ISO date
+};
+
+/**
+ * A camera angle on the 3D roof preview, in degrees.
+ */
+export type RoofViewAngle = {
+    yaw: number; // Rotation around the building, 0 looking at the front
+    tilt: number; // Height of the eye, 0 level with the eaves and 90 straight down
+    zoom: number; // 1 fits the whole building
+};
+
+export type RoofFacet = {
+    id: string;
+    name: string;
+    planArea: number; // Horizontal (footprint) area in sq ft
+    pitch: Pitch;
+    edges: Record<EdgeKind, number>; // Linear feet by edge type
+};
+
+export type TracePoint = {
+    x: number; // Pixels in the report image's natural size
+    y: number;
+};
+
+export type TracedPolygon = {
+    id: string;
+    name: string;
+    points: TracePoint[];
+    pitch: Pitch;
+};
+
+export type TracedLine = {
+    id: string;
+    kind: EdgeKind;
+    from: TracePoint;
+    to: TracePoint;
+};
+
+export type TraceScale = {
+    from: TracePoint;
+    to: TracePoint;
+    feet: number; // Known real-world length between the two points
+};
+
+/**
+ * Roof outline traced by an estimator over the report image.
+ */
+export type RoofTracing = {
+    imageWidth: number;
+    imageHeight: number;
+    scale: TraceScale | null;
+    polygons: TracedPolygon[];
+    lines: TracedLine[];
+};
+
+/**
+ * Who a report PDF is written for; each variant includes different sections.
+ */
+export type ReportVariantId = 'full' | 'homeowner' | 'crew' | 'insurance';
+
+export type SectionKind = 'longText' | 'checklist' | 'number' | 'singleSelect' | 'multiSelect' | 'date' | 'yesNo';
+
+export type CustomSection = {
+    id: string;
+    title: string;
+    kind?: SectionKind; // Missing on sections made before kinds existed, which are long text
+    options?: string[]; // Checklist items, or the choices of a select
+    unit?: string; // Shown after the value of a number section, e.g. "sq ft"
+};
+
+/**
+ * The value of one custom section in a report: text for long text, single selects and dates
+ * ("YYYY-MM-DD"), a number, yes/no as a boolean, and the ticked items of checklists and multi-selects.
+ */
+export type SectionValue = string | number | boolean | string[] | null;
+
+export type Template = {
+    id: number;
+    name: string;
+    customSections: CustomSection[];
+    version?: number; // Missing on templates made before versioning, which are version 1
+    archived?: boolean; // Archived templates are hidden from new reports but still used by existing ones
+    defaultVariant?: ReportVariantId; // The PDF version offered first for reports made with this template
+    previousVersions?: TemplateVersion[]; // Oldest first
+};
+
+/**
+ * A template as it was before an edit, kept so reports made with it still show their notes
+ * under the sections they were filled in with.
+ */
+export type TemplateVersion = {
+    version: number;
+    name: string;
+    customSections: CustomSection[];
+    savedAt: string;
+};
+
+/**
+ * Where a report's measurements and image came from, so a generated image is never
+ * presented as a photo of the property.
+ */
+export type ReportSource = {
+    measurements: 'manual' | 'provider';
+    image: 'uploaded' | 'aerial' | 'synthetic' | 'none';
+    providerName?: string; // The provider that supplied the measurements, the image or both
+};
+
+/**
+ * The editable content of a report as it was after one save.
+ */
+export type RevisionSnapshot = Pick<Report, 'measurements' | 'facets' | 'customData' | 'unparsedMeasurements'>;
+
+/**
+ * One saved version of a report. The first revision of a report holds its original values.
+ */
+export type ReportRevision = {
+    id: number;
+    reportId: number;
+    savedAt: string; // ISO date
+    label: string; // What the save was, e.g. "Edited details"
+    changedFields: string[]; // Paths such as "measurements.totalArea", "facets" or "customData.<section id>"
+    snapshot: RevisionSnapshot;
+};
+
+export type PhotoCategory = 'overview' | 'damage' | 'decking' | 'flashing' | 'gutters' | 'ventilation' | 'interior' | 'other';
+
+/**
+ * A site photo attached to a report's photo log.
+ */
+export type ReportPhoto = {
+    id: string;
+    dataUrl: string;
+    caption: string;
+    category: PhotoCategory;
+    takenAt: string; // ISO date; the file's modified time for uploads, the capture time for camera shots
+    source: 'file' | 'camera';
+};
+
+export type JobStatus = 'lead' | 'inspected' | 'quoted' | 'sold' | 'installed' | 'lost';
+
+export type StatusChange = {
+    status: JobStatus;
+    changedAt: string; // ISO date
+};
+
+export type Report = {
+    id: number;
+    address: string;
+    imageUrl: string;
+    measurements: Measurements; // Rolled-up totals, derived from `facets`
+    facets: RoofFacet[];
+    roofType?: RoofType; // Missing until chosen, in which case it is guessed from the measurements
+    viewAngle?: RoofViewAngle; // The 3D preview angle used in the PDF
+    shingleType?: ShingleType; // Missing means architectural
+    wasteOverride?: WasteOverride; // When missing, measurements.wasteFactor is calculated from the roof
+    acceptedWarnings?: string[]; // IDs of measurement warnings the estimator checked and accepted
+    tracing?: RoofTracing;
+    quote?: Quote;
+    estimate?: InsuranceEstimate;
+    accessNotes?: string; // Gate codes, parking, pets and other notes for the crew
+    unparsedMeasurements?: Partial<RawMeasurements>; // Original text of values that couldn't be migrated
+    timestamp: string;
+    templateId?: number;
+    templateVersion?: number; // The template version the report was made with
+    customData?: Record<string, SectionValue>; // Maps CustomSection.id to its value
+    source?: ReportSource; // Missing on reports made before sources were recorded, which were all AI-generated
+    photos?: ReportPhoto[]; // Photo log, in display order
+    customerId?: number;
+    status?: JobStatus; // Missing on reports made before the job pipeline, which count as leads
+    statusHistory?: StatusChange[]; // Every status the job has had, oldest first
+};
+
+/**
+ * The homeowner or client a report is prepared for.
+ */
+export type Customer = {
+    id: number;
+    name: string;
+    phone: string;
+    email: string;
+    address: string; // Mailing address; reports keep their own property address
+    insuranceCarrier: string;
+    claimNumber: string;
+    notes: string;
+    createdAt: string;
+};
+
+export type Profile = {
+    companyName: string;
+    companyAddress: string;
+    logoDataUrl: string;
+};
+
+export type MaterialKey =
+    | 'shingles'
+    | 'underlayment'
+    | 'starterStrip'
+    | 'ridgeCap'
+    | 'dripEdge'
+    | 'iceAndWater'
+    | 'valleyMetal'
+    | 'nails';
+
+export type MaterialProduct = {
+    name: string;
+    coverage: number; // Units depend on the product, see MATERIAL_COVERAGE_UNITS
+};
+
+export type MaterialSettings = {
+    products: Record<MaterialKey, MaterialProduct>;
+    iceAndWaterEaveWidth: number; // Feet of ice & water shield run up from the eaves
+    iceAndWaterValleyWidth: number; // Total feet of ice & water shield across each valley, both sides together
+};
+
+export type MaterialLine = {
+    key: MaterialKey;
+    product: string;
+    quantity: number;
+    unit: string;
+    basis: string; // Human-readable explanation of how the quantity was reached
+};
+
+export type MaterialTakeoff = {
+    squares: number; // Roofing squares including waste
+    lines: MaterialLine[];
+};
+
+export type SurchargeTier = {
+    threshold: number; // Minimum rise per 12 (pitch) or number of stories
+    ratePerSquare: number;
+};
+
+export type PriceBook = {
+    materialPrices: Record<MaterialKey, number>; // Price per purchase unit (bundle, roll, piece, box)
+    installRatePerSquare: number;
+    tearOffRatePerSquare: number; // Per layer removed
+    pitchSurcharges: SurchargeTier[]; // Applied to the squares of facets at or above each pitch
+    storySurcharges: SurchargeTier[]; // Applied to every square when the building has at least this many stories
+    overheadPercent: number;
+    markupPercent: number;
+    taxPercent: number; // Sales tax on materials
+};
+
+export type QuoteOptions = {
+    stories: number;
+    tearOffLayers: number;
+};
+
+export type QuoteLine = {
+    category: 'material' | 'labor' | 'surcharge';
+    description: string;
+    quantity: number;
+    unit: string;
+    unitPrice: number;
+    total: number;
+};
+
+export type Quote = {
+    createdAt: string;
+    options: QuoteOptions;
+    lines: QuoteLine[];
+    materialsTotal: number;
+    laborTotal: number;
+    surchargeTotal: number;
+    overhead: number;
+    markup: number;
+    tax: number;
+    total: number;
+};
+
+/**
+ * What a claim line's quantity is measured from. Squares are 100 sq ft of roof; linear
+ * bases are the total length of those roof edges in feet.
+ */
+export type ClaimQuantityBasis =
+    | 'squares' | 'squaresWithWaste' | 'eaves' | 'rakes' | 'eavesAndRakes' | 'ridgesAndHips' | 'valleys'
+    | 'steepSquares' | 'highSquares' | 'each';
+
+/**
+ * A configurable line code in the insurance estimate, e.g. "RFG DRIP" for drip edge per LF.
+ */
+export type ClaimCode = {
+    code: string;
+    description: string;
+    unit: 'SQ' | 'LF' | 'EA';
+    basis: ClaimQuantityBasis;
+    unitPrice: number;
+    minPitch?: number; // steepSquares only: rise per 12 from which facets count (inclusive)
+    maxPitch?: number; // steepSquares only: rise per 12 below which facets count; missing means no upper limit
+};
+
+export type ClaimCodeBook = {
+    codes: ClaimCode[];
+    depreciationPercent: number;
+    overheadPercent: number;
+    profitPercent: number;
+    taxPercent: number;
+};
+
+export type EstimateLine = {
+    id: string;
+    code: string;
+    description: string;
+    quantity: number;
+    unit: ClaimCode['unit'];
+    unitPrice: number;
+    calculatedQuantity?: number; // What the measurements gave, on generated lines; differs from `quantity` when overridden
+};
+
+/**
+ * A line-item estimate for an insurance claim, in the adjuster's format: replacement cost
+ * (RCV), overhead and profit (O&P), depreciation and actual cash value (ACV).
+ */
+export type InsuranceEstimate = {
+    createdAt: string;
+    stories: number;
+    lines: EstimateLine[];
+    depreciationPercent: number;
+    applyOverheadAndProfit: boolean;
+    overheadPercent: number;
+    profitPercent: number;
+    taxPercent: number;
+};
+
+export type RoofReportResult = {
+    imageUrl: string;
+    measurements: Measurements; // Fields that couldn't be read are zero
+    unparsedMeasurements?: Partial<RawMeasurements>; // The text of those fields, as returned
+};
+
+/**
+ * A source of roof imagery and measurements for an address.
+ */
+export type MeasurementProvider = {
+    id: string;
+    name: string;
+    description: string;
+    imagery: 'aerial' | 'synthetic'; // Real aerial photos, or generated illustrations
+    isAvailable: () => boolean; // e.g. false when an API key is missing
+    getRoofReport: (address: string) => Promise<RoofReportResult>;
+};